@@ -1,7 +1,10 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { useAiSettings } from './hooks/useAiSettings';
+import { usePromptLibrary } from './hooks/usePromptLibrary';
+import { useAnalysisQueue } from './hooks/useAnalysisQueue';
+import { useBillHistory } from './hooks/useBillHistory';
 import { analyzeBill } from './services/aiService';
-import type { BillData, LogEntry } from './types';
+import type { AnalysisProgress, BillData, LogEntry } from './types';
 import { Header } from './components/Header';
 import { Welcome } from './components/Welcome';
 import { FileUpload } from './components/FileUpload';
@@ -14,37 +17,58 @@ import { HistoryList } from './components/HistoryList';
 import { DebugLog } from './components/DebugLog';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { InfoModal } from './components/InfoModal';
+import { BatchQueue } from './components/BatchQueue';
+import { BackupModal } from './components/BackupModal';
+import { TrendDashboard } from './components/TrendDashboard';
+import { AccountEditor } from './components/AccountEditor';
+import { DuplicateBillModal } from './components/DuplicateBillModal';
+import { ImagePreprocessor } from './components/ImagePreprocessor';
+import { readBillFile } from './utils/files';
+import { isPdfFile } from './utils/pdf';
+import { validateBill } from './utils/validation';
+import { isCancellation } from './utils/abort';
+
+type AppView = 'analyze' | 'batch' | 'trends';
 
 const App: React.FC = () => {
     const [settings, saveSettings] = useAiSettings();
+    const [customPrompts, saveCustomPrompts] = usePromptLibrary();
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [capturedImage, setCapturedImage] = useState<string | null>(null);
+    const [capturedPages, setCapturedPages] = useState<string[]>([]);
+    const [capturedFromPdf, setCapturedFromPdf] = useState(false);
+    // The original or cleaned-up pages chosen in the preview; null while they are being prepared.
+    const [pagesToAnalyze, setPagesToAnalyze] = useState<string[] | null>(null);
     const [billData, setBillData] = useState<BillData | null>(null);
-    const [history, setHistory] = useState<BillData[]>(() => {
-        try {
-            const savedHistory = localStorage.getItem('billHistory');
-            return savedHistory ? JSON.parse(savedHistory) : [];
-        } catch (e) {
-            console.error("Failed to parse history from localStorage", e);
-            return [];
-        }
-    });
     const [showSettings, setShowSettings] = useState(false);
     const [showInfoModal, setShowInfoModal] = useState(false);
+    const [showBackup, setShowBackup] = useState(false);
+    const [editingAccountId, setEditingAccountId] = useState<string | null>(null);
+    const [pendingDuplicate, setPendingDuplicate] = useState<{ bill: BillData; duplicates: BillData[] } | null>(null);
     const [isDarkMode, setIsDarkMode] = useState(document.documentElement.classList.contains('dark'));
     const [logs, setLogs] = useState<LogEntry[]>([]);
     const [showDebugLog, setShowDebugLog] = useState(false);
     const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+    const [view, setView] = useState<AppView>('analyze');
+    const analysisController = useRef<AbortController | null>(null);
+    const [progress, setProgress] = useState<AnalysisProgress[]>([]);
+    // Fields a streaming model has finished so far, shown until the analysis completes.
+    const [partialBill, setPartialBill] = useState<Partial<BillData> | null>(null);
 
     const addLog = useCallback((level: LogEntry['level'], message: string, payload?: any) => {
         const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false });
         setLogs(prevLogs => [...prevLogs, { timestamp, level, message, payload }]);
     }, []);
 
-    useEffect(() => {
-        localStorage.setItem('billHistory', JSON.stringify(history));
-    }, [history]);
+    const history = useBillHistory(addLog);
+    const { saveBill, findDuplicates } = history;
+
+    const handleBatchBillAnalyzed = useCallback((bill: BillData) => {
+        // The queue runs unattended, so possible duplicates are saved and flagged in the history rather than asked about.
+        saveBill(bill);
+    }, [saveBill]);
+
+    const analysisQueue = useAnalysisQueue(settings, addLog, handleBatchBillAnalyzed);
 
     const toggleDarkMode = () => {
         const newIsDarkMode = !isDarkMode;
@@ -58,101 +82,142 @@ const App: React.FC = () => {
         }
     };
     
-    const fileToDataUrl = (file: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onload = () => resolve(reader.result as string);
-            reader.onerror = error => reject(error);
-            reader.readAsDataURL(file);
-        });
-    };
-
     const handleFileUpload = async (file: File) => {
         setError(null);
         try {
-            const dataUrl = await fileToDataUrl(file);
-            setCapturedImage(dataUrl);
-            addLog('INFO', `Image uploaded: ${file.name}`);
+            const pages = await readBillFile(file, addLog);
+            setCapturedFromPdf(isPdfFile(file));
+            setCapturedPages(pages);
+            addLog('INFO', pages.length > 1 ? `PDF uploaded: ${file.name} (${pages.length} pages)` : `Image uploaded: ${file.name}`);
         } catch (e) {
-            const errorMessage = "Failed to read the uploaded file.";
+            const errorMessage = e instanceof Error ? e.message : "Failed to read the uploaded file.";
             setError(errorMessage);
             addLog('ERROR', errorMessage, e);
         }
     };
 
-    const handleCameraCapture = (dataUrl: string) => {
+    const handleCameraCapture = (pages: string[]) => {
         setError(null);
-        setCapturedImage(dataUrl);
-        addLog('INFO', 'Image captured from camera.');
+        setCapturedFromPdf(false);
+        setCapturedPages(pages);
+        addLog('INFO', pages.length > 1 ? `${pages.length} pages captured from camera.` : 'Image captured from camera.');
     };
     
+    const handleProgress = useCallback(({ partialData, ...step }: AnalysisProgress) => {
+        setProgress(prev => prev.some(p => p.pass === step.pass)
+            ? prev.map(p => p.pass === step.pass ? step : p)
+            : [...prev, step]);
+        if (partialData) setPartialBill(partialData);
+    }, []);
+
     const handleAnalyzeBill = useCallback(async () => {
-        if (!capturedImage) {
+        if (capturedPages.length === 0) {
             setError("No image to analyze.");
             addLog('ERROR', "Analysis triggered with no image.");
             return;
         }
 
-        if (settings.provider === 'gemini' && !process.env.API_KEY) {
-            const msg = "Gemini API key is not configured. Please set the API_KEY environment variable.";
-            setError(msg);
-            addLog('ERROR', msg);
-            return;
-        }
-
         setIsLoading(true);
         setError(null);
         setLogs([]); // Clear logs for new analysis
         addLog('INFO', 'Starting bill analysis...');
+        setProgress([]);
+        setPartialBill(null);
+        const controller = new AbortController();
+        analysisController.current = controller;
 
         try {
-            const { parsedData, rawResponse } = await analyzeBill(capturedImage, settings, addLog);
+            const { parsedData, rawResponse } = await analyzeBill(pagesToAnalyze ?? capturedPages, settings, addLog, controller.signal, handleProgress);
             const newBill: BillData = {
                 ...parsedData,
                 id: `bill-${Date.now()}`,
                 analyzedAt: new Date().toISOString(),
                 rawResponse: rawResponse,
             };
-            setBillData(newBill);
-            setHistory(prev => [newBill, ...prev.slice(0, 19)]); // Keep last 20
-            setCapturedImage(null);
+            setCapturedPages([]);
             addLog('INFO', 'Analysis successful!', newBill);
+            const duplicates = await findDuplicates(newBill);
+            if (duplicates.length > 0) {
+                // Shown behind the prompt; it is only saved once the user decides.
+                setBillData(newBill);
+                setPendingDuplicate({ bill: newBill, duplicates });
+                addLog('INFO', `The bill looks like ${duplicates.length} bill(s) already in the history.`, duplicates.map(d => d.id));
+            } else {
+                // Saving assigns the bill to an account.
+                setBillData(await saveBill(newBill) ?? newBill);
+            }
         } catch (err) {
+            if (isCancellation(err)) {
+                // Back to the page preview, so the same pages can be analyzed again.
+                addLog('INFO', 'Analysis cancelled.');
+                return;
+            }
             const errorMessage = err instanceof Error ? err.message : "An unknown error occurred during analysis.";
             setError(errorMessage);
             addLog('ERROR', `Analysis failed: ${errorMessage}`, err);
         } finally {
+            analysisController.current = null;
             setIsLoading(false);
+            setPartialBill(null);
         }
-    }, [capturedImage, settings, addLog]);
+    }, [capturedPages, pagesToAnalyze, settings, addLog, saveBill, findDuplicates, handleProgress]);
 
-    const handleSelectHistory = (id: string) => {
-        const selectedBill = history.find(item => item.id === id);
+    const handleCancelAnalysis = useCallback(() => {
+        addLog('INFO', 'Cancelling analysis...');
+        analysisController.current?.abort();
+    }, [addLog]);
+
+    const resolveDuplicate = async (action: 'replace' | 'keep' | 'cancel') => {
+        if (!pendingDuplicate) return;
+        const { bill, duplicates } = pendingDuplicate;
+        setPendingDuplicate(null);
+        if (action === 'cancel') {
+            addLog('INFO', 'Discarded the new analysis in favour of the saved bill.');
+            setBillData(await history.getBill(duplicates[0].id));
+            return;
+        }
+        if (action === 'replace') {
+            for (const duplicate of duplicates) {
+                await history.deleteBill(duplicate.id);
+            }
+            addLog('INFO', `Replaced ${duplicates.length} saved bill(s) with the new analysis.`);
+        }
+        setBillData(await saveBill(bill) ?? bill);
+    };
+
+    const handleSelectHistory = async (id: string) => {
+        const selectedBill = await history.getBill(id);
         if (selectedBill) {
             setBillData(selectedBill);
-            setCapturedImage(null);
+            setCapturedPages([]);
             setError(null);
+            setView('analyze');
         }
     };
     
-    const handleDeleteHistory = (id: string) => {
-        const newHistory = history.filter(item => item.id !== id);
-        setHistory(newHistory);
+    const editingAccount = history.groups.find(group => group.account.id === editingAccountId);
+
+    const handleDeleteHistory = async (id: string) => {
+        await history.deleteBill(id);
         if (billData?.id === id) {
             setBillData(null);
         }
     };
 
     const resetState = () => {
-        setCapturedImage(null);
+        setCapturedPages([]);
         setBillData(null);
         setError(null);
     };
 
-    const handleBillDataUpdate = (updatedBillData: BillData) => {
+    const handleBillDataUpdate = (editedBillData: BillData) => {
+        // Edits may fix (or introduce) inconsistencies; refresh the warnings but leave the score alone.
+        const updatedBillData = { ...editedBillData, validationWarnings: validateBill(editedBillData) };
         setBillData(updatedBillData);
-        // Also update the history
-        setHistory(prev => prev.map(h => h.id === updatedBillData.id ? updatedBillData : h));
+        // Also update the history; saving re-checks the edited values for anomalies.
+        saveBill(updatedBillData).then(saved => {
+            if (saved) setBillData(current => current?.id === saved.id ? { ...current, anomalies: saved.anomalies } : current);
+        });
         addLog('INFO', 'Bill data updated by user.');
     };
     
@@ -172,33 +237,100 @@ const App: React.FC = () => {
                 settings={settings} 
                 onSave={saveSettings}
                 addLog={addLog}
+                customPrompts={customPrompts}
+                onSaveCustomPrompts={saveCustomPrompts}
             />
             <InfoModal 
                 isOpen={showInfoModal}
                 onClose={() => setShowInfoModal(false)}
             />
+            <BackupModal
+                isOpen={showBackup}
+                onClose={() => setShowBackup(false)}
+                settings={settings}
+                onRestoreSettings={saveSettings}
+                customPrompts={customPrompts}
+                onRestorePrompts={saveCustomPrompts}
+                onImported={history.reload}
+                addLog={addLog}
+            />
+            {pendingDuplicate && (
+                <DuplicateBillModal
+                    bill={pendingDuplicate.bill}
+                    duplicates={pendingDuplicate.duplicates}
+                    onReplace={() => resolveDuplicate('replace')}
+                    onKeepBoth={() => resolveDuplicate('keep')}
+                    onCancel={() => resolveDuplicate('cancel')}
+                />
+            )}
+            {editingAccount && (
+                <AccountEditor
+                    account={editingAccount.account}
+                    otherGroups={history.groups.filter(group => group !== editingAccount)}
+                    onSave={history.updateAccount}
+                    onMerge={sourceIds => history.mergeAccounts(editingAccount.account.id, sourceIds)}
+                    onClose={() => setEditingAccountId(null)}
+                />
+            )}
 
             <div className="flex-grow flex">
                 <aside className={`w-64 h-[calc(100vh-4rem)] sticky top-16 bg-white dark:bg-slate-800/50 border-r border-slate-200 dark:border-slate-800 flex-col no-print transition-all duration-300 ease-in-out md:flex ${isSidebarOpen ? 'md:translate-x-0' : 'md:-translate-x-full'} absolute md:static z-30`}>
-                    <div className="p-4 border-b border-slate-200 dark:border-slate-700">
-                        <h2 className="font-semibold text-slate-800 dark:text-slate-200">History</h2>
+                    <div className="p-4 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between">
+                        <h2 className="font-semibold text-slate-800 dark:text-slate-200">History{history.total > 0 ? ` (${history.total})` : ''}</h2>
+                        <div className="flex items-center space-x-3">
+                            <button onClick={() => setView('trends')} className="text-xs font-medium text-sky-600 dark:text-sky-400 hover:underline" title="Charges and usage over time">
+                                Trends
+                            </button>
+                            <button onClick={() => setShowBackup(true)} className="text-xs font-medium text-sky-600 dark:text-sky-400 hover:underline" title="Export or import your history and settings">
+                                Backup
+                            </button>
+                        </div>
                     </div>
                     <div className="flex-grow overflow-y-auto custom-scrollbar">
-                       <HistoryList history={history} onSelect={handleSelectHistory} onDelete={handleDeleteHistory} activeId={billData?.id || null} />
+                       <HistoryList
+                           groups={history.groups}
+                           isLoading={history.isLoading}
+                           onLoadMore={history.loadMore}
+                           onSelect={handleSelectHistory}
+                           onDelete={handleDeleteHistory}
+                           onEditAccount={setEditingAccountId}
+                           activeId={billData?.id || null}
+                           duplicateIds={history.duplicateIds}
+                       />
                     </div>
                 </aside>
                 
                 <main className="flex-grow p-4 sm:p-6 lg:p-8 relative">
                     <ErrorBoundary>
-                        {isLoading && <Loader logs={logs} />}
+                        {isLoading && (!partialBill || view !== 'analyze') && <Loader logs={logs} progress={progress} onCancel={handleCancelAnalysis} />}
+
+                        {isLoading && partialBill && view === 'analyze' && (
+                            <>
+                                <Loader logs={logs} progress={progress} onCancel={handleCancelAnalysis} compact />
+                                <BillDataDisplay
+                                    billData={{ id: 'partial', analyzedAt: '', lineItems: [], usageCharts: [], ...partialBill } as BillData}
+                                    onUpdate={() => {}}
+                                    onAnalyzeNew={resetState}
+                                    isPartial
+                                />
+                            </>
+                        )}
+
+                        {view === 'batch' && !isLoading && (
+                            <BatchQueue queue={analysisQueue} onSelectBill={handleSelectHistory} onClose={() => setView('analyze')} />
+                        )}
+
+                        {view === 'trends' && !isLoading && (
+                            <TrendDashboard historyRevision={history.revision} onSelectBill={handleSelectHistory} onClose={() => setView('analyze')} />
+                        )}
                         
-                        {error && !isLoading && (
+                        {error && !isLoading && view === 'analyze' && (
                             <div className="max-w-4xl mx-auto">
-                                <ErrorMessage message={error} onRetry={capturedImage ? handleAnalyzeBill : resetState} />
+                                <ErrorMessage message={error} onRetry={capturedPages.length > 0 ? handleAnalyzeBill : resetState} />
                             </div>
                         )}
                         
-                        {!billData && !capturedImage && !isLoading && (
+                        {view === 'analyze' && !billData && capturedPages.length === 0 && !isLoading && (
                            <>
                                 <Welcome />
                                 <div className="max-w-4xl mx-auto mt-8">
@@ -207,27 +339,36 @@ const App: React.FC = () => {
                                         <div className="text-sm text-slate-400 dark:text-slate-500 flex items-center justify-center">OR</div>
                                         <CameraCapture onCapture={handleCameraCapture} disabled={isLoading} />
                                     </div>
+                                    <div className="text-center mt-6">
+                                        <button onClick={() => setView('batch')} className="text-sm font-semibold text-sky-600 dark:text-sky-400 hover:underline">
+                                            Have a stack of bills? Analyze many at once{analysisQueue.items.length > 0 ? ` (${analysisQueue.items.length} in queue)` : ''}
+                                        </button>
+                                    </div>
                                 </div>
                            </>
                         )}
 
 
-                        {billData && !isLoading && <BillDataDisplay billData={billData} onUpdate={handleBillDataUpdate} onAnalyzeNew={resetState} />}
+                        {view === 'analyze' && billData && !isLoading && <BillDataDisplay billData={billData} onUpdate={handleBillDataUpdate} onAnalyzeNew={resetState} />}
 
-                        {capturedImage && !billData && !isLoading && (
+                        {view === 'analyze' && capturedPages.length > 0 && !billData && !isLoading && (
                             <div className="max-w-4xl mx-auto text-center">
-                                <h2 className="text-2xl font-bold mb-4">Image Ready for Analysis</h2>
-                                <p className="text-slate-500 dark:text-slate-400 mb-4">Your image has been loaded. Click the button below to start the AI analysis.</p>
-                                <img src={capturedImage} alt="Captured bill" className="max-w-full max-h-[50vh] mx-auto rounded-lg shadow-lg mb-6" />
+                                <h2 className="text-2xl font-bold mb-4">{capturedPages.length > 1 ? `${capturedPages.length} Pages Ready for Analysis` : 'Image Ready for Analysis'}</h2>
+                                <p className="text-slate-500 dark:text-slate-400 mb-4">
+                                    {capturedPages.length > 1
+                                        ? 'All pages will be analyzed together as a single bill. Click the button below to start the AI analysis.'
+                                        : 'Your image has been loaded. Click the button below to start the AI analysis.'}
+                                </p>
+                                <ImagePreprocessor pages={capturedPages} isPdf={capturedFromPdf} onSelect={setPagesToAnalyze} addLog={addLog} />
                                 <div className="flex justify-center space-x-4">
                                     <button onClick={resetState} className="px-6 py-2 text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md font-semibold hover:bg-slate-50 dark:hover:bg-slate-600">
                                         Cancel
                                     </button>
-                                    <button onClick={handleAnalyzeBill} className="px-6 py-2 text-white bg-sky-600 rounded-md font-semibold hover:bg-sky-700 flex items-center justify-center">
+                                    <button onClick={handleAnalyzeBill} disabled={!pagesToAnalyze} className="px-6 py-2 text-white bg-sky-600 rounded-md font-semibold hover:bg-sky-700 flex items-center justify-center disabled:bg-slate-400 disabled:cursor-not-allowed">
                                          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 mr-2">
                                             <path strokeLinecap="round" strokeLinejoin="round" d="m15.75 15.75-2.489-2.489m0 0a3.375 3.375 0 1 0-4.773-4.773 3.375 3.375 0 0 0 4.773 4.773ZM4.5 19.5l3-3m0 0l2.25-2.25M7.5 16.5l2.25-2.25m0 0l3 3M7.5 16.5l-3 3m0 0l-3-3m3 3V4.5m0 12V6.75" />
                                         </svg>
-                                        Analyze Bill
+                                        {pagesToAnalyze ? 'Analyze Bill' : 'Preparing Image...'}
                                     </button>
                                 </div>
                             </div>
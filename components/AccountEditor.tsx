@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import type { Account, UtilityType } from '../types';
+import type { AccountGroup } from '../hooks/useBillHistory';
+import { UTILITY_TYPES, getAccountLabel } from '../utils/accounts';
+
+interface AccountEditorProps {
+    account: Account;
+    otherGroups: AccountGroup[];
+    onSave: (account: Account) => void;
+    onMerge: (sourceIds: string[]) => void;
+    onClose: () => void;
+}
+
+export const AccountEditor: React.FC<AccountEditorProps> = ({ account, otherGroups, onSave, onMerge, onClose }) => {
+    const [nickname, setNickname] = useState(account.nickname ?? '');
+    const [utilityType, setUtilityType] = useState<UtilityType>(account.utilityType);
+    const [mergeIds, setMergeIds] = useState<string[]>([]);
+
+    const toggleMerge = (id: string) => {
+        setMergeIds(prev => prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]);
+    };
+
+    const handleSave = () => {
+        onSave({ ...account, nickname: nickname.trim() || undefined, utilityType });
+        if (mergeIds.length > 0) onMerge(mergeIds);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-2xl w-full max-w-lg" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+                    <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Edit Account</h2>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">
+                        {account.accountNumber}{account.serviceAddress ? ` · ${account.serviceAddress}` : ''}
+                    </p>
+                </div>
+                <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto custom-scrollbar">
+                    <div>
+                        <label htmlFor="account-nickname" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Nickname</label>
+                        <input
+                            id="account-nickname"
+                            type="text"
+                            value={nickname}
+                            onChange={e => setNickname(e.target.value)}
+                            placeholder={account.accountName || 'e.g. Main Street office'}
+                            className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="account-utility" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Utility</label>
+                        <select
+                            id="account-utility"
+                            value={utilityType}
+                            onChange={e => setUtilityType(e.target.value as UtilityType)}
+                            className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm"
+                        >
+                            {UTILITY_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+                        </select>
+                    </div>
+                    {account.aliases.length > 1 && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">Also matches: {account.aliases.join(', ')}</p>
+                    )}
+                    {otherGroups.length > 0 && (
+                        <div>
+                            <p className="block text-sm font-medium text-slate-700 dark:text-slate-300">Merge into this account</p>
+                            <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">Select accounts that are really this one, e.g. an account number misread by OCR. Their bills move here and their numbers will match this account from now on.</p>
+                            <div className="space-y-1">
+                                {otherGroups.map(group => (
+                                    <label key={group.account.id} className="flex items-center space-x-2 text-sm text-slate-700 dark:text-slate-300">
+                                        <input type="checkbox" checked={mergeIds.includes(group.account.id)} onChange={() => toggleMerge(group.account.id)} className="rounded border-slate-300 text-sky-600 focus:ring-sky-500" />
+                                        <span className="truncate">{getAccountLabel(group.account)} · {group.account.accountNumber} ({group.billCount} bill(s))</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+                <div className="p-4 bg-slate-50 dark:bg-slate-900/50 flex justify-end space-x-3 rounded-b-lg">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600">
+                        Cancel
+                    </button>
+                    <button onClick={handleSave} className="px-4 py-2 text-sm font-medium text-white bg-sky-600 border border-transparent rounded-md shadow-sm hover:bg-sky-700">
+                        {mergeIds.length > 0 ? `Save & Merge ${mergeIds.length}` : 'Save'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,157 @@
+import React, { useState, useRef } from 'react';
+import type { AiSettings, CustomPrompt, LogEntry } from '../types';
+import { createBackup, downloadBackup, parseBackup, restoreBackup, restoreCustomPrompts, type BackupFile, type ImportMode } from '../services/backup';
+
+type AddLogFn = (level: LogEntry['level'], message: string, payload?: any) => void;
+
+interface BackupModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    settings: AiSettings;
+    onRestoreSettings: (settings: AiSettings) => void;
+    customPrompts: CustomPrompt[];
+    onRestorePrompts: (prompts: CustomPrompt[]) => void;
+    onImported: () => void;
+    addLog: AddLogFn;
+}
+
+export const BackupModal: React.FC<BackupModalProps> = ({ isOpen, onClose, settings, onRestoreSettings, customPrompts, onRestorePrompts, onImported, addLog }) => {
+    const [includeImages, setIncludeImages] = useState(true);
+    const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null);
+    const [importMode, setImportMode] = useState<ImportMode>('merge');
+    const [isBusy, setIsBusy] = useState(false);
+    const [status, setStatus] = useState<{ ok: boolean; message: string } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    if (!isOpen) return null;
+
+    const handleClose = () => {
+        setPendingBackup(null);
+        setStatus(null);
+        onClose();
+    };
+
+    const handleExport = async () => {
+        setIsBusy(true);
+        setStatus(null);
+        try {
+            const backup = await createBackup(settings, customPrompts, includeImages);
+            downloadBackup(backup);
+            addLog('INFO', `Exported backup with ${backup.bills.length} bill(s)${includeImages ? ' and their images' : ''}.`);
+            setStatus({ ok: true, message: `Exported ${backup.bills.length} bill(s).` });
+        } catch (error) {
+            addLog('ERROR', 'Backup export failed.', error);
+            setStatus({ ok: false, message: error instanceof Error ? error.message : 'The backup could not be created.' });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setStatus(null);
+        try {
+            const backup = await parseBackup(file);
+            setPendingBackup(backup);
+            addLog('INFO', `Read backup "${file.name}" with ${backup.bills.length} bill(s).`);
+        } catch (error) {
+            addLog('ERROR', 'Could not read backup file.', error);
+            setStatus({ ok: false, message: error instanceof Error ? error.message : 'The backup file could not be read.' });
+        }
+    };
+
+    const handleImport = async () => {
+        if (!pendingBackup) return;
+        setIsBusy(true);
+        try {
+            const summary = await restoreBackup(pendingBackup, importMode);
+            if (summary.settingsRestored) onRestoreSettings(pendingBackup.settings);
+            const prompts = restoreCustomPrompts(pendingBackup, importMode, customPrompts);
+            const promptsRestored = prompts.filter(prompt => !customPrompts.includes(prompt)).length;
+            if (prompts !== customPrompts) onRestorePrompts(prompts);
+            onImported();
+            addLog('INFO', `Imported backup (${importMode}).`, { ...summary, promptsRestored });
+            setStatus({
+                ok: true,
+                message: `Imported ${summary.imported} bill(s)${promptsRestored > 0 ? ` and ${promptsRestored} custom prompt(s)` : ''}${summary.skipped > 0 ? `, skipped ${summary.skipped} already in history` : ''}${summary.settingsRestored ? ' and restored settings' : ''}.`,
+            });
+            setPendingBackup(null);
+        } catch (error) {
+            addLog('ERROR', 'Backup import failed.', error);
+            setStatus({ ok: false, message: error instanceof Error ? error.message : 'The backup could not be imported.' });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={handleClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-2xl w-full max-w-lg" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center">
+                    <div>
+                        <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Backup & Restore</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">Move your history and settings between browsers.</p>
+                    </div>
+                    <button onClick={handleClose} className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6 text-slate-500 dark:text-slate-400">
+                           <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+                <div className="p-6 space-y-6">
+                    <section>
+                        <h3 className="text-md font-semibold text-slate-800 dark:text-slate-200 mb-2">Export</h3>
+                        <p className="text-sm text-slate-600 dark:text-slate-400 mb-3">Saves every bill (including the raw AI responses), your custom prompts and your AI settings, including any API keys you entered, to a single JSON file.</p>
+                        <label className="flex items-center space-x-2 text-sm text-slate-700 dark:text-slate-300 mb-3">
+                            <input type="checkbox" checked={includeImages} onChange={e => setIncludeImages(e.target.checked)} className="rounded border-slate-300 text-sky-600 focus:ring-sky-500" />
+                            <span>Include bill images (much larger file)</span>
+                        </label>
+                        <button onClick={handleExport} disabled={isBusy} className="px-4 py-2 text-sm font-medium text-white bg-sky-600 border border-transparent rounded-md shadow-sm hover:bg-sky-700 disabled:opacity-50">
+                            Export Backup
+                        </button>
+                    </section>
+
+                    <section>
+                        <h3 className="text-md font-semibold text-slate-800 dark:text-slate-200 mb-2">Import</h3>
+                        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChosen} className="hidden" />
+                        {!pendingBackup ? (
+                            <button onClick={() => fileInputRef.current?.click()} disabled={isBusy} className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600 disabled:opacity-50">
+                                Choose Backup File...
+                            </button>
+                        ) : (
+                            <div className="space-y-3">
+                                <p className="text-sm text-slate-600 dark:text-slate-400">
+                                    Backup from {new Date(pendingBackup.exportedAt).toLocaleString()} with {pendingBackup.bills.length} bill(s){pendingBackup.includesImages ? ' and images' : ''}.
+                                </p>
+                                <div className="space-y-2 text-sm text-slate-700 dark:text-slate-300">
+                                    <label className="flex items-start space-x-2">
+                                        <input type="radio" name="importMode" checked={importMode === 'merge'} onChange={() => setImportMode('merge')} className="mt-1 text-sky-600 focus:ring-sky-500" />
+                                        <span><strong>Merge</strong>: add bills and custom prompts that are not already here. Your settings are kept.</span>
+                                    </label>
+                                    <label className="flex items-start space-x-2">
+                                        <input type="radio" name="importMode" checked={importMode === 'replace'} onChange={() => setImportMode('replace')} className="mt-1 text-sky-600 focus:ring-sky-500" />
+                                        <span><strong>Replace</strong>: delete your current history, settings and custom prompts and use the backup instead.</span>
+                                    </label>
+                                </div>
+                                <div className="flex space-x-3">
+                                    <button onClick={handleImport} disabled={isBusy} className={`px-4 py-2 text-sm font-medium text-white border border-transparent rounded-md shadow-sm disabled:opacity-50 ${importMode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-sky-600 hover:bg-sky-700'}`}>
+                                        {importMode === 'replace' ? 'Replace History' : 'Merge Into History'}
+                                    </button>
+                                    <button onClick={() => setPendingBackup(null)} disabled={isBusy} className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 hover:underline">
+                                        Cancel
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </section>
+
+                    {status && (
+                        <p className={`text-sm ${status.ok ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>{status.message}</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
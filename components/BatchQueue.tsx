@@ -0,0 +1,179 @@
+import React, { useState, useCallback } from 'react';
+import type { QueueItem, QueueItemStatus } from '../types';
+import type { AnalysisQueue } from '../hooks/useAnalysisQueue';
+import { MAX_QUEUE_CONCURRENCY } from '../hooks/useAnalysisQueue';
+import { isSupportedBillFile } from '../utils/files';
+
+interface BatchQueueProps {
+    queue: AnalysisQueue;
+    onSelectBill: (billId: string) => void;
+    onClose: () => void;
+}
+
+// Drag-and-dropped folders arrive as directory entries rather than files, so walk them recursively.
+const readEntry = (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        return new Promise(resolve => (entry as FileSystemFileEntry).file(file => resolve([file]), () => resolve([])));
+    }
+    if (entry.isDirectory) {
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        return new Promise(resolve => {
+            const entries: FileSystemEntry[] = [];
+            // readEntries returns results in chunks; keep reading until it returns an empty batch.
+            const readBatch = () => reader.readEntries(async batch => {
+                if (batch.length === 0) {
+                    const nested = await Promise.all(entries.map(readEntry));
+                    resolve(nested.flat());
+                } else {
+                    entries.push(...batch);
+                    readBatch();
+                }
+            }, () => resolve([]));
+            readBatch();
+        });
+    }
+    return Promise.resolve([]);
+};
+
+const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+    if (entries.length === 0) return Array.from(dataTransfer.files);
+    const files = await Promise.all(entries.map(readEntry));
+    return files.flat();
+};
+
+const statusStyles: Record<QueueItemStatus, string> = {
+    pending: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+    running: 'bg-sky-100 text-sky-700 dark:bg-sky-900/50 dark:text-sky-300',
+    done: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300',
+    failed: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300',
+    cancelled: 'bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300',
+};
+
+const QueueRow: React.FC<{ item: QueueItem; queue: AnalysisQueue; onSelectBill: (billId: string) => void }> = ({ item, queue, onSelectBill }) => (
+    <li className="flex items-center justify-between gap-4 p-3">
+        <div className="min-w-0">
+            <p className="font-medium truncate text-slate-800 dark:text-slate-200">{item.fileName}</p>
+            {item.error && <p className="text-xs text-red-600 dark:text-red-400 mt-1 break-words">{item.error}</p>}
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+            <span className={`text-xs font-semibold uppercase px-2 py-1 rounded-md ${statusStyles[item.status]}`}>
+                {item.status === 'running' ? 'Running…' : item.status}
+            </span>
+            {item.status === 'done' && item.billId && (
+                <button onClick={() => onSelectBill(item.billId!)} className="text-sm text-sky-600 dark:text-sky-400 hover:underline">View</button>
+            )}
+            {(item.status === 'failed' || item.status === 'cancelled') && (
+                <button onClick={() => queue.retry(item.id)} className="text-sm text-sky-600 dark:text-sky-400 hover:underline">Retry</button>
+            )}
+            {(item.status === 'pending' || item.status === 'running') && (
+                <button onClick={() => queue.cancel(item.id)} className="text-sm text-red-600 dark:text-red-400 hover:underline">Cancel</button>
+            )}
+        </div>
+    </li>
+);
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ queue, onSelectBill, onClose }) => {
+    const [isDragging, setIsDragging] = useState(false);
+    const [skippedCount, setSkippedCount] = useState(0);
+
+    const enqueue = useCallback((files: File[]) => {
+        const supported = files.filter(isSupportedBillFile);
+        setSkippedCount(files.length - supported.length);
+        queue.addFiles(supported);
+    }, [queue]);
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        if (event.target.files) {
+            enqueue(Array.from(event.target.files));
+        }
+        event.target.value = '';
+    };
+
+    const handleDrop = useCallback(async (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(false);
+        enqueue(await collectDroppedFiles(e.dataTransfer));
+    }, [enqueue]);
+
+    const counts = queue.items.reduce((acc, item) => {
+        acc[item.status] += 1;
+        return acc;
+    }, { pending: 0, running: 0, done: 0, failed: 0, cancelled: 0 } as Record<QueueItemStatus, number>);
+    const hasActive = counts.pending + counts.running > 0;
+    const hasFinished = queue.items.length > counts.pending + counts.running;
+
+    return (
+        <div className="max-w-4xl mx-auto">
+            <div className="flex flex-wrap gap-4 justify-between items-start mb-6">
+                <div>
+                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Batch Analysis</h2>
+                    <p className="text-slate-500 dark:text-slate-400">Drop a folder of bills to analyze them in the background. Every success is saved to history.</p>
+                </div>
+                <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600">
+                    Back
+                </button>
+            </div>
+
+            <div
+                onDragEnter={e => { e.preventDefault(); setIsDragging(true); }}
+                onDragOver={e => e.preventDefault()}
+                onDragLeave={e => { e.preventDefault(); setIsDragging(false); }}
+                onDrop={handleDrop}
+                className={`flex flex-col items-center justify-center p-8 rounded-xl border-2 border-dashed transition-colors ${isDragging ? 'border-sky-500 bg-sky-100 dark:bg-sky-900/50' : 'border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800/50'}`}
+            >
+                <p className="text-base text-slate-500 dark:text-slate-400">Drag and drop bills or a folder here</p>
+                <div className="flex gap-3 mt-4">
+                    <label className="px-4 py-2 text-sm font-medium text-white bg-sky-600 rounded-md shadow-sm hover:bg-sky-700 cursor-pointer">
+                        Select files
+                        <input type="file" className="hidden" multiple accept="image/png, image/jpeg, image/webp, application/pdf" onChange={handleFileChange} />
+                    </label>
+                    <label className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600 cursor-pointer">
+                        Select folder
+                        <input type="file" className="hidden" multiple onChange={handleFileChange} {...{ webkitdirectory: '' }} />
+                    </label>
+                </div>
+                <p className="text-sm text-slate-400 dark:text-slate-500 mt-2">PNG, JPG, WEBP, PDF</p>
+                {skippedCount > 0 && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 mt-2">Skipped {skippedCount} unsupported file(s).</p>
+                )}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-4 mt-6 mb-2">
+                <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                    <label htmlFor="batchConcurrency">Parallel analyses</label>
+                    <select
+                        id="batchConcurrency"
+                        value={queue.concurrency}
+                        onChange={e => queue.setConcurrency(Number(e.target.value))}
+                        className="px-2 py-1 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md"
+                    >
+                        {Array.from({ length: MAX_QUEUE_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                            <option key={n} value={n}>{n}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex items-center gap-3 text-sm">
+                    <span className="text-slate-500 dark:text-slate-400">
+                        {counts.done} done · {counts.failed} failed · {counts.running} running · {counts.pending} pending
+                    </span>
+                    <button onClick={queue.cancelAll} disabled={!hasActive} className="text-red-600 dark:text-red-400 hover:underline disabled:opacity-50 disabled:no-underline">Cancel all</button>
+                    <button onClick={queue.clearFinished} disabled={!hasFinished} className="text-sky-600 dark:text-sky-400 hover:underline disabled:opacity-50 disabled:no-underline">Clear finished</button>
+                </div>
+            </div>
+
+            {queue.items.length === 0 ? (
+                <div className="p-4 text-center text-sm text-slate-400">The queue is empty.</div>
+            ) : (
+                <ul className="bg-white dark:bg-slate-800 rounded-lg shadow-md border border-slate-200 dark:border-slate-700 divide-y divide-slate-200 dark:divide-slate-700">
+                    {queue.items.map(item => (
+                        <QueueRow key={item.id} item={item} queue={queue} onSelectBill={onSelectBill} />
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
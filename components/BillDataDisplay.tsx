@@ -1,19 +1,76 @@
 import React, { useState } from 'react';
-import type { BillData } from '../types';
+import type { AgreementLevel, Anomaly, BillData, EnsembleSummary, FieldAgreement, FieldSource, ValidationWarning } from '../types';
 import { exportLineItemsToCsv, exportUsageDataToCsv } from '../utils/csv';
 import { UsageChart } from './UsageChart';
 import { EditableUsageTable } from './EditableUsageTable';
+import { SourceImageViewer } from './SourceImageViewer';
 
 interface BillDataDisplayProps {
     billData: BillData;
     onUpdate: (updatedBillData: BillData) => void;
     onAnalyzeNew: () => void;
+    // The model is still writing the bill: fields may be missing, and nothing can be edited or exported yet.
+    isPartial?: boolean;
 }
 
-const InfoField: React.FC<{ label: string; value?: string }> = ({ label, value }) => (
-    <div>
-        <p className="text-sm font-medium text-slate-500 dark:text-slate-400">{label}</p>
-        <p className="text-slate-900 dark:text-white">{value || 'N/A'}</p>
+// Hover handlers for a value that can be highlighted on the source image.
+interface SourceHoverProps {
+    onMouseEnter?: () => void;
+    onMouseLeave?: () => void;
+    className?: string;
+}
+
+const PENDING_VALUE = <span className="text-slate-400 dark:text-slate-500 animate-pulse">…</span>;
+
+const AGREEMENT_STYLES: Record<AgreementLevel, string> = {
+    unanimous: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+    majority: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+    split: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+    single: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+};
+
+// How many ensemble runs agreed on a value; the tooltip lists what the others said.
+const AgreementBadge: React.FC<{ agreement?: FieldAgreement }> = ({ agreement }) => {
+    if (!agreement) return null;
+    const title = agreement.alternatives
+        ? agreement.alternatives.map(a => `${a.value}: ${a.members.join(', ')}`).join('\n')
+        : agreement.level === 'single' ? 'Found by one run only' : 'All runs that found this field agree';
+    return (
+        <span title={title} className={`ml-2 inline-block align-middle px-1.5 py-0.5 rounded text-xs font-medium ${AGREEMENT_STYLES[agreement.level]}`}>
+            {agreement.agreeing}/{agreement.total}
+        </span>
+    );
+};
+
+const EnsemblePanel: React.FC<{ ensemble: EnsembleSummary }> = ({ ensemble }) => {
+    const counts = Object.values(ensemble.agreement).reduce<Record<AgreementLevel, number>>(
+        (totals, agreement) => ({ ...totals, [agreement.level]: totals[agreement.level] + 1 }),
+        { unanimous: 0, majority: 0, split: 0, single: 0 },
+    );
+    const prompts = ensemble.members
+        .filter(member => ensemble.promptVersions?.[member])
+        .map(member => `${member}: ${ensemble.promptVersions![member].label} (v${ensemble.promptVersions![member].version})`);
+    return (
+        <div className="mb-6 p-4 bg-sky-50 dark:bg-sky-900/20 border-l-4 border-sky-400 rounded-r-lg">
+            <h3 className="text-sm font-medium text-sky-800 dark:text-sky-200">Merged from {ensemble.members.length} Extraction Runs</h3>
+            <p className="mt-1 text-sm text-sky-700 dark:text-sky-300">{ensemble.members.join(' · ')}</p>
+            {prompts.length > 0 && (
+                <p className="mt-1 text-xs text-sky-700 dark:text-sky-300">Prompts: {prompts.join(' · ')}</p>
+            )}
+            <p className="mt-2 text-sm text-slate-700 dark:text-slate-200">
+                {counts.unanimous} unanimous, {counts.majority} by majority, {counts.split} split, {counts.single} found by one run. The badges show how many runs agreed on each value.
+            </p>
+            {ensemble.failedMembers && ensemble.failedMembers.length > 0 && (
+                <p className="mt-1 text-sm text-red-700 dark:text-red-300">Failed and left out: {ensemble.failedMembers.join(', ')}.</p>
+            )}
+        </div>
+    );
+};
+
+const InfoField: React.FC<{ label: string; value?: string; sourceProps?: SourceHoverProps; isPending?: boolean; agreement?: FieldAgreement }> = ({ label, value, sourceProps, isPending, agreement }) => (
+    <div onMouseEnter={sourceProps?.onMouseEnter} onMouseLeave={sourceProps?.onMouseLeave}>
+        <p className="text-sm font-medium text-slate-500 dark:text-slate-400">{label}<AgreementBadge agreement={agreement} /></p>
+        <p className={`text-slate-900 dark:text-white ${sourceProps?.className ?? ''}`}>{value || (isPending ? PENDING_VALUE : 'N/A')}</p>
     </div>
 );
 
@@ -35,11 +92,74 @@ const ConfidenceMeter: React.FC<{ score: number }> = ({ score }) => {
     );
 };
 
-export const BillDataDisplay: React.FC<BillDataDisplayProps> = ({ billData, onUpdate, onAnalyzeNew }) => {
+const ValidationWarningList: React.FC<{ warnings: ValidationWarning[]; sourceProps: (field: string) => SourceHoverProps | undefined }> = ({ warnings, sourceProps }) => (
+    <div>
+        <h3 className="text-sm font-semibold mb-1 text-slate-700 dark:text-slate-200">Consistency Checks</h3>
+        <ul className="space-y-1">
+            {warnings.map((warning, index) => {
+                const hover = warning.field ? sourceProps(warning.field) : undefined;
+                const isError = warning.severity === 'error';
+                return (
+                    <li
+                        key={`${warning.code}-${index}`}
+                        onMouseEnter={hover?.onMouseEnter}
+                        onMouseLeave={hover?.onMouseLeave}
+                        className={`text-sm rounded px-2 py-1 ${isError ? 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300' : 'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300'} ${hover?.className ?? ''}`}
+                    >
+                        <span className="font-semibold">{isError ? 'Error' : 'Warning'}:</span> {warning.message}
+                    </li>
+                );
+            })}
+        </ul>
+    </div>
+);
+
+const AnomalyPanel: React.FC<{ anomalies: Anomaly[] }> = ({ anomalies }) => {
+    const isAlert = anomalies.some(anomaly => anomaly.severity === 'alert');
+    return (
+        <div className={`mb-6 p-4 border-l-4 rounded-r-lg ${isAlert ? 'bg-red-50 dark:bg-red-900/20 border-red-400' : 'bg-amber-50 dark:bg-amber-900/20 border-amber-400'}`}>
+            <h3 className={`text-sm font-medium ${isAlert ? 'text-red-800 dark:text-red-200' : 'text-amber-800 dark:text-amber-200'}`}>Unusual Compared to Your History</h3>
+            <p className={`mt-1 text-sm ${isAlert ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'}`}>
+                These values differ strongly from earlier bills for this account. Sudden jumps or a steady rise in usage can mean a leak or a faulty meter.
+            </p>
+            <ul className="mt-2 space-y-1">
+                {anomalies.map((anomaly, index) => (
+                    <li key={`${anomaly.code}-${anomaly.unit ?? ''}-${index}`} className="text-sm text-slate-700 dark:text-slate-200">
+                        <span className={`font-semibold ${anomaly.severity === 'alert' ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'}`}>
+                            {anomaly.severity === 'alert' ? 'Alert' : 'Warning'}:
+                        </span> {anomaly.message}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export const BillDataDisplay: React.FC<BillDataDisplayProps> = ({ billData, onUpdate, onAnalyzeNew, isPartial = false }) => {
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
     const [submitMessage, setSubmitMessage] = useState('');
+    const [highlight, setHighlight] = useState<FieldSource | null>(null);
+
+    const hasSourceImages = !!billData.sourceImages && billData.sourceImages.length > 0;
+
+    const sourceProps = (...fieldKeys: string[]): SourceHoverProps | undefined => {
+        const source = fieldKeys.map(key => billData.fieldSources?.[key]).find(Boolean);
+        if (!hasSourceImages || !source) return undefined;
+        return {
+            onMouseEnter: () => setHighlight(source),
+            onMouseLeave: () => setHighlight(null),
+            className: 'cursor-help underline decoration-dotted decoration-sky-400 underline-offset-4',
+        };
+    };
     
+    const agreementOf = (path: string): FieldAgreement | undefined => billData.ensemble?.agreement[path];
+    // For values shown together, the least agreed of their parts.
+    const weakestAgreement = (...paths: string[]): FieldAgreement | undefined => paths
+        .map(agreementOf)
+        .filter((a): a is FieldAgreement => !!a)
+        .sort((a, b) => a.agreeing / a.total - b.agreeing / b.total)[0];
+
     const handleTableUpdate = (chartIndex: number, updatedChartData: BillData['usageCharts'][0]) => {
         const newBillData = JSON.parse(JSON.stringify(billData));
         newBillData.usageCharts[chartIndex] = updatedChartData;
@@ -58,6 +178,8 @@ export const BillDataDisplay: React.FC<BillDataDisplayProps> = ({ billData, onUp
         setSubmitStatus('idle');
 
         try {
+            // Source images are too large for a form submission; send the extracted data only.
+            const { sourceImages, fieldSources, ...submittedData } = billData;
             const response = await fetch(`https://formspree.io/f/${formspreeId}`, {
                 method: 'POST',
                 headers: {
@@ -65,7 +187,7 @@ export const BillDataDisplay: React.FC<BillDataDisplayProps> = ({ billData, onUp
                     'Accept': 'application/json',
                 },
                 body: JSON.stringify({
-                    ...billData,
+                    ...submittedData,
                     subject: `Bill Analysis Submission - Acct: ${billData.accountNumber}`,
                 }),
             });
@@ -112,10 +234,17 @@ export const BillDataDisplay: React.FC<BillDataDisplayProps> = ({ billData, onUp
         <div className="print-container print-force-light">
             <div className="flex flex-wrap gap-4 justify-between items-start mb-6">
                 <div>
-                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Bill Analysis Results</h2>
-                    <p className="text-slate-500 dark:text-slate-400">Analyzed on: {new Date(billData.analyzedAt).toLocaleString()}</p>
+                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{isPartial ? 'Reading Your Bill...' : 'Bill Analysis Results'}</h2>
+                    <p className="text-slate-500 dark:text-slate-400">
+                        {isPartial ? 'Fields appear as the model finishes writing them.' : `Analyzed on: ${new Date(billData.analyzedAt).toLocaleString()}`}
+                    </p>
+                    {!isPartial && billData.promptVersion && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            Prompt: {billData.promptVersion.label} (v{billData.promptVersion.version})
+                        </p>
+                    )}
                 </div>
-                <div className="no-print flex items-center gap-2">
+                {!isPartial && <div className="no-print flex items-center gap-2">
                      <button onClick={onAnalyzeNew} className="flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-slate-600 border border-transparent rounded-md shadow-sm hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500">
                          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 mr-2">
                             <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 0 0-3.375-3.375h-1.5A1.125 1.125 0 0 1 13.5 7.125v-1.5a3.375 3.375 0 0 0-3.375-3.375H8.25m3.75 9v6m3-3H9m1.5-12H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 0 0-9-9Z" />
@@ -130,7 +259,7 @@ export const BillDataDisplay: React.FC<BillDataDisplayProps> = ({ billData, onUp
                             <path strokeLinecap="round" strokeLinejoin="round" d="M6.72 13.829c-.24.03-.48.062-.72.096m.72-.096a42.415 42.415 0 0 1 10.56 0m-10.56 0L6.34 18m10.94-4.171c.24.03.48.062.72.096m-.72-.096L17.66 18m0 0 .229 2.523a1.125 1.125 0 0 1-1.12 1.227H7.231c-.662 0-1.18-.568-1.12-1.227L6.34 18m11.32 0c.041-.02.083-.041.124-.061M6.34 18c-.041-.02-.083-.041-.124-.061M15 12a3 3 0 1 1-6 0 3 3 0 0 1 6 0Z" />
                         </svg>
                     </button>
-                </div>
+                </div>}
                  {submitStatus !== 'idle' && (
                     <p className={`w-full text-sm mt-2 text-center ${submitStatus === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
                         {submitMessage}
@@ -154,104 +283,130 @@ export const BillDataDisplay: React.FC<BillDataDisplayProps> = ({ billData, onUp
                 </div>
             )}
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
-                {/* Account Details */}
-                <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md border border-slate-200 dark:border-slate-700">
-                    <h3 className="text-lg font-semibold mb-4 border-b pb-2 border-slate-200 dark:border-slate-700">Account Details</h3>
-                    <div className="grid grid-cols-2 gap-4">
-                        <InfoField label="Account Name" value={billData.accountName} />
-                        <InfoField label="Account Number" value={billData.accountNumber} />
-                        <InfoField label="Statement Date" value={billData.statementDate} />
-                        <InfoField label="Due Date" value={billData.dueDate} />
-                        <InfoField label="Service Period" value={billData.servicePeriodStart && billData.servicePeriodEnd ? `${billData.servicePeriodStart} - ${billData.servicePeriodEnd}` : 'N/A'} />
-                        <div className="col-span-2">
-                             <InfoField label="Service Address" value={billData.serviceAddress} />
+            {billData.anomalies && billData.anomalies.length > 0 && <AnomalyPanel anomalies={billData.anomalies} />}
+
+            {billData.ensemble && <EnsemblePanel ensemble={billData.ensemble} />}
+
+            <div className={hasSourceImages ? 'lg:grid lg:grid-cols-[minmax(0,1fr)_minmax(0,26rem)] lg:gap-6 items-start' : ''}>
+                <div className="min-w-0">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+                        {/* Account Details */}
+                        <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md border border-slate-200 dark:border-slate-700">
+                            <h3 className="text-lg font-semibold mb-4 border-b pb-2 border-slate-200 dark:border-slate-700">Account Details</h3>
+                            <div className="grid grid-cols-2 gap-4">
+                                <InfoField label="Account Name" value={billData.accountName} sourceProps={sourceProps('accountName')} isPending={isPartial} agreement={agreementOf('accountName')} />
+                                <InfoField label="Account Number" value={billData.accountNumber} sourceProps={sourceProps('accountNumber')} isPending={isPartial} agreement={agreementOf('accountNumber')} />
+                                <InfoField label="Statement Date" value={billData.statementDate} sourceProps={sourceProps('statementDate')} isPending={isPartial} agreement={agreementOf('statementDate')} />
+                                <InfoField label="Due Date" value={billData.dueDate} sourceProps={sourceProps('dueDate')} isPending={isPartial} agreement={agreementOf('dueDate')} />
+                                <InfoField label="Service Period" value={billData.servicePeriodStart && billData.servicePeriodEnd ? `${billData.servicePeriodStart} - ${billData.servicePeriodEnd}` : undefined} sourceProps={sourceProps('servicePeriodStart', 'servicePeriodEnd')} isPending={isPartial} agreement={weakestAgreement('servicePeriodStart', 'servicePeriodEnd')} />
+                                <div className="col-span-2">
+                                     <InfoField label="Service Address" value={billData.serviceAddress} sourceProps={sourceProps('serviceAddress')} isPending={isPartial} agreement={agreementOf('serviceAddress')} />
+                                </div>
+                            </div>
+                        </div>
+                        {/* Confidence & Totals */}
+                        <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md border border-slate-200 dark:border-slate-700 space-y-4">
+                            <div onMouseEnter={sourceProps('totalCurrentCharges')?.onMouseEnter} onMouseLeave={sourceProps('totalCurrentCharges')?.onMouseLeave}>
+                                <h3 className="text-lg font-semibold">Total Current Charges<AgreementBadge agreement={agreementOf('totalCurrentCharges')} /></h3>
+                                <p className={`text-3xl font-bold text-sky-600 dark:text-sky-400 ${sourceProps('totalCurrentCharges')?.className ?? ''}`}>
+                                    {billData.totalCurrentCharges === undefined ? PENDING_VALUE : `$${billData.totalCurrentCharges.toFixed(2)}`}
+                                </p>
+                            </div>
+                            {billData.confidenceScore !== undefined && <div>
+                                <h3 className="text-lg font-semibold mb-2">AI Confidence</h3>
+                                <div className="flex items-center space-x-4">
+                                   <span className="text-xl font-bold">{(billData.confidenceScore * 100).toFixed(0)}%</span>
+                                   <ConfidenceMeter score={billData.confidenceScore} />
+                                </div>
+                                <p className="text-sm text-slate-500 dark:text-slate-400 mt-2 italic">
+                                    <strong>AI Reasoning:</strong> {billData.confidenceReasoning ?? PENDING_VALUE}
+                                </p>
+                            </div>}
+                            {billData.validationWarnings && billData.validationWarnings.length > 0 && (
+                                <ValidationWarningList warnings={billData.validationWarnings} sourceProps={field => sourceProps(field)} />
+                            )}
                         </div>
                     </div>
-                </div>
-                {/* Confidence & Totals */}
-                <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md border border-slate-200 dark:border-slate-700 space-y-4">
-                    <div>
-                        <h3 className="text-lg font-semibold">Total Current Charges</h3>
-                        <p className="text-3xl font-bold text-sky-600 dark:text-sky-400">
-                            ${billData.totalCurrentCharges.toFixed(2)}
-                        </p>
-                    </div>
-                     <div>
-                        <h3 className="text-lg font-semibold mb-2">AI Confidence</h3>
-                        <div className="flex items-center space-x-4">
-                           <span className="text-xl font-bold">{(billData.confidenceScore * 100).toFixed(0)}%</span>
-                           <ConfidenceMeter score={billData.confidenceScore} />
+
+                    {/* Line Items */}
+                    <div className="mb-8">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-xl font-semibold">Line Items</h3>
+                            {!isPartial && <button onClick={() => exportLineItemsToCsv(billData)} className="no-print text-sm flex items-center space-x-1 text-sky-600 dark:text-sky-400 hover:underline">
+                                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                                  <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" />
+                                </svg>
+                                <span>Export CSV</span>
+                            </button>}
+                        </div>
+                        <div className="bg-white dark:bg-slate-800 rounded-lg shadow-md border border-slate-200 dark:border-slate-700 overflow-hidden">
+                            <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
+                                <thead className="bg-slate-50 dark:bg-slate-700/50">
+                                    <tr>
+                                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Description</th>
+                                        <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Amount</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                    {billData.lineItems.map((item, index) => {
+                                        const descriptionSource = sourceProps(`lineItems.${index}.description`);
+                                        const amountSource = sourceProps(`lineItems.${index}.amount`);
+                                        return (
+                                            <tr key={index}>
+                                                <td onMouseEnter={descriptionSource?.onMouseEnter} onMouseLeave={descriptionSource?.onMouseLeave} className={`px-6 py-4 whitespace-nowrap text-sm text-slate-800 dark:text-slate-200 ${descriptionSource?.className ?? ''}`}>{item.description}</td>
+                                                <td onMouseEnter={amountSource?.onMouseEnter} onMouseLeave={amountSource?.onMouseLeave} className={`px-6 py-4 whitespace-nowrap text-sm text-right font-mono ${item.amount < 0 ? 'text-green-600 dark:text-green-400' : 'text-slate-800 dark:text-slate-200'} ${amountSource?.className ?? ''}`}>
+                                                    {item.amount.toFixed(2)}
+                                                    <AgreementBadge agreement={agreementOf(`lineItems.${index}.amount`)} />
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                    {isPartial && billData.lineItems.length === 0 && (
+                                        <tr>
+                                            <td colSpan={2} className="px-6 py-4 text-sm text-center text-slate-400 dark:text-slate-500 animate-pulse">Waiting for line items…</td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
                         </div>
-                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-2 italic">
-                            <strong>AI Reasoning:</strong> {billData.confidenceReasoning}
-                        </p>
                     </div>
-                </div>
-            </div>
 
-            {/* Line Items */}
-            <div className="mb-8">
-                <div className="flex justify-between items-center mb-4">
-                    <h3 className="text-xl font-semibold">Line Items</h3>
-                    <button onClick={() => exportLineItemsToCsv(billData)} className="no-print text-sm flex items-center space-x-1 text-sky-600 dark:text-sky-400 hover:underline">
-                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" />
-                        </svg>
-                        <span>Export CSV</span>
-                    </button>
-                </div>
-                <div className="bg-white dark:bg-slate-800 rounded-lg shadow-md border border-slate-200 dark:border-slate-700 overflow-hidden">
-                    <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
-                        <thead className="bg-slate-50 dark:bg-slate-700/50">
-                            <tr>
-                                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Description</th>
-                                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Amount</th>
-                            </tr>
-                        </thead>
-                        <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
-                            {billData.lineItems.map((item, index) => (
-                                <tr key={index}>
-                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-800 dark:text-slate-200">{item.description}</td>
-                                    <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-mono ${item.amount < 0 ? 'text-green-600 dark:text-green-400' : 'text-slate-800 dark:text-slate-200'}`}>
-                                        {item.amount.toFixed(2)}
-                                    </td>
-                                </tr>
-                            ))}
-                        </tbody>
-                    </table>
+                    {/* Usage Charts */}
+                    {billData.usageCharts.map((chart, index) => (
+                         <div key={index} className="mb-8 p-6 bg-white dark:bg-slate-800 rounded-lg shadow-md border border-slate-200 dark:border-slate-700">
+                            <div className="flex justify-between items-center mb-4">
+                                 <h3 className="text-xl font-semibold">{chart.title}</h3>
+                                 {!isPartial && <button onClick={() => exportUsageDataToCsv(chart)} className="no-print text-sm flex items-center space-x-1 text-sky-600 dark:text-sky-400 hover:underline">
+                                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                                       <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" />
+                                    </svg>
+                                    <span>Export CSV</span>
+                                </button>}
+                            </div>
+                             <UsageChart 
+                                chartData={chart}
+                                chartIndex={index}
+                                verificationQuestions={billData.verificationQuestions}
+                             />
+                             {!isPartial && <div className="mt-6">
+                                <h4 className="text-md font-semibold mb-2">Edit Usage Data</h4>
+                                <EditableUsageTable 
+                                    chartData={chart}
+                                    chartIndex={index}
+                                    onUpdate={(updatedData) => handleTableUpdate(index, updatedData)}
+                                    verificationQuestions={billData.verificationQuestions}
+                                />
+                             </div>}
+                         </div>
+                    ))}
                 </div>
+                {hasSourceImages && (
+                    <aside className="no-print hidden lg:block sticky top-20">
+                        <SourceImageViewer images={billData.sourceImages!} highlight={highlight} />
+                    </aside>
+                )}
             </div>
 
-            {/* Usage Charts */}
-            {billData.usageCharts.map((chart, index) => (
-                 <div key={index} className="mb-8 p-6 bg-white dark:bg-slate-800 rounded-lg shadow-md border border-slate-200 dark:border-slate-700">
-                    <div className="flex justify-between items-center mb-4">
-                         <h3 className="text-xl font-semibold">{chart.title}</h3>
-                         <button onClick={() => exportUsageDataToCsv(chart)} className="no-print text-sm flex items-center space-x-1 text-sky-600 dark:text-sky-400 hover:underline">
-                            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
-                               <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" />
-                            </svg>
-                            <span>Export CSV</span>
-                        </button>
-                    </div>
-                     <UsageChart 
-                        chartData={chart}
-                        chartIndex={index}
-                        verificationQuestions={billData.verificationQuestions}
-                     />
-                     <div className="mt-6">
-                        <h4 className="text-md font-semibold mb-2">Edit Usage Data</h4>
-                        <EditableUsageTable 
-                            chartData={chart}
-                            chartIndex={index}
-                            onUpdate={(updatedData) => handleTableUpdate(index, updatedData)}
-                            verificationQuestions={billData.verificationQuestions}
-                        />
-                     </div>
-                 </div>
-            ))}
-
             {/* Raw Data Viewer */}
             {billData.rawResponse && (
                 <div className="mt-8 no-print">
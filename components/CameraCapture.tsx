@@ -1,26 +1,52 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { analyzeFrame, isSteady, cornerMovement, ISSUE_MESSAGES, ANALYSIS_WIDTH, type FrameQuality } from '../utils/captureQuality';
+import type { Point } from '../utils/imagePreprocessing';
 
 interface CameraCaptureProps {
-    onCapture: (dataUrl: string) => void;
+    /** Called with the captured pages, in the order they were taken. */
+    onCapture: (pages: string[]) => void;
     disabled: boolean;
 }
 
+const CHECK_INTERVAL_MS = 250;
+// Consecutive steady, issue-free checks before the auto-shutter fires (about one second).
+const STEADY_CHECKS = 4;
+// After a capture, the page must move this much (or leave the frame) before the next auto capture,
+// so the same page is not taken twice while the user turns it over.
+const REARM_MOVEMENT = 0.15;
+
 export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, disabled }) => {
     const [isCameraOpen, setIsCameraOpen] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [shots, setShots] = useState<string[]>([]);
+    const [quality, setQuality] = useState<FrameQuality | null>(null);
+    const [frameSize, setFrameSize] = useState({ width: ANALYSIS_WIDTH, height: ANALYSIS_WIDTH });
+    const [steadyCount, setSteadyCount] = useState(0);
+    const [isArmed, setIsArmed] = useState(true);
+    const [autoCapture, setAutoCapture] = useState(true);
+    const [flash, setFlash] = useState(false);
     const videoRef = useRef<HTMLVideoElement>(null);
     const streamRef = useRef<MediaStream | null>(null);
+    // The interval callback reads these rather than state, which it would capture stale.
+    const previousCorners = useRef<Point[] | null>(null);
+    const steadyRef = useRef(0);
+    const armedRef = useRef(true);
+    const capturedCorners = useRef<Point[] | null>(null);
+    const autoCaptureRef = useRef(autoCapture);
+
+    useEffect(() => {
+        autoCaptureRef.current = autoCapture;
+    }, [autoCapture]);
 
     const startCamera = useCallback(async () => {
         if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
             try {
                 const stream = await navigator.mediaDevices.getUserMedia({ 
-                    video: { facingMode: "environment" } 
+                    video: { facingMode: "environment", width: { ideal: 1920 }, height: { ideal: 1080 } } 
                 });
                 streamRef.current = stream;
-                if (videoRef.current) {
-                    videoRef.current.srcObject = stream;
-                }
+                setShots([]);
+                setQuality(null);
                 setIsCameraOpen(true);
                 setError(null);
             } catch (err) {
@@ -41,19 +67,63 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, disable
         setIsCameraOpen(false);
     }, []);
 
-    const takePicture = () => {
-        if (videoRef.current) {
-            const canvas = document.createElement('canvas');
-            canvas.width = videoRef.current.videoWidth;
-            canvas.height = videoRef.current.videoHeight;
-            const context = canvas.getContext('2d');
-            if(context){
-                context.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
-                const dataUrl = canvas.toDataURL('image/jpeg');
-                onCapture(dataUrl);
-            }
-            stopCamera();
+    // The video element only exists once the overlay is open.
+    useEffect(() => {
+        if (isCameraOpen && videoRef.current && streamRef.current) {
+            videoRef.current.srcObject = streamRef.current;
         }
+    }, [isCameraOpen]);
+
+    const takePicture = useCallback(() => {
+        const video = videoRef.current;
+        if (!video || !video.videoWidth) return;
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d');
+        if (!context) return;
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        setShots(prev => [...prev, canvas.toDataURL('image/jpeg', 0.92)]);
+        setFlash(true);
+        setTimeout(() => setFlash(false), 150);
+        armedRef.current = false;
+        setIsArmed(false);
+        capturedCorners.current = previousCorners.current;
+    }, []);
+
+    useEffect(() => {
+        if (!isCameraOpen) return;
+        const canvas = document.createElement('canvas');
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        const interval = setInterval(() => {
+            const video = videoRef.current;
+            if (!context || !video || video.readyState < 2 || !video.videoWidth) return;
+            canvas.width = ANALYSIS_WIDTH;
+            canvas.height = Math.round(video.videoHeight * ANALYSIS_WIDTH / video.videoWidth);
+            context.drawImage(video, 0, 0, canvas.width, canvas.height);
+            const { data, width, height } = context.getImageData(0, 0, canvas.width, canvas.height);
+            const frame = analyzeFrame({ data, width, height });
+
+            steadyRef.current = isSteady(previousCorners.current, frame.corners, width, height) ? steadyRef.current + 1 : 0;
+            previousCorners.current = frame.corners;
+            if (!armedRef.current && (!frame.corners || !capturedCorners.current || cornerMovement(capturedCorners.current, frame.corners, width, height) > REARM_MOVEMENT)) {
+                armedRef.current = true;
+                setIsArmed(true);
+            }
+            if (autoCaptureRef.current && armedRef.current && frame.issues.length === 0 && steadyRef.current >= STEADY_CHECKS) {
+                steadyRef.current = 0;
+                takePicture();
+            }
+            setFrameSize({ width, height });
+            setQuality(frame);
+            setSteadyCount(steadyRef.current);
+        }, CHECK_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [isCameraOpen, takePicture]);
+
+    const handleDone = () => {
+        if (shots.length > 0) onCapture(shots);
+        stopCamera();
     };
 
     const handleToggleCamera = () => {
@@ -64,16 +134,51 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, disable
         }
     };
 
+    const isGood = !!quality && quality.issues.length === 0;
+    let status = 'Looking for the bill...';
+    if (quality && quality.issues.length > 0) status = ISSUE_MESSAGES[quality.issues[0]];
+    else if (!isArmed) status = shots.length > 0 ? `Page ${shots.length} captured. Show the next page, or tap Done.` : status;
+    else if (isGood) status = autoCapture ? 'Hold steady...' : 'Looks good. Tap the shutter.';
+
     return (
         <div className="flex-1 flex flex-col">
             {isCameraOpen && (
                 <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4">
                     <div className="relative w-full max-w-4xl">
-                        <video ref={videoRef} autoPlay playsInline className="w-full h-auto rounded-lg shadow-2xl"></video>
-                        <button onClick={takePicture} className="absolute bottom-4 left-1/2 -translate-x-1/2 w-16 h-16 bg-white rounded-full border-4 border-slate-300 ring-2 ring-white ring-offset-2 ring-offset-black/50 hover:bg-slate-200 transition-colors focus:outline-none">
+                        <video ref={videoRef} autoPlay playsInline muted className="w-full h-auto rounded-lg shadow-2xl"></video>
+                        <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${frameSize.width} ${frameSize.height}`} preserveAspectRatio="none">
+                            {quality?.corners && (
+                                <polygon
+                                    points={quality.corners.map(p => `${p.x},${p.y}`).join(' ')}
+                                    className={isGood ? 'fill-green-400/20 stroke-green-400' : 'fill-amber-400/10 stroke-amber-400'}
+                                    strokeWidth={2}
+                                    vectorEffect="non-scaling-stroke"
+                                />
+                            )}
+                        </svg>
+                        {flash && <div className="absolute inset-0 bg-white/70 rounded-lg pointer-events-none"></div>}
+                        <div className={`absolute top-2 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full text-sm text-white ${isGood ? 'bg-green-600/80' : 'bg-black/60'}`}>
+                            {status}
+                            {isGood && isArmed && autoCapture && (
+                                <span className="ml-2 font-mono">{'●'.repeat(Math.min(steadyCount, STEADY_CHECKS))}{'○'.repeat(Math.max(0, STEADY_CHECKS - steadyCount))}</span>
+                            )}
+                        </div>
+                        <label className="absolute bottom-6 left-4 flex items-center space-x-2 text-sm text-white bg-black/50 px-3 py-1 rounded-full cursor-pointer">
+                            <input type="checkbox" checked={autoCapture} onChange={e => setAutoCapture(e.target.checked)} className="rounded border-slate-300 text-sky-600 focus:ring-sky-500" />
+                            <span>Auto capture</span>
+                        </label>
+                        <button onClick={takePicture} title="Take photo" className="absolute bottom-4 left-1/2 -translate-x-1/2 w-16 h-16 bg-white rounded-full border-4 border-slate-300 ring-2 ring-white ring-offset-2 ring-offset-black/50 hover:bg-slate-200 transition-colors focus:outline-none">
                             <div className="w-12 h-12 bg-red-500 rounded-full mx-auto"></div>
                         </button>
-                        <button onClick={stopCamera} className="absolute top-2 right-2 w-10 h-10 bg-black/50 text-white rounded-full flex items-center justify-center hover:bg-black/80 transition-colors">
+                        <div className="absolute bottom-4 right-4 flex items-center space-x-2">
+                            {shots.slice(-3).map((shot, index) => (
+                                <img key={shots.length - 3 + index} src={shot} alt={`Captured page ${shots.length - Math.min(3, shots.length) + index + 1}`} className="w-10 h-14 object-cover rounded border-2 border-white shadow" />
+                            ))}
+                            <button onClick={handleDone} disabled={shots.length === 0} className="px-4 py-2 text-sm font-semibold text-white bg-sky-600 rounded-md hover:bg-sky-700 disabled:bg-slate-500 disabled:cursor-not-allowed">
+                                Done{shots.length > 0 ? ` (${shots.length})` : ''}
+                            </button>
+                        </div>
+                        <button onClick={stopCamera} title="Discard and close" className="absolute top-2 right-2 w-10 h-10 bg-black/50 text-white rounded-full flex items-center justify-center hover:bg-black/80 transition-colors">
                             <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
                                 <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
                             </svg>
@@ -0,0 +1,46 @@
+import React from 'react';
+import type { BillData } from '../types';
+
+interface DuplicateBillModalProps {
+    bill: BillData;
+    duplicates: BillData[];
+    onReplace: () => void;
+    onKeepBoth: () => void;
+    onCancel: () => void;
+}
+
+export const DuplicateBillModal: React.FC<DuplicateBillModalProps> = ({ bill, duplicates, onReplace, onKeepBoth, onCancel }) => (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onCancel}>
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow-2xl w-full max-w-lg" onClick={e => e.stopPropagation()}>
+            <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+                <h2 className="text-lg font-semibold text-slate-900 dark:text-white">This bill may already be saved</h2>
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                    The statement {bill.statementDate ? `dated ${bill.statementDate} ` : ''}for ${bill.totalCurrentCharges.toFixed(2)} looks like {duplicates.length === 1 ? 'a bill' : `${duplicates.length} bills`} already in your history.
+                </p>
+            </div>
+            <div className="p-6 space-y-2 max-h-[40vh] overflow-y-auto custom-scrollbar">
+                {duplicates.map(duplicate => (
+                    <div key={duplicate.id} className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50 text-sm">
+                        <p className="font-medium text-slate-700 dark:text-slate-200">
+                            {duplicate.statementDate || 'No statement date'} · ${duplicate.totalCurrentCharges.toFixed(2)}
+                        </p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            Account {duplicate.accountNumber} · analyzed {new Date(duplicate.analyzedAt).toLocaleString()}
+                        </p>
+                    </div>
+                ))}
+            </div>
+            <div className="p-4 bg-slate-50 dark:bg-slate-900/50 flex justify-end space-x-3 rounded-b-lg">
+                <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600" title="Discard the new analysis and open the saved bill">
+                    Cancel
+                </button>
+                <button onClick={onKeepBoth} className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600">
+                    Keep Both
+                </button>
+                <button onClick={onReplace} className="px-4 py-2 text-sm font-medium text-white bg-sky-600 border border-transparent rounded-md shadow-sm hover:bg-sky-700">
+                    Replace
+                </button>
+            </div>
+        </div>
+    </div>
+);
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import type { UsageChartData, VerificationQuestion } from '../types';
 
+// Chart engine readings below this are outlined so they get checked.
+const LOW_CONFIDENCE = 0.6;
+
 interface EditableUsageTableProps {
     chartData: UsageChartData;
     chartIndex: number;
@@ -25,6 +28,7 @@ export const EditableUsageTable: React.FC<EditableUsageTableProps> = ({ chartDat
             const parsedValue = parseFloat(value);
             if (usagePoint) {
                 usagePoint.value = isNaN(parsedValue) ? 0 : parsedValue;
+                delete usagePoint.confidence; // Entered by the user, no longer an estimate.
             } else {
                  dataPoint.usage.push({year, value: isNaN(parsedValue) ? 0 : parsedValue})
             }
@@ -66,6 +70,7 @@ export const EditableUsageTable: React.FC<EditableUsageTableProps> = ({ chartDat
                             {years.map(year => {
                                 const usage = item.usage.find(u => u.year === year);
                                 const verificationQuestion = getVerificationQuestionForField(monthIndex, year);
+                                const isUncertain = usage?.confidence !== undefined && usage.confidence < LOW_CONFIDENCE;
                                 return (
                                     <td key={year} className="px-4 py-2 whitespace-nowrap text-sm">
                                         <div className="relative flex items-center">
@@ -73,9 +78,11 @@ export const EditableUsageTable: React.FC<EditableUsageTableProps> = ({ chartDat
                                                 type="number"
                                                 value={usage ? usage.value : ''}
                                                 onChange={(e) => handleValueChange(item.month, year, e.target.value)}
+                                                title={isUncertain ? `Read from the chart with ${Math.round(usage!.confidence! * 100)}% confidence. Please check it.` : undefined}
                                                 className={`w-24 bg-transparent border rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-sky-500 ${
                                                     verificationQuestion 
                                                     ? 'border-amber-400 dark:border-amber-600 bg-amber-50 dark:bg-amber-900/20'
+                                                    : isUncertain ? 'border-dashed border-amber-400 dark:border-amber-600'
                                                     : 'border-slate-300 dark:border-slate-600'
                                                 }`}
                                             />
@@ -0,0 +1,104 @@
+import React from 'react';
+import type { AiSettings, EnsembleMember, EnsembleSettings as EnsembleSettingsValue } from '../types';
+import { getProvider, getProviderConfig, listProviders } from '../services/aiService';
+import { getPrompt, listPrompts } from '../prompts';
+
+interface EnsembleSettingsProps {
+    settings: AiSettings;
+    onChange: (ensemble: EnsembleSettingsValue) => void;
+}
+
+const inputClasses = "w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-sm";
+
+// Editing the configurations an ensemble run votes across. Each member uses its provider's saved
+// settings; only the model and the prompt can differ per member.
+export const EnsembleSettings: React.FC<EnsembleSettingsProps> = ({ settings, onChange }) => {
+    const ensemble: EnsembleSettingsValue = settings.ensemble ?? { enabled: false, members: [] };
+
+    const updateMember = (index: number, member: EnsembleMember) =>
+        onChange({ ...ensemble, members: ensemble.members.map((m, i) => i === index ? member : m) });
+
+    const setOverride = (index: number, key: string, value: string) => {
+        const { [key]: _removed, ...rest } = ensemble.members[index].overrides;
+        updateMember(index, { ...ensemble.members[index], overrides: value ? { ...rest, [key]: value } : rest });
+    };
+
+    const addMember = () => onChange({ ...ensemble, members: [...ensemble.members, { provider: settings.provider, overrides: {} }] });
+    const removeMember = (index: number) => onChange({ ...ensemble, members: ensemble.members.filter((_, i) => i !== index) });
+
+    return (
+        <div className="space-y-4 p-4 border border-slate-200 dark:border-slate-700 rounded-lg">
+            <label className="flex items-start gap-3">
+                <input
+                    type="checkbox"
+                    checked={ensemble.enabled}
+                    onChange={(e) => onChange({ ...ensemble, enabled: e.target.checked })}
+                    className="mt-1 h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                />
+                <span>
+                    <span className="block text-md font-semibold text-slate-800 dark:text-slate-200">Ensemble Extraction</span>
+                    <span className="block text-xs text-slate-500 dark:text-slate-400">
+                        Analyze each bill with several configurations and merge the results field by field. Fields where they disagree are flagged for review. Takes as long as all runs together.
+                    </span>
+                </span>
+            </label>
+
+            {ensemble.enabled && (
+                <>
+                    {ensemble.members.map((member, index) => {
+                        const provider = getProvider(member.provider);
+                        const saved = getProviderConfig(settings, member.provider);
+                        const modelField = provider?.settingsSchema.find(f => f.type === 'model');
+                        const promptField = provider?.settingsSchema.find(f => f.type === 'prompt');
+                        return (
+                            <div key={index} className="space-y-2 p-3 bg-slate-50 dark:bg-slate-900/40 rounded-md">
+                                <div className="flex items-center gap-2">
+                                    <select
+                                        value={member.provider}
+                                        onChange={(e) => updateMember(index, { provider: e.target.value, overrides: {} })}
+                                        className={inputClasses}
+                                        aria-label={`Provider for run ${index + 1}`}
+                                    >
+                                        {listProviders().map(p => (
+                                            <option key={p.id} value={p.id}>{p.label}</option>
+                                        ))}
+                                    </select>
+                                    <button onClick={() => removeMember(index)} className="px-2 py-2 text-sm text-red-600 dark:text-red-400 hover:underline">Remove</button>
+                                </div>
+                                {modelField && (
+                                    <input
+                                        type="text"
+                                        value={member.overrides[modelField.key] ?? ''}
+                                        onChange={(e) => setOverride(index, modelField.key, e.target.value.trim())}
+                                        placeholder={saved[modelField.key] ? `Model (saved: ${saved[modelField.key]})` : 'Model'}
+                                        className={inputClasses}
+                                        aria-label={`Model for run ${index + 1}`}
+                                    />
+                                )}
+                                {promptField && (
+                                    <select
+                                        value={member.overrides[promptField.key] ?? ''}
+                                        onChange={(e) => setOverride(index, promptField.key, e.target.value)}
+                                        className={inputClasses}
+                                        aria-label={`Prompt for run ${index + 1}`}
+                                    >
+                                        <option value="">Saved prompt ({getPrompt(saved[promptField.key], promptField.promptKind).label})</option>
+                                        {listPrompts(promptField.promptKind).map(prompt => (
+                                            <option key={prompt.id} value={prompt.id}>{prompt.builtIn ? prompt.label : `${prompt.label} (v${prompt.version})`}</option>
+                                        ))}
+                                    </select>
+                                )}
+                            </div>
+                        );
+                    })}
+                    <button onClick={addMember} className="text-sm font-semibold text-sky-600 dark:text-sky-400 hover:underline">
+                        + Add configuration
+                    </button>
+                    {ensemble.members.length < 2 && (
+                        <p className="text-xs text-amber-600 dark:text-amber-400">Add at least two configurations; until then the provider above is used on its own.</p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
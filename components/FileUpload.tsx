@@ -57,12 +57,12 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, disabled }
                 <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5m-13.5-9L12 3m0 0 4.5 4.5M12 3v13.5" />
             </svg>
             <p className="text-base text-slate-500 dark:text-slate-400"><span className="font-semibold text-sky-600 dark:text-sky-400">Click to upload</span> or drag and drop</p>
-            <p className="text-sm text-slate-400 dark:text-slate-500 mt-1">PNG, JPG, WEBP</p>
+            <p className="text-sm text-slate-400 dark:text-slate-500 mt-1">PNG, JPG, WEBP, PDF</p>
             <input 
                 type="file" 
                 className="hidden" 
                 onChange={handleFileChange} 
-                accept="image/png, image/jpeg, image/webp" 
+                accept="image/png, image/jpeg, image/webp, application/pdf" 
                 disabled={disabled} 
             />
         </label>
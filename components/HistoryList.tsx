@@ -1,16 +1,154 @@
 
-import React from 'react';
-import type { BillData } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import type { Anomaly, BillData } from '../types';
+import type { AccountGroup } from '../hooks/useBillHistory';
+import { UTILITY_TYPES, getAccountLabel } from '../utils/accounts';
 
 interface HistoryListProps {
-    history: BillData[];
+    groups: AccountGroup[];
+    isLoading: boolean;
+    onLoadMore: (accountId: string) => void;
     onSelect: (id: string) => void;
     onDelete: (id: string) => void;
+    onEditAccount: (accountId: string) => void;
     activeId: string | null;
+    duplicateIds: Set<string>;
 }
 
-export const HistoryList: React.FC<HistoryListProps> = ({ history, onSelect, onDelete, activeId }) => {
-    if (history.length === 0) {
+const AnomalyBadge: React.FC<{ anomalies: Anomaly[] }> = ({ anomalies }) => {
+    const isAlert = anomalies.some(anomaly => anomaly.severity === 'alert');
+    return (
+        <span
+            className={`ml-2 px-1.5 py-0.5 rounded ${isAlert ? 'bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300' : 'bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300'}`}
+            title={anomalies.map(anomaly => anomaly.message).join('\n')}
+        >
+            {isAlert ? 'Alert' : 'Unusual'}
+        </span>
+    );
+};
+
+const HistoryItem: React.FC<{ item: BillData; isActive: boolean; isDuplicate: boolean; onSelect: (id: string) => void; onDelete: (id: string) => void }> = ({ item, isActive, isDuplicate, onSelect, onDelete }) => (
+    <div
+        onClick={() => onSelect(item.id)}
+        className={`group flex items-center justify-between p-3 rounded-lg cursor-pointer transition-colors ${
+            isActive
+            ? 'bg-sky-100 dark:bg-sky-900/50'
+            : 'hover:bg-slate-100 dark:hover:bg-slate-700'
+        }`}
+    >
+        <div className="truncate">
+            <p className={`font-medium truncate ${
+                isActive
+                ? 'text-sky-700 dark:text-sky-300'
+                : 'text-slate-700 dark:text-slate-200'
+            }`}>
+               {item.statementDate || new Date(item.analyzedAt).toLocaleDateString()}
+            </p>
+            <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+               ${item.totalCurrentCharges.toFixed(2)}
+               {isDuplicate && (
+                   <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300" title="Another saved bill looks like the same statement">
+                       Duplicate
+                   </span>
+               )}
+               {item.anomalies && item.anomalies.length > 0 && <AnomalyBadge anomalies={item.anomalies} />}
+            </p>
+        </div>
+        <button
+            onClick={(e) => {
+                e.stopPropagation();
+                onDelete(item.id);
+            }}
+            className="ml-2 p-1 rounded-full text-slate-400 hover:bg-red-100 dark:hover:bg-red-900/50 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100 focus:outline-none"
+            title="Delete item"
+        >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+        </button>
+    </div>
+);
+
+interface AccountSectionProps {
+    group: AccountGroup;
+    isExpanded: boolean;
+    onToggle: () => void;
+    onEdit: () => void;
+    onLoadMore: (accountId: string) => void;
+    onSelect: (id: string) => void;
+    onDelete: (id: string) => void;
+    activeId: string | null;
+    duplicateIds: Set<string>;
+}
+
+const AccountSection: React.FC<AccountSectionProps> = ({ group, isExpanded, onToggle, onEdit, onLoadMore, onSelect, onDelete, activeId, duplicateIds }) => {
+    const sentinelRef = useRef<HTMLDivElement>(null);
+    const { account, bills, hasMore, billCount } = group;
+    const utilityLabel = UTILITY_TYPES.find(type => type.value === account.utilityType)?.label;
+
+    // Load the next page when the end of the list scrolls into view (including the first page).
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!isExpanded || !sentinel || !hasMore) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) onLoadMore(account.id);
+        });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [isExpanded, hasMore, onLoadMore, account.id, bills.length]);
+
+    return (
+        <div>
+            <div className="group flex items-center justify-between px-2 py-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700/50">
+                <button onClick={onToggle} className="flex-grow flex items-center text-left min-w-0">
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className={`w-3 h-3 mr-2 flex-shrink-0 text-slate-400 transition-transform ${isExpanded ? 'rotate-90' : ''}`}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="m8.25 4.5 7.5 7.5-7.5 7.5" />
+                    </svg>
+                    <span className="min-w-0">
+                        <span className="block text-sm font-semibold text-slate-800 dark:text-slate-200 truncate">{getAccountLabel(account)}</span>
+                        <span className="block text-xs text-slate-500 dark:text-slate-400 truncate">{utilityLabel} · {billCount} bill(s)</span>
+                    </span>
+                </button>
+                <button
+                    onClick={onEdit}
+                    className="ml-2 p-1 rounded-full text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-600 hover:text-sky-500 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100 focus:outline-none"
+                    title="Edit account"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="m16.862 4.487 1.687-1.688a1.875 1.875 0 1 1 2.652 2.652L10.582 16.07a4.5 4.5 0 0 1-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 0 1 1.13-1.897l8.932-8.931Zm0 0L19.5 7.125" />
+                    </svg>
+                </button>
+            </div>
+            {isExpanded && (
+                <div className="pl-4 space-y-1">
+                    {bills.map(item => (
+                        <HistoryItem key={item.id} item={item} isActive={activeId === item.id} isDuplicate={duplicateIds.has(item.id)} onSelect={onSelect} onDelete={onDelete} />
+                    ))}
+                    {hasMore && (
+                        <div ref={sentinelRef} className="py-2 text-center">
+                            <button onClick={() => onLoadMore(account.id)} className="text-xs text-sky-600 dark:text-sky-400 hover:underline">
+                                Load more
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const HistoryList: React.FC<HistoryListProps> = ({ groups, isLoading, onLoadMore, onSelect, onDelete, onEditAccount, activeId, duplicateIds }) => {
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+    // With a single account there is nothing to choose between, so show its bills right away.
+    useEffect(() => {
+        if (groups.length === 1) setExpanded(prev => prev.has(groups[0].account.id) ? prev : new Set([...prev, groups[0].account.id]));
+    }, [groups]);
+
+    if (groups.length === 0) {
+        if (isLoading) {
+            return <div className="p-4 text-center text-sm text-slate-400">Loading history...</div>;
+        }
         return (
             <div className="p-4 text-center text-sm text-slate-400">
                 No analysis history yet.
@@ -18,43 +156,29 @@ export const HistoryList: React.FC<HistoryListProps> = ({ history, onSelect, onD
         );
     }
 
+    const toggle = (id: string) => {
+        setExpanded(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
     return (
-        <div className="space-y-2 p-2">
-            {history.map(item => (
-                <div
-                    key={item.id}
-                    onClick={() => onSelect(item.id)}
-                    className={`group flex items-center justify-between p-3 rounded-lg cursor-pointer transition-colors ${
-                        activeId === item.id 
-                        ? 'bg-sky-100 dark:bg-sky-900/50' 
-                        : 'hover:bg-slate-100 dark:hover:bg-slate-700'
-                    }`}
-                >
-                    <div className="truncate">
-                        <p className={`font-medium truncate ${
-                            activeId === item.id 
-                            ? 'text-sky-700 dark:text-sky-300' 
-                            : 'text-slate-700 dark:text-slate-200'
-                        }`}>
-                           Acct: ...{item.accountNumber.slice(-6)}
-                        </p>
-                        <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
-                           {item.statementDate || new Date(item.analyzedAt).toLocaleDateString()}
-                        </p>
-                    </div>
-                    <button
-                        onClick={(e) => {
-                            e.stopPropagation();
-                            onDelete(item.id);
-                        }}
-                        className="ml-2 p-1 rounded-full text-slate-400 hover:bg-red-100 dark:hover:bg-red-900/50 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100 focus:outline-none"
-                        title="Delete item"
-                    >
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                    </button>
-                </div>
+        <div className="space-y-1 p-2">
+            {groups.map(group => (
+                <AccountSection
+                    key={group.account.id}
+                    group={group}
+                    isExpanded={expanded.has(group.account.id)}
+                    onToggle={() => toggle(group.account.id)}
+                    onEdit={() => onEditAccount(group.account.id)}
+                    onLoadMore={onLoadMore}
+                    onSelect={onSelect}
+                    onDelete={onDelete}
+                    activeId={activeId}
+                    duplicateIds={duplicateIds}
+                />
             ))}
         </div>
     );
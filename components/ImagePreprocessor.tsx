@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import type { LogEntry } from '../types';
+import { preprocessImage, DEFAULT_PREPROCESS_OPTIONS, type PreprocessOptions, type PreprocessResult } from '../utils/imagePreprocessing';
+
+type AddLogFn = (level: LogEntry['level'], message: string, payload?: any) => void;
+
+const STORAGE_KEY = 'imagePreprocessing';
+
+const STEPS: { key: keyof PreprocessOptions; label: string; description: string }[] = [
+    { key: 'perspective', label: 'Crop & flatten', description: 'Find the page edges and correct the perspective of a photo taken at an angle.' },
+    { key: 'deskew', label: 'Straighten', description: 'Rotate the page so text lines are horizontal.' },
+    { key: 'denoise', label: 'Denoise', description: 'Smooth out camera noise and JPEG speckle. Slow on large photos.' },
+    { key: 'contrast', label: 'Contrast', description: 'Stretch faded or dim photos to full contrast.' },
+    { key: 'threshold', label: 'Black & white', description: 'Adaptive threshold that removes shadows. Removes colour, so chart legends may become harder to tell apart.' },
+];
+
+interface StoredPreferences {
+    options: PreprocessOptions;
+    sendProcessed: boolean;
+}
+
+const loadPreferences = (): StoredPreferences => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+        return { options: { ...DEFAULT_PREPROCESS_OPTIONS, ...saved.options }, sendProcessed: saved.sendProcessed ?? true };
+    } catch {
+        return { options: DEFAULT_PREPROCESS_OPTIONS, sendProcessed: true };
+    }
+};
+
+interface ImagePreprocessorProps {
+    pages: string[];
+    /** Rendered from a PDF. Those pages are already flat and clean, so the original is sent unless the cleaned-up version is picked. */
+    isPdf: boolean;
+    /** Called with the pages to analyze, or null while the chosen version is still being prepared. */
+    onSelect: (pages: string[] | null) => void;
+    addLog: AddLogFn;
+}
+
+export const ImagePreprocessor: React.FC<ImagePreprocessorProps> = ({ pages, isPdf, onSelect, addLog }) => {
+    const [preferences, setPreferences] = useState<StoredPreferences>(loadPreferences);
+    const [results, setResults] = useState<PreprocessResult[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [pageIndex, setPageIndex] = useState(0);
+    // The choice for a PDF applies to that upload only and is not remembered.
+    const [sendProcessedPdf, setSendProcessedPdf] = useState(false);
+    const { options } = preferences;
+    const sendProcessed = isPdf ? sendProcessedPdf : preferences.sendProcessed;
+    const anyStepEnabled = Object.values(options).some(Boolean);
+
+    useEffect(() => {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+    }, [preferences]);
+
+    useEffect(() => {
+        setPageIndex(index => Math.min(index, pages.length - 1));
+        setSendProcessedPdf(false);
+    }, [pages]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setResults(null);
+        setError(null);
+        if (!anyStepEnabled) return;
+        (async () => {
+            // Let the spinner render before the synchronous pixel work blocks the page.
+            await new Promise(resolve => setTimeout(resolve, 0));
+            const processed: PreprocessResult[] = [];
+            for (const page of pages) {
+                if (cancelled) return;
+                processed.push(await preprocessImage(page, options));
+            }
+            if (cancelled) return;
+            setResults(processed);
+            addLog('DEBUG', 'Preprocessed the bill image(s).', processed.map(({ applied, corners, skewAngle }) => ({ applied, corners, skewAngle })));
+        })().catch(err => {
+            if (cancelled) return;
+            setError(err instanceof Error ? err.message : 'The image could not be preprocessed.');
+            addLog('ERROR', 'Image preprocessing failed. The original image will be used.', err);
+        });
+        return () => { cancelled = true; };
+    }, [pages, options, anyStepEnabled, addLog]);
+
+    const useProcessed = sendProcessed && anyStepEnabled && !error;
+
+    useEffect(() => {
+        if (!useProcessed) {
+            onSelect(pages);
+        } else if (results) {
+            // A page no step changed is sent as is rather than re-encoded.
+            onSelect(results.map((result, i) => result.applied.length > 0 ? result.image : pages[i]));
+        } else {
+            onSelect(null);
+        }
+    }, [useProcessed, results, pages, onSelect]);
+
+    const toggleStep = (key: keyof PreprocessOptions) => {
+        setPreferences(prev => ({ ...prev, options: { ...prev.options, [key]: !prev.options[key] } }));
+    };
+
+    const setSendProcessed = (value: boolean) => isPdf
+        ? setSendProcessedPdf(value)
+        : setPreferences(prev => ({ ...prev, sendProcessed: value }));
+
+    const result = results?.[pageIndex];
+    const previewFrame = (selected: boolean) =>
+        `rounded-lg p-1 cursor-pointer transition-colors ${selected ? 'ring-2 ring-sky-500 bg-sky-50 dark:bg-sky-900/30' : 'hover:bg-slate-100 dark:hover:bg-slate-700/50'}`;
+
+    return (
+        <div className="text-left mb-6">
+            <div className="bg-white dark:bg-slate-800 p-4 rounded-lg shadow-md border border-slate-200 dark:border-slate-700 mb-4">
+                <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">Image Cleanup</h3>
+                <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    {STEPS.map(step => (
+                        <label key={step.key} className="flex items-center space-x-2 text-sm text-slate-700 dark:text-slate-300" title={step.description}>
+                            <input type="checkbox" checked={options[step.key]} onChange={() => toggleStep(step.key)} className="rounded border-slate-300 text-sky-600 focus:ring-sky-500" />
+                            <span>{step.label}</span>
+                        </label>
+                    ))}
+                </div>
+                <div className="flex items-center gap-4 mt-3 text-sm text-slate-700 dark:text-slate-300">
+                    <span className="font-medium">Send to AI:</span>
+                    <label className="flex items-center space-x-1">
+                        <input type="radio" name="preprocess-version" checked={!useProcessed} onChange={() => setSendProcessed(false)} className="text-sky-600 focus:ring-sky-500" />
+                        <span>Original</span>
+                    </label>
+                    <label className="flex items-center space-x-1">
+                        <input type="radio" name="preprocess-version" checked={useProcessed} disabled={!anyStepEnabled || !!error} onChange={() => setSendProcessed(true)} className="text-sky-600 focus:ring-sky-500" />
+                        <span className={!anyStepEnabled || error ? 'text-slate-400' : ''}>Cleaned up</span>
+                    </label>
+                </div>
+                {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+            </div>
+
+            {pages.length > 1 && (
+                <div className="flex gap-2 mb-3 overflow-x-auto custom-scrollbar">
+                    {pages.map((_, index) => (
+                        <button
+                            key={index}
+                            onClick={() => setPageIndex(index)}
+                            className={`px-3 py-1 text-sm rounded-md ${index === pageIndex ? 'bg-sky-600 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200'}`}
+                        >
+                            Page {index + 1}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <div className={`grid gap-4 ${anyStepEnabled ? 'sm:grid-cols-2' : ''}`}>
+                <figure className={previewFrame(!useProcessed)} onClick={() => setSendProcessed(false)}>
+                    <img src={pages[pageIndex]} alt={`Bill page ${pageIndex + 1}, original`} className="max-h-[50vh] mx-auto rounded shadow" />
+                    <figcaption className="text-xs text-center text-slate-500 dark:text-slate-400 mt-1">Original</figcaption>
+                </figure>
+                {anyStepEnabled && (
+                    <figure className={previewFrame(useProcessed)} onClick={() => !error && setSendProcessed(true)}>
+                        {result ? (
+                            <img src={result.image} alt={`Bill page ${pageIndex + 1}, cleaned up`} className="max-h-[50vh] mx-auto rounded shadow" />
+                        ) : (
+                            <div className="h-48 flex items-center justify-center text-sm text-slate-400">{error ? 'Not available' : 'Processing...'}</div>
+                        )}
+                        <figcaption className="text-xs text-center text-slate-500 dark:text-slate-400 mt-1">
+                            {result ? (result.applied.length > 0 ? `Cleaned up: ${result.applied.join(', ')}` : 'No changes needed') : 'Cleaned up'}
+                        </figcaption>
+                    </figure>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,21 +1,61 @@
-import React, { useState, useEffect } from 'react';
-import type { LogEntry } from '../types';
+import React, { useState } from 'react';
+import type { AnalysisProgress, LogEntry } from '../types';
 
 interface LoaderProps {
     logs: LogEntry[];
+    progress: AnalysisProgress[];
+    onCancel?: () => void;
+    // Shown above the partial results instead of covering the page.
+    compact?: boolean;
 }
 
-export const Loader: React.FC<LoaderProps> = ({ logs }) => {
-    const [progressSteps, setProgressSteps] = useState<string[]>([]);
+const ProgressBar: React.FC<{ step: AnalysisProgress }> = ({ step }) => {
+    const isDone = step.percent === 100;
+    return (
+        <div>
+            <div className="flex justify-between items-baseline gap-4 text-sm">
+                <span className={isDone ? 'text-green-600 dark:text-green-400' : 'font-semibold text-sky-600 dark:text-sky-400'}>{step.label}</span>
+                <span className="text-slate-500 dark:text-slate-400 tabular-nums">{step.percent === undefined ? '' : `${step.percent}%`}</span>
+            </div>
+            <div className="mt-1 w-full bg-slate-200 dark:bg-slate-700 rounded-full h-1.5 overflow-hidden">
+                {step.percent === undefined
+                    // The share done is unknown (e.g. waiting for a non-streaming model), so pulse instead.
+                    ? <div className="h-1.5 w-full rounded-full bg-sky-400/60 animate-pulse"></div>
+                    : <div className={`h-1.5 rounded-full transition-all duration-300 ${isDone ? 'bg-green-500' : 'bg-sky-500'}`} style={{ width: `${step.percent}%` }}></div>}
+            </div>
+            {step.detail && <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-400">{step.detail}</p>}
+        </div>
+    );
+};
+
+export const Loader: React.FC<LoaderProps> = ({ logs, progress, onCancel, compact }) => {
+    const [isCancelling, setIsCancelling] = useState(false);
+
+    const lastStep = [...logs].reverse().find(log => log.level === 'PROGRESS')?.message || "Initializing...";
 
-    useEffect(() => {
-        const newSteps = logs
-            .filter(log => log.level === 'PROGRESS')
-            .map(log => log.message);
-        setProgressSteps(newSteps);
-    }, [logs]);
+    const cancelButton = onCancel && (
+        <button
+            onClick={() => { setIsCancelling(true); onCancel(); }}
+            disabled={isCancelling}
+            className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600 disabled:opacity-50"
+        >
+            {isCancelling ? 'Cancelling...' : 'Cancel'}
+        </button>
+    );
 
-    const lastStep = progressSteps[progressSteps.length - 1] || "Initializing...";
+    if (compact) {
+        return (
+            <div className="no-print mb-6 p-4 bg-white dark:bg-slate-800 rounded-lg shadow-md border border-slate-200 dark:border-slate-700">
+                <div className="flex items-center justify-between gap-4 mb-3">
+                    <p className="text-sm text-slate-500 dark:text-slate-400 animate-pulse">{lastStep}</p>
+                    {cancelButton}
+                </div>
+                <div className="grid gap-3 sm:grid-cols-2">
+                    {progress.map(step => <ProgressBar key={step.pass} step={step} />)}
+                </div>
+            </div>
+        );
+    }
 
     return (
         <div className="absolute inset-0 bg-slate-50/90 dark:bg-slate-900/90 backdrop-blur-md flex flex-col items-center justify-center z-30 transition-opacity duration-300">
@@ -26,27 +66,15 @@ export const Loader: React.FC<LoaderProps> = ({ logs }) => {
                 </svg>
                 <h2 className="mt-6 text-xl font-semibold text-slate-800 dark:text-slate-200">Analyzing your bill...</h2>
                 <p className="mt-2 text-slate-500 dark:text-slate-400 animate-pulse">{lastStep}</p>
-                
-                <div className="mt-8 text-left w-72 mx-auto space-y-2">
-                    {progressSteps.slice(0, -1).map((step, index) => (
-                         <div key={index} className="flex items-center text-green-600 dark:text-green-400 opacity-80">
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
-                                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                            </svg>
-                            <span className="text-sm">{step}</span>
-                        </div>
-                    ))}
-                    {progressSteps.length > 0 && (
-                         <div className="flex items-center text-sky-600 dark:text-sky-400">
-                           <svg className="animate-spin h-5 w-5 mr-3 flex-shrink-0" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path>
-                           </svg>
-                            <span className="text-sm font-semibold">{lastStep}</span>
-                        </div>
-                    )}
-                </div>
+
+                {progress.length > 0 && (
+                    <div className="mt-8 text-left w-80 mx-auto space-y-3">
+                        {progress.map(step => <ProgressBar key={step.pass} step={step} />)}
+                    </div>
+                )}
+
+                {cancelButton && <div className="mt-8">{cancelButton}</div>}
             </div>
         </div>
     );
-};
\ No newline at end of file
+};
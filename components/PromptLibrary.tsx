@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import type { CustomPrompt, PromptKind } from '../types';
+import { CHART_JSON_PLACEHOLDER, OCR_TEXT_PLACEHOLDER, addPromptVersion, clonePrompt, getPrompt, listPrompts } from '../prompts';
+
+interface PromptLibraryProps {
+    isOpen: boolean;
+    onClose: () => void;
+    customPrompts: CustomPrompt[];
+    onSave: (prompts: CustomPrompt[]) => void;
+    // The prompt to show first, e.g. the one selected in Settings.
+    initialPromptId?: string;
+    initialKind?: PromptKind;
+}
+
+const KIND_LABELS: Record<PromptKind, string> = {
+    bill: 'Bill prompts (Gemini, OpenAI-compatible)',
+    fusion: 'Fusion prompts (Ollama multi-pass)',
+};
+
+const KNOWN_PLACEHOLDERS = [OCR_TEXT_PLACEHOLDER, CHART_JSON_PLACEHOLDER];
+
+const inputClasses = "w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-sm";
+const buttonClasses = "px-3 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+/** Problems with a template that would not stop it from being sent, but would weaken the answer. */
+const checkTemplate = (template: string, kind: PromptKind): string[] => {
+    const warnings: string[] = [];
+    if (kind === 'fusion') {
+        if (!template.includes(OCR_TEXT_PLACEHOLDER)) warnings.push(`The fusion model only sees the bill text where ${OCR_TEXT_PLACEHOLDER} appears.`);
+        if (!template.includes(CHART_JSON_PLACEHOLDER)) warnings.push(`The chart readings are only sent where ${CHART_JSON_PLACEHOLDER} appears.`);
+    } else if (template.includes(CHART_JSON_PLACEHOLDER)) {
+        warnings.push(`${CHART_JSON_PLACEHOLDER} is only filled in for fusion prompts and will be left empty.`);
+    }
+    const unknown = (template.match(/\{\{[^}]*\}\}/g) ?? []).filter(p => !KNOWN_PLACEHOLDERS.includes(p));
+    if (unknown.length > 0) warnings.push(`Unknown placeholders are sent as written: ${[...new Set(unknown)].join(', ')}.`);
+    return warnings;
+};
+
+// Browsing, cloning and editing prompts. Built-in prompts are read-only; editing a custom prompt
+// saves a new version, so earlier versions stay available and past results can be traced to one.
+export const PromptLibrary: React.FC<PromptLibraryProps> = ({ isOpen, onClose, customPrompts, onSave, initialPromptId, initialKind = 'bill' }) => {
+    const [selectedId, setSelectedId] = useState<string>(() => getPrompt(initialPromptId, initialKind).id);
+    // The version being looked at; null for the latest.
+    const [viewedVersion, setViewedVersion] = useState<number | null>(null);
+    const [draft, setDraft] = useState('');
+    const [note, setNote] = useState('');
+
+    const prompts = listPrompts();
+    const selected = prompts.find(p => p.id === selectedId) ?? getPrompt(undefined, initialKind);
+    const custom = customPrompts.find(p => p.id === selected.id);
+    const shownVersion = custom?.versions.find(v => v.version === viewedVersion) ?? custom?.versions[custom.versions.length - 1];
+    const shownTemplate = shownVersion?.template ?? selected.template;
+    const isEditable = !!custom && viewedVersion === null;
+    const isDirty = isEditable && draft !== selected.template;
+
+    useEffect(() => {
+        if (isOpen) setSelectedId(getPrompt(initialPromptId, initialKind).id);
+    }, [isOpen, initialPromptId, initialKind]);
+
+    useEffect(() => {
+        setViewedVersion(null);
+        setDraft(selected.template);
+        setNote('');
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [selectedId]);
+
+    if (!isOpen) return null;
+
+    const updateCustom = (updated: CustomPrompt) => onSave(customPrompts.map(p => p.id === updated.id ? updated : p));
+
+    const handleClone = () => {
+        const label = window.prompt('Name for the new prompt:', `${selected.label} (copy)`)?.trim();
+        if (!label) return;
+        const clone = clonePrompt({ ...selected, template: shownTemplate, version: shownVersion?.version ?? selected.version }, label);
+        onSave([...customPrompts, clone]);
+        setSelectedId(clone.id);
+    };
+
+    const handleSaveVersion = () => {
+        if (!custom || !isDirty) return;
+        updateCustom(addPromptVersion(custom, draft, note.trim() || undefined));
+        setNote('');
+    };
+
+    const handleRestore = () => {
+        if (!custom || !shownVersion) return;
+        updateCustom(addPromptVersion(custom, shownVersion.template, `Restored v${shownVersion.version}`));
+        setViewedVersion(null);
+        setDraft(shownVersion.template);
+    };
+
+    const handleRename = () => {
+        if (!custom) return;
+        const label = window.prompt('New name for the prompt:', custom.label)?.trim();
+        if (label) updateCustom({ ...custom, label });
+    };
+
+    const handleDelete = () => {
+        if (!custom) return;
+        if (!window.confirm(`Delete "${custom.label}" and all of its versions? Providers using it fall back to the default prompt.`)) return;
+        onSave(customPrompts.filter(p => p.id !== custom.id));
+        setSelectedId(getPrompt(undefined, custom.kind).id);
+    };
+
+    const warnings = checkTemplate(isEditable ? draft : shownTemplate, selected.kind);
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-2xl w-full max-w-6xl flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center">
+                    <div>
+                        <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Prompt Library</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">Clone a prompt to edit it. Changes apply to the next analysis; no rebuild needed.</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6 text-slate-500 dark:text-slate-400">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-[14rem_1fr_20rem]">
+                    {/* Prompt list */}
+                    <nav className="p-4 border-b lg:border-b-0 lg:border-r border-slate-200 dark:border-slate-700 overflow-y-auto custom-scrollbar space-y-4">
+                        {(Object.keys(KIND_LABELS) as PromptKind[]).map(kind => (
+                            <div key={kind}>
+                                <h3 className="text-xs font-semibold uppercase text-slate-500 dark:text-slate-400 mb-2">{KIND_LABELS[kind]}</h3>
+                                <ul className="space-y-1">
+                                    {prompts.filter(p => p.kind === kind).map(p => (
+                                        <li key={p.id}>
+                                            <button
+                                                onClick={() => setSelectedId(p.id)}
+                                                className={`w-full text-left px-2 py-1.5 rounded-md text-sm ${p.id === selected.id ? 'bg-sky-100 dark:bg-sky-900/50 text-sky-700 dark:text-sky-300 font-semibold' : 'text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                                            >
+                                                {p.label}
+                                                <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">{p.builtIn ? 'Built-in' : `Custom, v${p.version}`}</span>
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        ))}
+                    </nav>
+
+                    {/* Template */}
+                    <div className="p-4 flex flex-col min-h-0 overflow-y-auto custom-scrollbar space-y-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <h3 className="text-md font-semibold text-slate-800 dark:text-slate-200 mr-auto">{selected.label}</h3>
+                            {custom && (
+                                <select
+                                    value={viewedVersion ?? ''}
+                                    onChange={(e) => setViewedVersion(e.target.value ? Number(e.target.value) : null)}
+                                    className={`${inputClasses} w-auto`}
+                                    aria-label="Version"
+                                >
+                                    <option value="">Latest (v{selected.version})</option>
+                                    {[...custom.versions].reverse().slice(1).map(v => (
+                                        <option key={v.version} value={v.version}>
+                                            v{v.version} – {new Date(v.createdAt).toLocaleString()}
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
+                            <button onClick={handleClone} className={buttonClasses}>Clone</button>
+                            {custom && <button onClick={handleRename} className={buttonClasses}>Rename</button>}
+                            {custom && <button onClick={handleDelete} className={`${buttonClasses} text-red-600 dark:text-red-400`}>Delete</button>}
+                        </div>
+
+                        {shownVersion?.note && (
+                            <p className="text-xs text-slate-500 dark:text-slate-400">v{shownVersion.version}: {shownVersion.note}</p>
+                        )}
+                        {selected.builtIn && (
+                            <p className="text-xs text-slate-500 dark:text-slate-400">Built-in prompts can't be edited. Clone this one to make your own version.</p>
+                        )}
+
+                        <textarea
+                            value={isEditable ? draft : shownTemplate}
+                            onChange={(e) => setDraft(e.target.value)}
+                            readOnly={!isEditable}
+                            spellCheck={false}
+                            className={`${inputClasses} flex-1 min-h-[20rem] font-mono text-xs ${isEditable ? '' : 'bg-slate-50 dark:bg-slate-900/50'}`}
+                            aria-label="Prompt template"
+                        />
+
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            <code>{OCR_TEXT_PLACEHOLDER}</code> is replaced with the bill's OCR text; bill prompts that use it run OCR first.
+                            {selected.kind === 'fusion' && <> <code>{CHART_JSON_PLACEHOLDER}</code> is replaced with the chart engine's readings.</>}
+                        </p>
+                        {warnings.map(warning => (
+                            <p key={warning} className="text-xs text-amber-600 dark:text-amber-400">{warning}</p>
+                        ))}
+
+                        {isEditable && (
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={note}
+                                    onChange={(e) => setNote(e.target.value)}
+                                    placeholder="What changed? (optional)"
+                                    className={inputClasses}
+                                />
+                                <button onClick={() => setDraft(selected.template)} disabled={!isDirty} className={buttonClasses}>Discard</button>
+                                <button
+                                    onClick={handleSaveVersion}
+                                    disabled={!isDirty}
+                                    className="px-3 py-2 text-sm font-medium text-white bg-sky-600 rounded-md shadow-sm hover:bg-sky-700 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    Save as v{selected.version + 1}
+                                </button>
+                            </div>
+                        )}
+                        {custom && viewedVersion !== null && (
+                            <div>
+                                <button onClick={handleRestore} className={buttonClasses}>Restore v{viewedVersion} as v{selected.version + 1}</button>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Schema */}
+                    <aside className="p-4 border-t lg:border-t-0 lg:border-l border-slate-200 dark:border-slate-700 flex flex-col min-h-0">
+                        <h3 className="text-sm font-semibold text-slate-800 dark:text-slate-200">Response Schema</h3>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                            The fields the answer is read into. Gemini enforces it and OpenAI-compatible servers are sent it with the prompt; the fusion pass asks for the same fields.
+                        </p>
+                        <pre className="flex-1 min-h-[12rem] overflow-auto custom-scrollbar p-2 bg-slate-50 dark:bg-slate-900/50 rounded-md text-xs text-slate-700 dark:text-slate-300">
+                            {JSON.stringify(selected.schema, null, 2)}
+                        </pre>
+                    </aside>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,69 +1,117 @@
-
 import React, { useState, useEffect, useCallback } from 'react';
-import type { AiSettings, AiProvider, OllamaModel } from '../types';
-import { fetchOllamaModels } from '../services/aiService';
+import type { AiSettings, AiProvider, CustomPrompt, LogEntry, ProviderConfig, ProviderModel, ProviderSettingField } from '../types';
+import { getProvider, getProviderConfig, listProviders } from '../services/aiService';
+import { listPrompts } from '../prompts';
+import { EnsembleSettings } from './EnsembleSettings';
+import { PromptLibrary } from './PromptLibrary';
 
 interface SettingsProps {
     isOpen: boolean;
     onClose: () => void;
     settings: AiSettings;
     onSave: (settings: AiSettings) => void;
-    addLog: (level: 'INFO' | 'ERROR' | 'DEBUG', message: string, payload?: any) => void;
+    addLog: (level: LogEntry['level'], message: string, payload?: any) => void;
+    customPrompts: CustomPrompt[];
+    onSaveCustomPrompts: (prompts: CustomPrompt[]) => void;
 }
 
-export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, settings, onSave, addLog }) => {
+const inputClasses = "w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, settings, onSave, addLog, customPrompts, onSaveCustomPrompts }) => {
     const [localSettings, setLocalSettings] = useState<AiSettings>(settings);
-    const [ollamaModels, setOllamaModels] = useState<OllamaModel[]>([]);
+    // The prompt field the library was opened from; null while it is closed.
+    const [libraryField, setLibraryField] = useState<ProviderSettingField | null>(null);
+    const [models, setModels] = useState<ProviderModel[]>([]);
     const [connectionStatus, setConnectionStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
-    const [connectionError, setConnectionError] = useState<string | null>(null);
+    const [connectionMessage, setConnectionMessage] = useState<string | null>(null);
 
-    useEffect(() => {
-        setLocalSettings(settings);
-        // If ollama is the provider and we have a URL but no model, try to fetch models
-        if (settings.provider === 'ollama' && settings.ollamaUrl && ollamaModels.length === 0) {
-            handleTestConnection();
-        }
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [settings, isOpen]);
+    const provider = getProvider(localSettings.provider);
+    const config = getProviderConfig(localSettings, localSettings.provider);
+    const hasModelField = !!provider?.settingsSchema.some(f => f.type === 'model');
 
-    const handleSave = () => {
-        onSave(localSettings);
-        onClose();
+    const updateConfig = (changes: ProviderConfig) => {
+        setLocalSettings(s => ({
+            ...s,
+            providerSettings: {
+                ...s.providerSettings,
+                [s.provider]: { ...getProviderConfig(s, s.provider), ...changes },
+            },
+        }));
     };
-    
+
     const handleTestConnection = useCallback(async () => {
-        if (localSettings.provider !== 'ollama' || !localSettings.ollamaUrl) return;
+        const current = getProvider(localSettings.provider);
+        if (!current) return;
+        const currentConfig = getProviderConfig(localSettings, current.id);
         setConnectionStatus('testing');
-        setConnectionError(null);
-        setOllamaModels([]);
+        setConnectionMessage(null);
+        setModels([]);
         try {
-            const models = await fetchOllamaModels(localSettings.ollamaUrl, addLog);
-            setOllamaModels(models);
-            if (models.length > 0) {
-                setConnectionStatus('success');
+            const result = await current.testConnection(currentConfig, addLog);
+            if (!result.ok) {
+                setConnectionStatus('error');
+                setConnectionMessage(result.message);
+                return;
+            }
+            const modelField = current.settingsSchema.find(f => f.type === 'model');
+            if (modelField) {
+                const fetchedModels = await current.listModels(currentConfig, addLog);
+                setModels(fetchedModels);
                 // If no model is selected, or the selected one isn't in the list, default to the first one
-                const currentModelExists = models.some(m => m.name === localSettings.ollamaModel);
-                if (!localSettings.ollamaModel || !currentModelExists) {
-                    setLocalSettings(s => ({...s, ollamaModel: models[0].name}));
+                const currentModel = currentConfig[modelField.key];
+                if (fetchedModels.length > 0 && (!currentModel || !fetchedModels.some(m => m.id === currentModel))) {
+                    setLocalSettings(s => ({
+                        ...s,
+                        providerSettings: {
+                            ...s.providerSettings,
+                            [current.id]: { ...getProviderConfig(s, current.id), [modelField.key]: fetchedModels[0].id },
+                        },
+                    }));
                 }
-            } else {
-                setConnectionStatus('error');
-                setConnectionError("Connection successful, but no models found on the Ollama server.");
             }
+            setConnectionStatus('success');
+            setConnectionMessage(result.message);
         } catch (error) {
             setConnectionStatus('error');
-            setConnectionError(error instanceof Error ? error.message : "An unknown error occurred.");
+            setConnectionMessage(error instanceof Error ? error.message : "An unknown error occurred.");
+        }
+    }, [localSettings, addLog]);
+
+    useEffect(() => {
+        setLocalSettings(settings);
+        setModels([]);
+        setConnectionStatus('idle');
+        setConnectionMessage(null);
+    }, [settings, isOpen]);
+
+    // Fetch models as soon as a provider with a model picker is shown, so the dropdown is usable.
+    useEffect(() => {
+        if (isOpen && hasModelField && connectionStatus === 'idle') {
+            handleTestConnection();
         }
-    }, [localSettings.ollamaUrl, localSettings.ollamaModel, localSettings.provider, addLog]);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen, localSettings.provider, connectionStatus]);
+
+    const handleSave = () => {
+        onSave(localSettings);
+        onClose();
+    };
+
+    const handleProviderChange = (providerId: AiProvider) => {
+        setLocalSettings(s => ({ ...s, provider: providerId }));
+        setModels([]);
+        setConnectionStatus('idle');
+        setConnectionMessage(null);
+    };
 
     if (!isOpen) return null;
 
     const renderConnectionStatus = () => {
         switch (connectionStatus) {
             case 'success':
-                return <p className="text-xs text-green-500 mt-1">Connection successful. Found {ollamaModels.length} models.</p>;
+                return <p className="text-xs text-green-500 mt-1">{connectionMessage}</p>;
             case 'error':
-                return <p className="text-xs text-red-500 mt-1">{connectionError}</p>;
+                return <p className="text-xs text-red-500 mt-1">{connectionMessage}</p>;
             case 'testing':
                 return <p className="text-xs text-slate-400 mt-1">Testing connection...</p>;
             default:
@@ -71,91 +119,151 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, settings, o
         }
     };
 
-    return (
-        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
-            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-2xl w-full max-w-md" onClick={e => e.stopPropagation()}>
-                <div className="p-6 border-b border-slate-200 dark:border-slate-700">
-                    <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Settings</h2>
+    const renderField = (field: ProviderSettingField) => {
+        const id = `${localSettings.provider}-${field.key}`;
+        const value = config[field.key] ?? '';
+
+        if (field.type === 'model') {
+            // Keep the saved model selectable even before the list has been fetched.
+            const options = models.length > 0 ? models : value ? [{ id: value }] : [];
+            return (
+                <select
+                    id={id}
+                    value={value}
+                    onChange={(e) => updateConfig({ [field.key]: e.target.value })}
+                    disabled={options.length === 0 || connectionStatus === 'testing'}
+                    className={`${inputClasses} disabled:bg-slate-100 dark:disabled:bg-slate-700/50 disabled:cursor-not-allowed`}
+                >
+                    {options.length > 0 ? (
+                        <>
+                            <option value="">-- Select a model --</option>
+                            {options.map(model => (
+                                <option key={model.id} value={model.id}>{model.label || model.id}</option>
+                            ))}
+                        </>
+                    ) : (
+                        <option value="">{connectionStatus === 'error' ? 'Could not fetch models' : 'Test connection to see models'}</option>
+                    )}
+                </select>
+            );
+        }
+
+        if (field.type === 'prompt') {
+            const prompts = listPrompts(field.promptKind);
+            return (
+                <div className="flex gap-2">
+                    <select id={id} value={value} onChange={(e) => updateConfig({ [field.key]: e.target.value })} className={inputClasses}>
+                        {/* A deleted custom prompt falls back to the default, so show that. */}
+                        {!prompts.some(p => p.id === value) && <option value={value}>Default</option>}
+                        {prompts.map(prompt => (
+                            <option key={prompt.id} value={prompt.id}>{prompt.builtIn ? prompt.label : `${prompt.label} (v${prompt.version})`}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => setLibraryField(field)}
+                        className="px-3 py-2 bg-slate-100 dark:bg-slate-600 text-sm font-medium rounded-md hover:bg-slate-200 dark:hover:bg-slate-500 whitespace-nowrap"
+                    >
+                        Edit…
+                    </button>
                 </div>
-                <div className="p-6 space-y-6">
-                    <div>
-                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">AI Provider</label>
-                        <select
-                            value={localSettings.provider}
-                            onChange={(e) => setLocalSettings({ ...localSettings, provider: e.target.value as AiProvider })}
-                            className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
-                        >
-                            <option value="gemini">Google Gemini</option>
-                            <option value="ollama">Ollama (Local)</option>
-                        </select>
-                    </div>
+            );
+        }
 
-                    {/* FIX: Remove Gemini API key input to comply with guidelines. API key should come from environment variables. */}
-                    {localSettings.provider === 'gemini' && (
-                        <div className="p-4 border border-slate-200 dark:border-slate-700 rounded-lg bg-slate-50 dark:bg-slate-700/50">
-                            <p className="text-sm text-slate-600 dark:text-slate-300">
-                                The Gemini API key is configured securely on the server using the <code>API_KEY</code> environment variable.
-                            </p>
+        if (field.type === 'select') {
+            return (
+                <select id={id} value={value} onChange={(e) => updateConfig({ [field.key]: e.target.value })} className={inputClasses}>
+                    {(field.options ?? []).map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            );
+        }
+
+        return (
+            <input
+                type={field.type === 'password' ? 'password' : field.type === 'number' ? 'number' : 'text'}
+                id={id}
+                value={value}
+                onChange={(e) => updateConfig({ [field.key]: e.target.value })}
+                className={inputClasses}
+                placeholder={field.placeholder}
+                autoComplete={field.type === 'password' ? 'off' : undefined}
+            />
+        );
+    };
+
+    return (
+        <>
+            <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+                <div className="bg-white dark:bg-slate-800 rounded-lg shadow-2xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+                    <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+                        <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Settings</h2>
+                    </div>
+                    <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto custom-scrollbar">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">AI Provider</label>
+                            <select
+                                value={localSettings.provider}
+                                onChange={(e) => handleProviderChange(e.target.value)}
+                                className={inputClasses}
+                            >
+                                {listProviders().map(p => (
+                                    <option key={p.id} value={p.id}>{p.label}</option>
+                                ))}
+                            </select>
                         </div>
-                    )}
 
-                    {localSettings.provider === 'ollama' && (
-                        <div className="space-y-4 p-4 border border-slate-200 dark:border-slate-700 rounded-lg">
-                             <h3 className="text-md font-semibold text-slate-800 dark:text-slate-200">Ollama Configuration</h3>
-                            <div>
-                                <label htmlFor="ollamaUrl" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Ollama Server URL</label>
-                                <div className="flex items-center space-x-2">
-                                    <input
-                                        type="text"
-                                        id="ollamaUrl"
-                                        value={localSettings.ollamaUrl}
-                                        onChange={(e) => setLocalSettings({ ...localSettings, ollamaUrl: e.target.value })}
-                                        className="flex-grow w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
-                                        placeholder="http://localhost:11434"
-                                    />
+                        {provider && (
+                            <div className="space-y-4 p-4 border border-slate-200 dark:border-slate-700 rounded-lg">
+                                <div className="flex items-center justify-between gap-2">
+                                    <h3 className="text-md font-semibold text-slate-800 dark:text-slate-200">{provider.label} Configuration</h3>
                                     <button
                                         onClick={handleTestConnection}
                                         disabled={connectionStatus === 'testing'}
                                         className="px-3 py-2 bg-slate-100 dark:bg-slate-600 text-sm font-medium rounded-md hover:bg-slate-200 dark:hover:bg-slate-500 disabled:opacity-50 disabled:cursor-wait"
                                     >
-                                        {connectionStatus === 'testing' ? 'Testing...' : 'Test & Fetch'}
+                                        {connectionStatus === 'testing' ? 'Testing...' : hasModelField ? 'Test & Fetch' : 'Test'}
                                     </button>
                                 </div>
+                                {provider.description && (
+                                    <p className="text-sm text-slate-600 dark:text-slate-300">{provider.description}</p>
+                                )}
                                 {renderConnectionStatus()}
+                                {provider.settingsSchema.map(field => (
+                                    <div key={field.key}>
+                                        <label htmlFor={`${localSettings.provider}-${field.key}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                            {field.label}{field.required && <span className="text-red-500"> *</span>}
+                                        </label>
+                                        {renderField(field)}
+                                        {field.description && (
+                                            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{field.description}</p>
+                                        )}
+                                    </div>
+                                ))}
                             </div>
-                             <div>
-                                <label htmlFor="ollamaModel" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Model</label>
-                                <select
-                                    id="ollamaModel"
-                                    value={localSettings.ollamaModel}
-                                    onChange={(e) => setLocalSettings({ ...localSettings, ollamaModel: e.target.value })}
-                                    disabled={ollamaModels.length === 0 || connectionStatus !== 'success'}
-                                    className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500 disabled:bg-slate-100 dark:disabled:bg-slate-700/50 disabled:cursor-not-allowed"
-                                >
-                                    {ollamaModels.length > 0 ? (
-                                        <>
-                                            <option value="">-- Select a model --</option>
-                                            {ollamaModels.map(model => (
-                                                <option key={model.name} value={model.name}>{model.name}</option>
-                                            ))}
-                                        </>
-                                    ) : (
-                                        <option value="">{connectionStatus === 'error' ? 'Could not fetch models' : 'Test connection to see models'}</option>
-                                    )}
-                                </select>
-                            </div>
-                        </div>
-                    )}
-                </div>
-                <div className="p-4 bg-slate-50 dark:bg-slate-900/50 flex justify-end space-x-3 rounded-b-lg">
-                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500">
-                        Cancel
-                    </button>
-                    <button onClick={handleSave} className="px-4 py-2 text-sm font-medium text-white bg-sky-600 border border-transparent rounded-md shadow-sm hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500">
-                        Save Changes
-                    </button>
+                        )}
+
+                        <EnsembleSettings settings={localSettings} onChange={ensemble => setLocalSettings(s => ({ ...s, ensemble }))} />
+                    </div>
+                    <div className="p-4 bg-slate-50 dark:bg-slate-900/50 flex justify-end space-x-3 rounded-b-lg">
+                        <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500">
+                            Cancel
+                        </button>
+                        <button onClick={handleSave} className="px-4 py-2 text-sm font-medium text-white bg-sky-600 border border-transparent rounded-md shadow-sm hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500">
+                            Save Changes
+                        </button>
+                    </div>
                 </div>
             </div>
-        </div>
+            {/* Outside the backdrop above, so clicks on its own backdrop don't close Settings too. */}
+            <PromptLibrary
+                isOpen={libraryField !== null}
+                onClose={() => setLibraryField(null)}
+                customPrompts={customPrompts}
+                onSave={onSaveCustomPrompts}
+                initialPromptId={libraryField ? config[libraryField.key] : undefined}
+                initialKind={libraryField?.promptKind}
+            />
+        </>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,65 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { FieldSource } from '../types';
+
+interface SourceImageViewerProps {
+    images: string[];
+    highlight: FieldSource | null;
+}
+
+interface ImageSize {
+    naturalWidth: number;
+    naturalHeight: number;
+}
+
+// Extra space around a highlighted word box so the highlight does not clip the glyphs.
+const HIGHLIGHT_PADDING = 4;
+
+export const SourceImageViewer: React.FC<SourceImageViewerProps> = ({ images, highlight }) => {
+    const [sizes, setSizes] = useState<Record<number, ImageSize>>({});
+    const highlightRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        highlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }, [highlight]);
+
+    const handleLoad = (index: number, e: React.SyntheticEvent<HTMLImageElement>) => {
+        const { naturalWidth, naturalHeight } = e.currentTarget;
+        setSizes(prev => ({ ...prev, [index]: { naturalWidth, naturalHeight } }));
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow-md border border-slate-200 dark:border-slate-700 overflow-hidden">
+            <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+                <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-200">Source Document</h3>
+                <p className="text-xs text-slate-500 dark:text-slate-400">Hover a field to see where it was read from.</p>
+            </div>
+            <div className="max-h-[75vh] overflow-y-auto custom-scrollbar p-2 space-y-2">
+                {images.map((image, index) => {
+                    const size = sizes[index];
+                    // Boxes are in image pixels; convert to percentages so they follow the rendered size.
+                    const box = highlight && highlight.page === index && size ? {
+                        left: `${((highlight.bbox.x0 - HIGHLIGHT_PADDING) / size.naturalWidth) * 100}%`,
+                        top: `${((highlight.bbox.y0 - HIGHLIGHT_PADDING) / size.naturalHeight) * 100}%`,
+                        width: `${((highlight.bbox.x1 - highlight.bbox.x0 + HIGHLIGHT_PADDING * 2) / size.naturalWidth) * 100}%`,
+                        height: `${((highlight.bbox.y1 - highlight.bbox.y0 + HIGHLIGHT_PADDING * 2) / size.naturalHeight) * 100}%`,
+                    } : null;
+                    return (
+                        <div key={index} className="relative">
+                            <img src={image} alt={`Bill page ${index + 1}`} onLoad={e => handleLoad(index, e)} className="w-full h-auto rounded" />
+                            {box && (
+                                <div
+                                    ref={highlightRef}
+                                    className="absolute border-2 border-amber-500 bg-amber-300/30 rounded-sm pointer-events-none transition-all duration-150"
+                                    style={box}
+                                />
+                            )}
+                            {images.length > 1 && (
+                                <span className="absolute top-2 left-2 text-xs bg-black/60 text-white px-2 py-0.5 rounded">Page {index + 1}</span>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { Account, BillData } from '../types';
+import { getAllBills, listAccounts } from '../services/billStore';
+import { buildAccountTrends, type AccountTrend, type UnitSeries } from '../utils/trends';
+
+interface TrendDashboardProps {
+    /** The bill history's revision; the dashboard reloads when it changes, e.g. after accounts are merged. */
+    historyRevision: number;
+    onSelectBill: (id: string) => void;
+    onClose: () => void;
+}
+
+const COLORS = ['#38bdf8', '#fbbf24', '#a78bfa', '#f87171'];
+const AXIS_TICK = { fill: 'rgb(100 116 139)', fontSize: 12 };
+const TOOLTIP_STYLE = {
+    backgroundColor: 'rgb(15 23 42)',
+    borderColor: 'rgb(51 65 85)',
+    color: 'rgb(226 232 240)',
+    borderRadius: '0.5rem',
+};
+
+const formatMonth = (key: string) => {
+    const [year, month] = key.split('-').map(Number);
+    return new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+};
+
+const formatChange = (change: number | null) => change === null ? '—' : `${change > 0 ? '+' : ''}${(change * 100).toFixed(1)}%`;
+
+const changeColor = (change: number | null) => {
+    if (change === null || Math.abs(change) < 0.005) return 'text-slate-500 dark:text-slate-400';
+    // Higher costs or usage are bad news.
+    return change > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400';
+};
+
+const StatCard: React.FC<{ label: string; value: string; change?: number | null; changeLabel?: string }> = ({ label, value, change, changeLabel }) => (
+    <div className="bg-white dark:bg-slate-800 p-4 rounded-lg shadow-md border border-slate-200 dark:border-slate-700">
+        <p className="text-sm font-medium text-slate-500 dark:text-slate-400">{label}</p>
+        <p className="text-2xl font-bold text-slate-900 dark:text-white">{value}</p>
+        {change !== undefined && (
+            <p className={`text-sm ${changeColor(change)}`}>{formatChange(change)} {changeLabel}</p>
+        )}
+    </div>
+);
+
+const Panel: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md border border-slate-200 dark:border-slate-700">
+        <h3 className="text-lg font-semibold mb-4">{title}</h3>
+        {children}
+    </div>
+);
+
+const UsageTable: React.FC<{ series: UnitSeries }> = ({ series }) => (
+    <table className="w-full text-sm mt-4">
+        <thead>
+            <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                <th className="py-1 font-medium">Month</th>
+                <th className="py-1 font-medium text-right">{series.unit}</th>
+                <th className="py-1 font-medium text-right">Year over year</th>
+            </tr>
+        </thead>
+        <tbody>
+            {series.points.slice(-12).reverse().map(point => (
+                <tr key={point.key} className="border-b border-slate-100 dark:border-slate-700/50">
+                    <td className="py-1">{formatMonth(point.key)}</td>
+                    <td className="py-1 text-right font-mono">{point.value.toLocaleString()}</td>
+                    <td className={`py-1 text-right font-mono ${changeColor(point.yoyChange)}`}>{formatChange(point.yoyChange)}</td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+export const TrendDashboard: React.FC<TrendDashboardProps> = ({ historyRevision, onSelectBill, onClose }) => {
+    const [bills, setBills] = useState<BillData[] | null>(null);
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [selectedAccount, setSelectedAccount] = useState<string | null>(null);
+
+    useEffect(() => {
+        Promise.all([getAllBills(), listAccounts()])
+            .then(([loadedBills, loadedAccounts]) => {
+                setAccounts(loadedAccounts);
+                setBills(loadedBills);
+            })
+            .catch(error => setLoadError(error instanceof Error ? error.message : 'Failed to load bill history.'));
+    }, [historyRevision]);
+
+    const trends = useMemo(() => bills ? buildAccountTrends(bills, accounts) : [], [bills, accounts]);
+    const trend: AccountTrend | undefined = trends.find(t => t.accountKey === selectedAccount) ?? trends[0];
+
+    const header = (
+        <div className="flex justify-between items-center mb-6">
+            <div>
+                <h2 className="text-2xl font-bold">Trends</h2>
+                <p className="text-sm text-slate-500 dark:text-slate-400">Charges and usage across every saved bill for an account.</p>
+            </div>
+            <button onClick={onClose} className="text-sm font-semibold text-sky-600 dark:text-sky-400 hover:underline">Back</button>
+        </div>
+    );
+
+    if (loadError) {
+        return <div className="max-w-6xl mx-auto">{header}<p className="text-red-600 dark:text-red-400">{loadError}</p></div>;
+    }
+    if (!bills) {
+        return <div className="max-w-6xl mx-auto">{header}<p className="text-slate-500 dark:text-slate-400">Loading history...</p></div>;
+    }
+    if (!trend) {
+        return <div className="max-w-6xl mx-auto">{header}<p className="text-slate-500 dark:text-slate-400">Analyze a few bills to see trends here.</p></div>;
+    }
+
+    const latest = trend.charges[trend.charges.length - 1];
+    const chargeData = trend.charges.map(point => ({ month: formatMonth(point.key), total: point.total, billId: point.billId }));
+    const costUnits = Array.from(new Set(trend.costPerUnit.map(p => p.unit)));
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-6">
+            {header}
+
+            {trends.length > 1 && (
+                <select
+                    value={trend.accountKey}
+                    onChange={e => setSelectedAccount(e.target.value)}
+                    className="block w-full sm:w-auto px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm"
+                >
+                    {trends.map(t => (
+                        <option key={t.accountKey} value={t.accountKey}>{t.accountLabel} — {t.billCount} bill(s)</option>
+                    ))}
+                </select>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <StatCard label={`Latest charges (${formatMonth(latest.key)})`} value={`$${latest.total.toFixed(2)}`} change={latest.momChange} changeLabel="vs. previous bill" />
+                <StatCard label="Change vs. same month last year" value={formatChange(latest.yoyChange)} />
+                <StatCard label="Bills analyzed" value={String(trend.billCount)} />
+            </div>
+
+            <Panel title="Total Charges Over Time">
+                <div className="h-72 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart
+                            data={chargeData}
+                            margin={{ top: 5, right: 20, left: 0, bottom: 5 }}
+                            onClick={state => {
+                                const point = chargeData[Number(state?.activeTooltipIndex)];
+                                if (point) onSelectBill(point.billId);
+                            }}
+                        >
+                            <CartesianGrid strokeDasharray="3 3" stroke="rgba(128, 128, 128, 0.2)" />
+                            <XAxis dataKey="month" tick={AXIS_TICK} />
+                            <YAxis tick={AXIS_TICK} />
+                            <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => `$${value.toFixed(2)}`} />
+                            <Line type="monotone" dataKey="total" name="Total charges" stroke={COLORS[0]} strokeWidth={2} dot={{ r: 3 }} activeDot={{ r: 6, cursor: 'pointer' }} />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">Click a point to open that bill.</p>
+            </Panel>
+
+            {trend.usage.map(series => (
+                <Panel key={series.unit} title={`Usage (${series.unit})`}>
+                    <div className="h-72 w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={series.points.map(p => ({ month: formatMonth(p.key), value: p.value }))} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="rgba(128, 128, 128, 0.2)" />
+                                <XAxis dataKey="month" tick={AXIS_TICK} />
+                                <YAxis tick={AXIS_TICK} />
+                                <Tooltip contentStyle={TOOLTIP_STYLE} />
+                                <Line type="monotone" dataKey="value" name={series.unit} stroke={COLORS[1]} strokeWidth={2} dot={{ r: 2 }} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <UsageTable series={series} />
+                </Panel>
+            ))}
+
+            {costUnits.length > 0 && (
+                <Panel title="Cost per Unit">
+                    <div className="h-72 w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="rgba(128, 128, 128, 0.2)" />
+                                <XAxis dataKey="month" type="category" allowDuplicatedCategory={false} tick={AXIS_TICK} />
+                                <YAxis tick={AXIS_TICK} />
+                                <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => `$${value.toFixed(3)}`} />
+                                <Legend wrapperStyle={{ fontSize: "14px" }} />
+                                {costUnits.map((unit, index) => (
+                                    <Line
+                                        key={unit}
+                                        data={trend.costPerUnit.filter(p => p.unit === unit).map(p => ({ month: formatMonth(p.key), costPerUnit: p.costPerUnit }))}
+                                        type="monotone"
+                                        dataKey="costPerUnit"
+                                        name={`$ per ${unit}`}
+                                        stroke={COLORS[(index + 2) % COLORS.length]}
+                                        strokeWidth={2}
+                                    />
+                                ))}
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">Total charges divided by the usage of the billed month. Bills covering more than one unit are left out.</p>
+                </Panel>
+            )}
+        </div>
+    );
+};
@@ -18,7 +18,8 @@ esbuild.build({
     'react-dom/*',
     '@google/genai',
     'recharts',
-    'tesseract.js'
+    'tesseract.js',
+    'pdfjs-dist'
   ],
   define: {
     'process.env.API_KEY': JSON.stringify(process.env.API_KEY || ''),
@@ -34,5 +35,8 @@ if (!fs.existsSync('dist')) {
     fs.mkdirSync('dist');
 }
 fs.copyFileSync(path.join(__dirname, 'index.html'), path.join(__dirname, 'dist', 'index.html'));
+// The pdf.js worker is served with the app so PDFs open offline and on self-hosted installs.
+// It must be the same version as the pdfjs-dist entry in the importmap in index.html.
+fs.copyFileSync(require.resolve('pdfjs-dist/build/pdf.worker.min.mjs'), path.join(__dirname, 'dist', 'pdf.worker.min.mjs'));
 
 console.log('Build successful!');
\ No newline at end of file
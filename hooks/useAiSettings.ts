@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import type { AiSettings, AiProvider } from '../types';
+import type { AiSettings, EnsembleSettings } from '../types';
 
 const getInitialSettings = (): AiSettings => {
     try {
@@ -8,17 +8,44 @@ const getInitialSettings = (): AiSettings => {
             // FIX: Ensure the parsed settings don't contain the old geminiApiKey
             const parsed = JSON.parse(item);
             delete parsed.geminiApiKey;
-            return parsed;
+            return migrateSettings(parsed);
         }
     } catch (error) {
         console.warn('Error reading localStorage "aiSettings":', error);
     }
     
-    // Fallback to default values
+    // Fallback to default values. Provider defaults come from each provider's settings schema.
     return {
         provider: 'gemini',
-        ollamaUrl: 'http://localhost:11434',
-        ollamaModel: '',
+        providerSettings: {},
+    };
+};
+
+const readEnsemble = (raw: any): EnsembleSettings | undefined => {
+    if (!raw || typeof raw !== 'object' || !Array.isArray(raw.members)) return undefined;
+    return {
+        enabled: raw.enabled === true,
+        members: raw.members
+            .filter((member: any) => member && typeof member.provider === 'string')
+            .map((member: any) => ({ provider: member.provider, overrides: member.overrides && typeof member.overrides === 'object' ? member.overrides : {} })),
+    };
+};
+
+// Settings saved before the provider registry stored the Ollama fields at the top level.
+export const migrateSettings = (parsed: any): AiSettings => {
+    const providerSettings = parsed.providerSettings && typeof parsed.providerSettings === 'object' ? parsed.providerSettings : {};
+    if (parsed.ollamaUrl !== undefined || parsed.ollamaModel !== undefined) {
+        providerSettings.ollama = {
+            url: parsed.ollamaUrl ?? '',
+            model: parsed.ollamaModel ?? '',
+            ...providerSettings.ollama,
+        };
+    }
+    const ensemble = readEnsemble(parsed.ensemble);
+    return {
+        provider: typeof parsed.provider === 'string' ? parsed.provider : 'gemini',
+        providerSettings,
+        ...(ensemble ? { ensemble } : {}),
     };
 };
 
@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AiSettings, BillData, LogEntry, QueueItem } from '../types';
+import { analyzeBill } from '../services/aiService';
+import { readBillFile } from '../utils/files';
+
+type AddLogFn = (level: LogEntry['level'], message: string, payload?: any) => void;
+
+export const MAX_QUEUE_CONCURRENCY = 4;
+
+export interface AnalysisQueue {
+    items: QueueItem[];
+    concurrency: number;
+    setConcurrency: (concurrency: number) => void;
+    addFiles: (files: File[]) => void;
+    retry: (id: string) => void;
+    cancel: (id: string) => void;
+    cancelAll: () => void;
+    clearFinished: () => void;
+}
+
+/**
+ * Runs bill analyses in the background with a limited number of concurrent jobs.
+ * Every successful analysis is handed to `onBillAnalyzed` so it can be added to history.
+ */
+export const useAnalysisQueue = (
+    settings: AiSettings,
+    addLog: AddLogFn,
+    onBillAnalyzed: (bill: BillData) => void
+): AnalysisQueue => {
+    const [items, setItems] = useState<QueueItem[]>([]);
+    const [concurrency, setConcurrencyState] = useState(1);
+    // Each run of an item gets a token; cancelling or retrying bumps it so that a result
+    // arriving from a stale run is ignored.
+    const runTokens = useRef(new Map<string, number>());
+    // Aborting stops the item's OCR workers and model requests rather than letting them finish unseen.
+    const controllers = useRef(new Map<string, AbortController>());
+
+    const updateItem = useCallback((id: string, changes: Partial<QueueItem>) => {
+        setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+    }, []);
+
+    const bumpToken = (id: string): number => {
+        const token = (runTokens.current.get(id) ?? 0) + 1;
+        runTokens.current.set(id, token);
+        controllers.current.get(id)?.abort();
+        controllers.current.delete(id);
+        return token;
+    };
+
+    const processItem = useCallback(async (item: QueueItem, token: number) => {
+        const itemLog: AddLogFn = (level, message, payload) => addLog(level, `[${item.fileName}] ${message}`, payload);
+        const isStale = () => runTokens.current.get(item.id) !== token;
+        const controller = new AbortController();
+        controllers.current.set(item.id, controller);
+
+        try {
+            const pages = await readBillFile(item.file, itemLog);
+            const { parsedData, rawResponse } = await analyzeBill(pages, settings, itemLog, controller.signal);
+            if (isStale()) return;
+
+            const newBill: BillData = {
+                ...parsedData,
+                id: `bill-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+                analyzedAt: new Date().toISOString(),
+                rawResponse: rawResponse,
+            };
+            onBillAnalyzed(newBill);
+            updateItem(item.id, { status: 'done', billId: newBill.id });
+            itemLog('INFO', 'Batch item analyzed successfully.');
+        } catch (err) {
+            if (isStale()) return;
+            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred during analysis.";
+            updateItem(item.id, { status: 'failed', error: errorMessage });
+            itemLog('ERROR', `Batch item failed: ${errorMessage}`, err);
+        } finally {
+            if (controllers.current.get(item.id) === controller) controllers.current.delete(item.id);
+        }
+    }, [settings, addLog, onBillAnalyzed, updateItem]);
+
+    // Start pending items whenever a slot frees up.
+    useEffect(() => {
+        const running = items.filter(item => item.status === 'running').length;
+        const next = items.filter(item => item.status === 'pending').slice(0, Math.max(0, concurrency - running));
+        if (next.length === 0) return;
+
+        const nextIds = new Set(next.map(item => item.id));
+        setItems(prev => prev.map(item => nextIds.has(item.id) ? { ...item, status: 'running', error: undefined } : item));
+        next.forEach(item => {
+            void processItem(item, bumpToken(item.id));
+        });
+    }, [items, concurrency, processItem]);
+
+    const addFiles = useCallback((files: File[]) => {
+        if (files.length === 0) return;
+        const newItems: QueueItem[] = files.map((file, index) => ({
+            id: `queue-${Date.now()}-${index}`,
+            file,
+            fileName: file.webkitRelativePath || file.name,
+            status: 'pending',
+        }));
+        setItems(prev => [...prev, ...newItems]);
+        addLog('INFO', `Added ${newItems.length} file(s) to the batch queue.`);
+    }, [addLog]);
+
+    const retry = useCallback((id: string) => {
+        bumpToken(id);
+        setItems(prev => prev.map(item =>
+            item.id === id && (item.status === 'failed' || item.status === 'cancelled')
+                ? { ...item, status: 'pending', error: undefined }
+                : item
+        ));
+    }, []);
+
+    const cancel = useCallback((id: string) => {
+        bumpToken(id);
+        setItems(prev => prev.map(item =>
+            item.id === id && (item.status === 'pending' || item.status === 'running')
+                ? { ...item, status: 'cancelled' }
+                : item
+        ));
+    }, []);
+
+    const cancelAll = useCallback(() => {
+        // Aborted here rather than in the updater below, which React may call twice.
+        const isActive = (item: QueueItem) => item.status === 'pending' || item.status === 'running';
+        items.filter(isActive).forEach(item => bumpToken(item.id));
+        setItems(prev => prev.map(item => isActive(item) ? { ...item, status: 'cancelled' } : item));
+        addLog('INFO', 'Batch queue cancelled.');
+    }, [items, addLog]);
+
+    const clearFinished = useCallback(() => {
+        setItems(prev => prev.filter(item => item.status === 'pending' || item.status === 'running'));
+    }, []);
+
+    const setConcurrency = useCallback((value: number) => {
+        setConcurrencyState(Math.min(MAX_QUEUE_CONCURRENCY, Math.max(1, Math.round(value))));
+    }, []);
+
+    return { items, concurrency, setConcurrency, addFiles, retry, cancel, cancelAll, clearFinished };
+};
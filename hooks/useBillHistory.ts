@@ -0,0 +1,211 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Account, BillData, LogEntry } from '../types';
+import * as billStore from '../services/billStore';
+import { getAccountLabel } from '../utils/accounts';
+
+type AddLogFn = (level: LogEntry['level'], message: string, payload?: any) => void;
+
+const PAGE_SIZE = 20;
+
+export interface AccountGroup {
+    account: Account;
+    billCount: number;
+    /** Loaded bills, newest first. Source images are not included; use `getBill` for those. */
+    bills: BillData[];
+    hasMore: boolean;
+}
+
+export interface BillHistory {
+    groups: AccountGroup[];
+    total: number;
+    /** Ids of saved bills that look like the same statement as another saved bill. */
+    duplicateIds: Set<string>;
+    isLoading: boolean;
+    /** Changes whenever saved bills or accounts change, so views that read the store directly can reload. */
+    revision: number;
+    /** Loads the next page of an account's bills. */
+    loadMore: (accountId: string) => void;
+    /** Reloads accounts and drops the loaded bills, e.g. after an import. */
+    reload: () => void;
+    getBill: (id: string) => Promise<BillData | null>;
+    /** Saves a new or edited bill and returns it with its account assigned. */
+    saveBill: (bill: BillData) => Promise<BillData | null>;
+    deleteBill: (id: string) => Promise<void>;
+    /** Saved bills that look like the same statement as `bill`. */
+    findDuplicates: (bill: BillData) => Promise<BillData[]>;
+    updateAccount: (account: Account) => Promise<void>;
+    mergeAccounts: (targetId: string, sourceIds: string[]) => Promise<void>;
+}
+
+const withoutImages = ({ sourceImages, ...bill }: BillData): BillData => bill;
+
+/**
+ * Bill history grouped by account. Accounts are always loaded (there are few of them); each
+ * account's bills are paged in on demand, so a large history costs nothing until it is opened.
+ */
+export const useBillHistory = (addLog: AddLogFn): BillHistory => {
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [counts, setCounts] = useState<Record<string, number>>({});
+    const [duplicateIds, setDuplicateIds] = useState<Set<string>>(new Set());
+    const [billsByAccount, setBillsByAccount] = useState<Record<string, BillData[]>>({});
+    const [isLoading, setIsLoading] = useState(false);
+    const [revision, setRevision] = useState(0);
+    const billsRef = useRef(billsByAccount);
+    const loadingAccounts = useRef(new Set<string>());
+
+    useEffect(() => {
+        billsRef.current = billsByAccount;
+    }, [billsByAccount]);
+
+    const refreshAccounts = useCallback(async () => {
+        const [loadedAccounts, loadedCounts, loadedDuplicates] = await Promise.all([
+            billStore.listAccounts(),
+            billStore.countBillsByAccount(),
+            billStore.listDuplicateIds(),
+        ]);
+        setAccounts(loadedAccounts);
+        setCounts(loadedCounts);
+        setDuplicateIds(loadedDuplicates);
+        setRevision(r => r + 1);
+    }, []);
+
+    const reload = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setBillsByAccount({});
+            await refreshAccounts();
+        } catch (error) {
+            addLog('ERROR', 'Failed to load bill history.', error);
+            console.error("Failed to load bill history", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [addLog, refreshAccounts]);
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    const loadMore = useCallback(async (accountId: string) => {
+        if (loadingAccounts.current.has(accountId)) return;
+        loadingAccounts.current.add(accountId);
+        try {
+            const loaded = billsRef.current[accountId] ?? [];
+            const page = await billStore.listBillsByAccount(accountId, loaded.length, PAGE_SIZE);
+            setBillsByAccount(prev => {
+                const existing = prev[accountId] ?? [];
+                return { ...prev, [accountId]: [...existing, ...page.filter(bill => !existing.some(b => b.id === bill.id))] };
+            });
+        } catch (error) {
+            addLog('ERROR', 'Failed to load bills for the account.', error);
+            console.error("Failed to load bills for account", error);
+        } finally {
+            loadingAccounts.current.delete(accountId);
+        }
+    }, [addLog]);
+
+    const saveBill = useCallback(async (bill: BillData) => {
+        try {
+            const saved = await billStore.saveBill(bill);
+            const accountId = saved.accountId!;
+            setBillsByAccount(prev => {
+                const next: Record<string, BillData[]> = {};
+                for (const [id, bills] of Object.entries(prev)) {
+                    next[id] = bills.filter(b => b.id !== saved.id);
+                }
+                // Only lists that have been opened are updated; the others load it when opened.
+                if (prev[accountId]) {
+                    next[accountId] = prev[accountId].some(b => b.id === saved.id)
+                        ? prev[accountId].map(b => b.id === saved.id ? withoutImages(saved) : b)
+                        : [withoutImages(saved), ...next[accountId]];
+                }
+                return next;
+            });
+            await refreshAccounts();
+            return saved;
+        } catch (error) {
+            addLog('ERROR', 'Failed to save the bill to history.', error);
+            console.error("Failed to save bill to history", error);
+            return null;
+        }
+    }, [addLog, refreshAccounts]);
+
+    const deleteBill = useCallback(async (id: string) => {
+        try {
+            await billStore.deleteBill(id);
+            setBillsByAccount(prev => Object.fromEntries(Object.entries(prev).map(([accountId, bills]) => [accountId, bills.filter(b => b.id !== id)])));
+            await refreshAccounts();
+        } catch (error) {
+            addLog('ERROR', 'Failed to delete the bill from history.', error);
+            console.error("Failed to delete bill from history", error);
+        }
+    }, [addLog, refreshAccounts]);
+
+    const getBill = useCallback(async (id: string) => {
+        try {
+            return await billStore.getBill(id);
+        } catch (error) {
+            addLog('ERROR', 'Failed to load the bill from history.', error);
+            console.error("Failed to load bill from history", error);
+            return null;
+        }
+    }, [addLog]);
+
+    const findDuplicates = useCallback(async (bill: BillData) => {
+        try {
+            return await billStore.findDuplicates(bill);
+        } catch (error) {
+            addLog('ERROR', 'Failed to check the history for duplicates.', error);
+            console.error("Failed to check history for duplicates", error);
+            return [];
+        }
+    }, [addLog]);
+
+    const updateAccount = useCallback(async (account: Account) => {
+        try {
+            await billStore.saveAccount(account);
+            setAccounts(prev => prev.map(a => a.id === account.id ? account : a));
+        } catch (error) {
+            addLog('ERROR', 'Failed to save the account.', error);
+            console.error("Failed to save account", error);
+        }
+    }, [addLog]);
+
+    const mergeAccounts = useCallback(async (targetId: string, sourceIds: string[]) => {
+        try {
+            const merged = await billStore.mergeAccounts(targetId, sourceIds);
+            addLog('INFO', `Merged ${sourceIds.length} account(s) into ${getAccountLabel(merged)}.`, merged);
+            // The bill lists involved are stale; drop them so they reload when opened.
+            setBillsByAccount(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== targetId && !sourceIds.includes(id))));
+            await refreshAccounts();
+        } catch (error) {
+            addLog('ERROR', 'Failed to merge accounts.', error);
+            console.error("Failed to merge accounts", error);
+        }
+    }, [addLog, refreshAccounts]);
+
+    const groups: AccountGroup[] = accounts
+        .filter(account => (counts[account.id] ?? 0) > 0)
+        .map(account => {
+            const bills = billsByAccount[account.id] ?? [];
+            const billCount = counts[account.id] ?? 0;
+            return { account, billCount, bills, hasMore: bills.length < billCount };
+        })
+        .sort((a, b) => getAccountLabel(a.account).localeCompare(getAccountLabel(b.account)));
+
+    return {
+        groups,
+        total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+        duplicateIds,
+        isLoading,
+        revision,
+        loadMore,
+        reload,
+        getBill,
+        saveBill,
+        deleteBill,
+        findDuplicates,
+        updateAccount,
+        mergeAccounts,
+    };
+};
@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react';
+import type { CustomPrompt } from '../types';
+import { setCustomPrompts } from '../prompts';
+
+const STORAGE_KEY = 'promptLibrary';
+
+/** The well-formed custom prompts in `raw`, e.g. from storage or a backup file. */
+export const readCustomPrompts = (raw: any): CustomPrompt[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.filter((prompt: any) =>
+        prompt && typeof prompt.id === 'string' && typeof prompt.label === 'string'
+        && (prompt.kind === 'bill' || prompt.kind === 'fusion')
+        && Array.isArray(prompt.versions) && prompt.versions.length > 0
+        && prompt.versions.every((v: any) => typeof v?.version === 'number' && typeof v.template === 'string'));
+};
+
+const getInitialPrompts = (): CustomPrompt[] => {
+    let prompts: CustomPrompt[] = [];
+    try {
+        const item = window.localStorage.getItem(STORAGE_KEY);
+        if (item) prompts = readCustomPrompts(JSON.parse(item));
+    } catch (error) {
+        console.warn(`Error reading localStorage "${STORAGE_KEY}":`, error);
+    }
+    // Registered right away so analyses started before the first render effect use them.
+    setCustomPrompts(prompts);
+    return prompts;
+};
+
+// The prompts cloned and edited in the Prompt Library. They are kept apart from the AI settings
+// so providers can refer to them by id and an edit applies to every provider using the prompt.
+export const usePromptLibrary = (): [CustomPrompt[], (prompts: CustomPrompt[]) => void] => {
+    const [prompts, setPrompts] = useState<CustomPrompt[]>(getInitialPrompts);
+
+    useEffect(() => {
+        try {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify(prompts));
+        } catch (error) {
+            console.warn(`Error setting localStorage "${STORAGE_KEY}":`, error);
+        }
+    }, [prompts]);
+
+    const savePrompts = (next: CustomPrompt[]) => {
+        setCustomPrompts(next);
+        setPrompts(next);
+    };
+
+    return [prompts, savePrompts];
+};
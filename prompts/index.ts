@@ -0,0 +1,101 @@
+import type { CustomPrompt, PromptKind, PromptVersion, PromptVersionRef } from '../types';
+import * as promptV1 from './prompt_v1';
+import * as promptV2 from './prompt_v2';
+import * as promptOcrHybrid from './prompt_ocr_hybrid';
+import * as promptOllamaFusion from './prompt_ollama_fusion';
+
+// The prompt library: the built-in prompts in this folder plus prompts cloned and edited in the
+// app. Prompts are templates; {{ocrText}} is replaced with the bill's OCR text and {{chartJson}}
+// with the chart engine's readings (fusion prompts only). Prompts that use the OCR text get the
+// bill's OCR output; the others only see the images.
+
+export const OCR_TEXT_PLACEHOLDER = '{{ocrText}}';
+export const CHART_JSON_PLACEHOLDER = '{{chartJson}}';
+
+export interface PromptDefinition {
+    id: string;
+    label: string;
+    kind: PromptKind;
+    builtIn: boolean;
+    version: number;
+    usesOcr: boolean;
+    schema: typeof promptV2.billSchema;
+    template: string;
+}
+
+const builtIn = (id: string, label: string, kind: PromptKind, schema: PromptDefinition['schema'], template: string): PromptDefinition =>
+    ({ id, label, kind, builtIn: true, version: 1, usesOcr: template.includes(OCR_TEXT_PLACEHOLDER), schema, template });
+
+export const BUILT_IN_PROMPTS: PromptDefinition[] = [
+    builtIn('prompt_v2', 'v2 (image only)', 'bill', promptV2.billSchema, promptV2.prompt),
+    builtIn('prompt_v1', 'v1 (original, image only)', 'bill', promptV1.billSchema, promptV1.prompt),
+    builtIn('prompt_ocr_hybrid', 'OCR hybrid (image and OCR text)', 'bill', promptOcrHybrid.billSchema, promptOcrHybrid.prompt(OCR_TEXT_PLACEHOLDER)),
+    // The fusion pass asks for the v2 fields.
+    builtIn('prompt_ollama_fusion', 'Multi-pass fusion', 'fusion', promptV2.billSchema, promptOllamaFusion.prompt(OCR_TEXT_PLACEHOLDER, CHART_JSON_PLACEHOLDER)),
+];
+
+export const DEFAULT_PROMPT_ID = 'prompt_v2';
+export const DEFAULT_FUSION_PROMPT_ID = 'prompt_ollama_fusion';
+
+const DEFAULT_PROMPT_IDS: Record<PromptKind, string> = { bill: DEFAULT_PROMPT_ID, fusion: DEFAULT_FUSION_PROMPT_ID };
+
+// --- Custom Prompts ---
+
+// Set by the app from its saved library (see hooks/usePromptLibrary.ts).
+let customPrompts: CustomPrompt[] = [];
+
+export const setCustomPrompts = (prompts: CustomPrompt[]): void => {
+    customPrompts = prompts;
+};
+
+const resolveCustomPrompt = (prompt: CustomPrompt): PromptDefinition => {
+    const latest = prompt.versions[prompt.versions.length - 1];
+    const base = BUILT_IN_PROMPTS.find(p => p.id === prompt.basedOn) ?? BUILT_IN_PROMPTS.find(p => p.id === DEFAULT_PROMPT_IDS[prompt.kind])!;
+    return {
+        id: prompt.id,
+        label: prompt.label,
+        kind: prompt.kind,
+        builtIn: false,
+        version: latest.version,
+        usesOcr: latest.template.includes(OCR_TEXT_PLACEHOLDER),
+        schema: base.schema,
+        template: latest.template,
+    };
+};
+
+/** Built-in prompts first, then custom ones, optionally only those of one kind. */
+export const listPrompts = (kind?: PromptKind): PromptDefinition[] =>
+    [...BUILT_IN_PROMPTS, ...customPrompts.filter(p => p.versions.length > 0).map(resolveCustomPrompt)]
+        .filter(p => !kind || p.kind === kind);
+
+/** The prompt with this id, or the default of its kind when there is none (e.g. a deleted custom prompt). */
+export const getPrompt = (id?: string, kind: PromptKind = 'bill'): PromptDefinition => {
+    const prompts = listPrompts(kind);
+    return prompts.find(p => p.id === id) ?? prompts.find(p => p.id === DEFAULT_PROMPT_IDS[kind])!;
+};
+
+export const renderPrompt = (prompt: PromptDefinition, values: { ocrText?: string; chartJson?: string }): string =>
+    prompt.template.replace(/\{\{(ocrText|chartJson)\}\}/g, (_, key: 'ocrText' | 'chartJson') => values[key] ?? '');
+
+export const toPromptVersionRef = (prompt: PromptDefinition): PromptVersionRef =>
+    ({ id: prompt.id, label: prompt.label, version: prompt.version });
+
+// --- Editing ---
+
+const newVersion = (version: number, template: string, note?: string): PromptVersion =>
+    ({ version, template, createdAt: new Date().toISOString(), ...(note ? { note } : {}) });
+
+/** Copies a prompt (built-in or custom, at its current version) into a new custom prompt. */
+export const clonePrompt = (source: PromptDefinition, label: string): CustomPrompt => ({
+    id: `custom-${Date.now()}`,
+    label,
+    kind: source.kind,
+    basedOn: source.builtIn ? source.id : customPrompts.find(p => p.id === source.id)?.basedOn ?? DEFAULT_PROMPT_IDS[source.kind],
+    versions: [newVersion(1, source.template, `Cloned from ${source.label}${source.builtIn ? '' : ` v${source.version}`}`)],
+});
+
+/** Adds a version to a custom prompt; earlier versions are kept so they can be restored. */
+export const addPromptVersion = (prompt: CustomPrompt, template: string, note?: string): CustomPrompt => {
+    const last = prompt.versions[prompt.versions.length - 1];
+    return { ...prompt, versions: [...prompt.versions, newVersion((last?.version ?? 0) + 1, template, note)] };
+};
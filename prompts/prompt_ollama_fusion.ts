@@ -0,0 +1,22 @@
+// The prompt for the last pass of Ollama's Multi-Pass Fusion Framework: the model gets the OCR
+// text and the chart engine's readings rather than having to read the image itself.
+
+export const prompt = (ocrText: string, chartJson: string) => `You are a data structuring expert. You are given raw OCR text from a utility bill and a perfectly pre-analyzed JSON object for the bill's usage chart(s). Your job is to combine this information to produce a single, final JSON object that conforms to the provided schema.
+
+- The bill may span several pages. The OCR text marks each page (e.g. '=== Page 2 ==='). Treat all pages as ONE bill and combine their line items into a single list.
+- Prioritize the raw OCR text for extracting account details, dates, and line items.
+- The OCR text may contain errors. Use your reasoning to correct them (e.g., misread numbers, garbled text).
+- Use the pre-analyzed chart JSON directly for the 'usageCharts' field. The values in this JSON are programmatically generated and 100% accurate. Do not try to re-analyze the chart from the image or text.
+- Based on the statement date found in the OCR text, you MUST update any placeholder years (like 'YYYY') in the provided chart data to the correct year(s). The chart data typically shows usage for the past 12-13 months, so reason about the correct calendar years for the given months. For dual-bar charts, the legend in the text/image will tell you which years are represented.
+- Your entire response MUST be a single, raw JSON object. Do not include any other text or markdown.
+
+**Raw OCR Text:**
+---
+${ocrText}
+---
+
+**Pre-analyzed Usage Chart JSON (Use this directly):**
+---
+${chartJson}
+---
+`;
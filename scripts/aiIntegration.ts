@@ -0,0 +1,498 @@
+import assert from 'assert/strict';
+import type { AiSettings, AnalysisProgress, EnsembleMember, LogEntry, ProviderConfig } from '../types';
+import { analyzeBill, getProvider } from '../services/aiService';
+import { hasCachedOcr, runOcrWithWords } from '../services/aiCommon';
+import { addPromptVersion, clonePrompt, getPrompt, setCustomPrompts } from '../prompts';
+import { SCENARIOS, startMockAiServer, type MockAiServer } from './lib/mockAiServer';
+import { encodePng } from './lib/png';
+import { FAKE_OCR_TEXT } from './lib/fakeTesseract';
+
+// Runs the providers end to end against the mock AI server: request shape, response
+// sanitizing and post-processing, self-correction and the error messages users see.
+//
+//   npm run ai:integration -- [--only name] [--verbose]
+//
+// The build swaps tesseract.js for scripts/lib/fakeTesseract.ts, so the OCR passes return fixed
+// text instead of downloading language data. Canvas-based steps (chart pixels, image hash) fail
+// in Node and are logged and skipped, as they would be on any error.
+
+interface Check {
+    name: string;
+    scenario: keyof typeof SCENARIOS;
+    run: (server: MockAiServer, addLog: (level: LogEntry['level'], message: string) => void) => Promise<void>;
+}
+
+// A blank 8x8 page; the mock server never looks at it.
+const PAGE = `data:image/png;base64,${encodePng({ width: 8, height: 8, data: new Uint8ClampedArray(8 * 8 * 4).fill(255) }).toString('base64')}`;
+
+const ollamaSettings = (url: string, overrides: ProviderConfig = {}): AiSettings => ({
+    provider: 'ollama',
+    providerSettings: { ollama: { url, model: 'mock-vision:latest', correctionRetries: '1', ...overrides } },
+});
+
+const geminiSettings = (overrides: ProviderConfig = {}): AiSettings => ({
+    provider: 'gemini',
+    providerSettings: { gemini: { model: 'gemini-2.5-flash', correctionRetries: '1', ...overrides } },
+});
+
+// Self-correction is off so every member makes exactly one request.
+const ensembleSettings = (url: string, members: EnsembleMember[]): AiSettings => ({
+    provider: 'ollama',
+    providerSettings: {
+        ollama: { url, model: 'mock-vision:latest', correctionRetries: '0' },
+        gemini: { model: 'gemini-2.5-flash', correctionRetries: '0' },
+    },
+    ensemble: { enabled: true, members },
+});
+
+const chatRequests = (server: MockAiServer) => server.requests.filter(r => r.method === 'POST');
+
+const CONNECTION_ERROR = /Could not connect to the Ollama server/;
+
+const CHECKS: Check[] = [
+    {
+        name: 'ollama-valid', scenario: 'valid',
+        run: async (server, addLog) => {
+            const { parsedData } = await analyzeBill([PAGE], ollamaSettings(server.url), addLog);
+            assert.equal(parsedData.accountNumber, '4411-2290-7');
+            assert.equal(parsedData.totalCurrentCharges, 123.45);
+            assert.equal(parsedData.lineItems.length, 2);
+            assert.deepEqual(parsedData.validationWarnings, []);
+            const [request] = chatRequests(server);
+            assert.equal(request.path, '/api/chat');
+            assert.equal(request.body.format, 'json');
+            assert.equal(request.body.stream, true);
+            assert.match(request.body.messages[0].content, /Account Number 4411-2290-7/, 'the OCR text reaches the fusion prompt');
+            assert.ok(!request.body.messages[1].images[0].startsWith('data:'), 'images are sent as bare base64');
+            assert.deepEqual(parsedData.promptVersion, { id: 'prompt_ollama_fusion', label: 'Multi-pass fusion', version: 1 });
+        },
+    },
+    {
+        name: 'ollama-custom-fusion-prompt', scenario: 'valid',
+        run: async (server, addLog) => {
+            const clone = clonePrompt(getPrompt(undefined, 'fusion'), 'Terse fusion');
+            const edited = addPromptVersion(clone, 'Bill text:\n{{ocrText}}\nCharts:\n{{chartJson}}\nAnswer in JSON.', 'shorter');
+            setCustomPrompts([edited]);
+            try {
+                const { parsedData } = await analyzeBill([PAGE], ollamaSettings(server.url, { prompt: edited.id }), addLog);
+                const [request] = chatRequests(server);
+                assert.match(request.body.messages[0].content, /^Bill text:\n[\s\S]*Account Number 4411-2290-7[\s\S]*\nCharts:\n\[\]\nAnswer in JSON\.$/, 'the placeholders are filled in');
+                assert.deepEqual(parsedData.promptVersion, { id: edited.id, label: 'Terse fusion', version: 2 });
+            } finally {
+                setCustomPrompts([]);
+            }
+        },
+    },
+    {
+        name: 'ollama-streaming-progress', scenario: 'slow-stream',
+        run: async (server, addLog) => {
+            const logs: string[] = [];
+            const updates: AnalysisProgress[] = [];
+            const log = (level: LogEntry['level'], message: string) => { logs.push(message); addLog(level, message); };
+            const { parsedData } = await analyzeBill([PAGE], ollamaSettings(server.url), log, undefined, update => updates.push(update));
+            assert.equal(parsedData.accountNumber, '4411-2290-7');
+
+            const fusion = updates.filter(u => u.pass === 'fusion');
+            const partial = fusion.filter(u => u.percent !== undefined && u.percent < 100 && u.partialData?.accountNumber);
+            assert.ok(partial.length > 0, 'fields arrive before the response is complete');
+            assert.equal(partial[0].partialData?.totalCurrentCharges, undefined, 'fields the model has not finished are left out');
+            const percents = fusion.map(u => u.percent ?? 0);
+            assert.deepEqual(percents, [...percents].sort((a, b) => a - b), 'fusion progress never goes backwards');
+            assert.equal(fusion[fusion.length - 1].percent, 100);
+            assert.match(fusion[fusion.length - 1].detail ?? '', /tokens\/s/);
+            for (const pass of ['ocr', 'charts', 'locate']) {
+                assert.equal(updates.filter(u => u.pass === pass).pop()?.percent, 100, `the ${pass} pass completes`);
+            }
+            assert.ok(logs.some(m => /Ollama generated \d+ tokens in [\d.]+s \([\d.]+ tokens\/s\)\. Prompt: 512 tokens/.test(m)), 'token statistics are logged');
+        },
+    },
+    {
+        name: 'ollama-snake-case', scenario: 'snake-case',
+        run: async (server, addLog) => {
+            const { parsedData } = await analyzeBill([PAGE], ollamaSettings(server.url), addLog);
+            assert.equal(parsedData.accountName, 'Jordan Example');
+            assert.equal(parsedData.accountNumber, '4411-2290-7');
+            assert.equal(parsedData.statementDate, '2024-03-04');
+            assert.equal(parsedData.dueDate, '2024-03-25');
+            assert.equal(parsedData.totalCurrentCharges, 123.45, 'string amounts are parsed');
+            assert.deepEqual(parsedData.lineItems.map(i => i.amount), [100, 23.45]);
+            assert.equal(parsedData.confidenceScore, 0.8);
+            assert.deepEqual(parsedData.usageCharts[0].data, [
+                { month: 'Jan', usage: [{ year: '2024', value: 512 }] },
+                { month: 'Feb', usage: [{ year: '2024', value: 488 }] },
+            ], 'flat chart points are grouped by month');
+        },
+    },
+    {
+        name: 'ollama-properties-wrapped', scenario: 'properties-wrapped',
+        run: async (server, addLog) => {
+            const { parsedData } = await analyzeBill([PAGE], ollamaSettings(server.url), addLog);
+            assert.equal(parsedData.accountNumber, '4411-2290-7');
+            assert.equal(parsedData.lineItems.length, 2);
+            assert.equal(parsedData.usageCharts[0].unit, 'kWh');
+        },
+    },
+    {
+        name: 'ollama-self-correction', scenario: 'malformed-then-valid',
+        run: async (server, addLog) => {
+            const { parsedData } = await analyzeBill([PAGE], ollamaSettings(server.url), addLog);
+            assert.equal(parsedData.accountNumber, '4411-2290-7');
+            const requests = chatRequests(server);
+            assert.equal(requests.length, 2);
+            const messages = requests[1].body.messages;
+            assert.equal(messages[messages.length - 2].role, 'assistant');
+            assert.match(messages[messages.length - 1].content, /not valid JSON/);
+        },
+    },
+    {
+        name: 'ollama-malformed', scenario: 'malformed',
+        run: async (server, addLog) => {
+            await assert.rejects(analyzeBill([PAGE], ollamaSettings(server.url), addLog), /Ollama returned invalid JSON/);
+            assert.equal(chatRequests(server).length, 2, 'one correction attempt');
+        },
+    },
+    {
+        name: 'ollama-no-retries', scenario: 'malformed',
+        run: async (server, addLog) => {
+            await assert.rejects(analyzeBill([PAGE], ollamaSettings(server.url, { correctionRetries: '0' }), addLog), /Ollama returned invalid JSON/);
+            assert.equal(chatRequests(server).length, 1);
+        },
+    },
+    {
+        name: 'ollama-http-error', scenario: 'server-error',
+        run: async (server, addLog) => {
+            await assert.rejects(analyzeBill([PAGE], ollamaSettings(server.url), addLog), /API Error \(500\): Internal Server Error/);
+        },
+    },
+    {
+        name: 'ollama-html-error-page', scenario: 'html-gateway-error',
+        run: async (server, addLog) => {
+            await assert.rejects(analyzeBill([PAGE], ollamaSettings(server.url), addLog), (error: Error) => {
+                assert.match(error.message, /API Error \(502\): Bad Gateway\. The server responded: <html> <head><title>502 Bad Gateway/);
+                assert.doesNotMatch(error.message, /invalid JSON/);
+                return true;
+            });
+            const result = await getProvider('ollama')!.testConnection({ url: server.url }, addLog);
+            assert.match(result.message, /API Error \(502\)/);
+        },
+    },
+    {
+        name: 'ollama-dropped-connection', scenario: 'timeout',
+        run: async (server, addLog) => {
+            await assert.rejects(analyzeBill([PAGE], ollamaSettings(server.url), addLog), CONNECTION_ERROR);
+        },
+    },
+    {
+        name: 'ollama-unreachable', scenario: 'valid',
+        run: async (_server, addLog) => {
+            // Port 9 (discard) is closed on any normal machine.
+            await assert.rejects(analyzeBill([PAGE], ollamaSettings('http://127.0.0.1:9'), addLog), CONNECTION_ERROR);
+        },
+    },
+    {
+        name: 'ollama-invalid-url', scenario: 'valid',
+        run: async (_server, addLog) => {
+            await assert.rejects(analyzeBill([PAGE], ollamaSettings('localhost:11434'), addLog), /The Ollama URL "localhost:11434" is invalid/);
+        },
+    },
+    {
+        name: 'ollama-request-timeout', scenario: 'hang',
+        run: async (server, addLog) => {
+            await assert.rejects(analyzeBill([PAGE], ollamaSettings(server.url, { requestTimeout: '0.5' }), addLog), /did not respond within 0\.5 seconds/);
+        },
+    },
+    {
+        name: 'ollama-cancel', scenario: 'hang',
+        run: async (server, addLog) => {
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 300);
+            await assert.rejects(analyzeBill([PAGE], ollamaSettings(server.url), addLog, controller.signal), { name: 'AbortError' });
+            assert.equal(chatRequests(server).length, 1);
+        },
+    },
+    {
+        name: 'ollama-stream-stall-timeout', scenario: 'stream-stall',
+        run: async (server, addLog) => {
+            await assert.rejects(analyzeBill([PAGE], ollamaSettings(server.url, { requestTimeout: '0.5' }), addLog), /did not respond within 0\.5 seconds/);
+        },
+    },
+    {
+        name: 'ollama-cancel-while-streaming', scenario: 'stream-stall',
+        run: async (server, addLog) => {
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 300);
+            await assert.rejects(analyzeBill([PAGE], ollamaSettings(server.url), addLog, controller.signal), { name: 'AbortError' });
+        },
+    },
+    {
+        name: 'ollama-cancelled-before-start', scenario: 'valid',
+        run: async (server, addLog) => {
+            const controller = new AbortController();
+            controller.abort();
+            await assert.rejects(analyzeBill([PAGE], ollamaSettings(server.url), addLog, controller.signal), { name: 'AbortError' });
+            assert.equal(server.requests.length, 0);
+        },
+    },
+    {
+        name: 'ollama-models', scenario: 'valid',
+        run: async (server, addLog) => {
+            const ollama = getProvider('ollama')!;
+            const config = { url: server.url };
+            assert.deepEqual(await ollama.listModels(config, addLog), [{ id: 'mock-vision:latest' }, { id: 'mock-text:latest' }]);
+            assert.deepEqual(await ollama.testConnection(config, addLog), { ok: true, message: 'Connection successful. Found 2 models.' });
+        },
+    },
+    {
+        name: 'ollama-no-models', scenario: 'no-models',
+        run: async (server, addLog) => {
+            const result = await getProvider('ollama')!.testConnection({ url: server.url }, addLog);
+            assert.equal(result.ok, false);
+            assert.match(result.message, /no models found/);
+        },
+    },
+    {
+        name: 'ollama-tags-error', scenario: 'tags-error',
+        run: async (server, addLog) => {
+            const result = await getProvider('ollama')!.testConnection({ url: server.url }, addLog);
+            assert.equal(result.ok, false);
+            assert.match(result.message, /API Error \(404\): Not Found\. The server responded: not found/);
+        },
+    },
+    {
+        name: 'ollama-tags-html', scenario: 'html-login-page',
+        run: async (server, addLog) => {
+            const result = await getProvider('ollama')!.testConnection({ url: server.url }, addLog);
+            assert.equal(result.ok, false);
+            assert.match(result.message, /not JSON \(HTTP 200, text\/html\).*Please sign in/);
+        },
+    },
+    {
+        name: 'gemini-snake-case', scenario: 'snake-case',
+        run: async (server, addLog) => {
+            const { parsedData } = await analyzeBill([PAGE], geminiSettings(), addLog);
+            assert.equal(parsedData.accountNumber, '4411-2290-7');
+            assert.equal(parsedData.totalCurrentCharges, 123.45);
+            assert.deepEqual(parsedData.lineItems.map(i => i.amount), [100, 23.45]);
+            const [request] = chatRequests(server);
+            assert.match(request.path, /\/models\/gemini-2\.5-flash:generateContent$/);
+            assert.equal(request.body.generationConfig.responseMimeType, 'application/json');
+        },
+    },
+    {
+        name: 'gemini-custom-prompt', scenario: 'valid',
+        run: async (server, addLog) => {
+            // A prompt cloned from an image-only one runs OCR once it asks for the bill text.
+            const prompt = addPromptVersion(clonePrompt(getPrompt('prompt_v2'), 'With text'), 'Read this bill. Its text is:\n{{ocrText}}');
+            setCustomPrompts([prompt]);
+            try {
+                const { parsedData } = await analyzeBill([PAGE], geminiSettings({ prompt: prompt.id }), addLog);
+                const [request] = chatRequests(server);
+                assert.match(request.body.contents[0].parts[0].text, /^Read this bill\. Its text is:\n[\s\S]*Account Number 4411-2290-7/);
+                assert.deepEqual(parsedData.promptVersion, { id: prompt.id, label: 'With text', version: 2 });
+            } finally {
+                setCustomPrompts([]);
+            }
+            const { parsedData } = await analyzeBill([PAGE], geminiSettings({ prompt: prompt.id }), addLog);
+            assert.equal(parsedData.promptVersion?.id, 'prompt_v2', 'a deleted prompt falls back to the default');
+        },
+    },
+    {
+        name: 'gemini-locate-fields', scenario: 'valid',
+        run: async (_server, addLog) => {
+            // A page no other check has read, so no OCR result is cached for it.
+            const page = `data:image/png;base64,${encodePng({ width: 9, height: 9, data: new Uint8ClampedArray(9 * 9 * 4).fill(255) }).toString('base64')}`;
+            // An image-only prompt makes no OCR pass, so none is run just to highlight fields...
+            const updates: AnalysisProgress[] = [];
+            const { parsedData } = await analyzeBill([page], geminiSettings(), addLog, undefined, update => updates.push(update));
+            assert.deepEqual(parsedData.fieldSources, {});
+            assert.ok(!updates.some(u => u.pass === 'locate' || u.pass === 'ocr'), 'no OCR pass');
+            // ...unless the provider is set to.
+            const located: AnalysisProgress[] = [];
+            await analyzeBill([page], geminiSettings({ locateFields: 'always' }), addLog, undefined, update => located.push(update));
+            assert.equal(located.filter(u => u.pass === 'locate').pop()?.percent, 100);
+        },
+    },
+    {
+        name: 'ocr-shared-pass-cancel', scenario: 'valid',
+        run: async (_server, addLog) => {
+            const page = `data:image/png;base64,${encodePng({ width: 10, height: 10, data: new Uint8ClampedArray(10 * 10 * 4).fill(255) }).toString('base64')}`;
+            // Two analyses read the same page; cancelling the one that started the pass must not fail the other.
+            const controller = new AbortController();
+            const cancelled = runOcrWithWords(page, addLog, {}, controller.signal);
+            const kept = runOcrWithWords(page, addLog, {});
+            controller.abort();
+            await assert.rejects(cancelled, { name: 'AbortError' });
+            assert.equal((await kept).text, FAKE_OCR_TEXT);
+            assert.ok(hasCachedOcr(page, {}));
+            assert.ok(!hasCachedOcr(page, { langPath: 'https://example.com/tessdata' }), 'other OCR settings get their own pass');
+        },
+    },
+    {
+        name: 'gemini-properties-wrapped', scenario: 'properties-wrapped',
+        run: async (_server, addLog) => {
+            const { parsedData } = await analyzeBill([PAGE], geminiSettings(), addLog);
+            assert.equal(parsedData.serviceAddress, '12 Harbour Road, Springfield');
+        },
+    },
+    {
+        name: 'gemini-self-correction', scenario: 'malformed-then-valid',
+        run: async (server, addLog) => {
+            const { parsedData } = await analyzeBill([PAGE], geminiSettings(), addLog);
+            assert.equal(parsedData.totalCurrentCharges, 123.45);
+            const requests = chatRequests(server);
+            assert.equal(requests.length, 2);
+            assert.deepEqual(requests[1].body.contents.map((c: { role: string }) => c.role), ['user', 'model', 'user']);
+        },
+    },
+    {
+        name: 'gemini-malformed', scenario: 'malformed',
+        run: async (_server, addLog) => {
+            await assert.rejects(analyzeBill([PAGE], geminiSettings(), addLog), /Failed to analyze bill with Gemini/);
+        },
+    },
+    {
+        name: 'gemini-http-error', scenario: 'server-error',
+        run: async (_server, addLog) => {
+            await assert.rejects(analyzeBill([PAGE], geminiSettings(), addLog), /Failed to analyze bill with Gemini/);
+        },
+    },
+    {
+        name: 'gemini-request-timeout', scenario: 'hang',
+        run: async (_server, addLog) => {
+            await assert.rejects(analyzeBill([PAGE], geminiSettings({ requestTimeout: '0.5' }), addLog), /did not respond within 0\.5 seconds/);
+        },
+    },
+    {
+        name: 'gemini-cancel', scenario: 'hang',
+        run: async (_server, addLog) => {
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 300);
+            await assert.rejects(analyzeBill([PAGE], geminiSettings(), addLog, controller.signal), { name: 'AbortError' });
+        },
+    },
+    {
+        name: 'gemini-missing-key', scenario: 'valid',
+        run: async (server, addLog) => {
+            const key = process.env.API_KEY;
+            delete process.env.API_KEY;
+            try {
+                await assert.rejects(analyzeBill([PAGE], geminiSettings(), addLog), /Gemini API key is not configured/);
+                assert.equal(server.requests.length, 0);
+            } finally {
+                process.env.API_KEY = key;
+            }
+        },
+    },
+    {
+        name: 'ensemble-vote', scenario: 'ensemble-disagree',
+        run: async (server, addLog) => {
+            const { parsedData, rawResponse } = await analyzeBill([PAGE], ensembleSettings(server.url, [
+                { provider: 'ollama', overrides: {} },
+                { provider: 'gemini', overrides: {} },
+                { provider: 'ollama', overrides: { model: 'mock-text:latest' } },
+            ]), addLog);
+            assert.equal(chatRequests(server).length, 3);
+            const { ensemble } = parsedData;
+            assert.ok(ensemble);
+            assert.equal(ensemble.members.length, 3);
+            assert.match(ensemble.members[2], /mock-text:latest/);
+            assert.deepEqual(ensemble.members.map(member => ensemble.promptVersions?.[member]?.id), ['prompt_ollama_fusion', 'prompt_v2', 'prompt_ollama_fusion'], 'every run records its prompt');
+            assert.equal(parsedData.promptVersion, undefined, 'the runs used different prompts');
+
+            assert.equal(parsedData.accountNumber, '4411-2290-7');
+            assert.deepEqual(ensemble.agreement.accountNumber, { level: 'unanimous', agreeing: 3, total: 3 });
+            assert.equal(parsedData.dueDate, '2024-03-25', 'the majority value wins');
+            assert.equal(ensemble.agreement.dueDate.level, 'majority');
+            assert.deepEqual(ensemble.agreement.dueDate.alternatives?.map(a => a.members.length), [2, 1]);
+            assert.equal(parsedData.totalCurrentCharges, 123.45);
+            assert.deepEqual(parsedData.lineItems.map(i => i.description), ['Delivery Charge', 'Sales Tax'], 'a charge only one run found is dropped');
+            assert.equal(parsedData.usageCharts[0].data[1].usage[0].value, 488);
+
+            const questionFields = (parsedData.verificationQuestions ?? []).map(q => q.field);
+            for (const field of ['dueDate', 'totalCurrentCharges', 'lineItems', 'usageCharts.0.data.1.usage.0.value']) {
+                assert.ok(questionFields.includes(field), `a question about ${field}`);
+            }
+            assert.ok(!questionFields.includes('accountNumber'), 'no question where the runs agree');
+            assert.equal(JSON.parse(rawResponse).ensemble.length, 3, 'every run keeps its raw response');
+        },
+    },
+    {
+        name: 'ensemble-member-fails', scenario: 'valid',
+        run: async (server, addLog) => {
+            const { parsedData } = await analyzeBill([PAGE], ensembleSettings(server.url, [
+                { provider: 'ollama', overrides: { url: 'http://127.0.0.1:9' } },
+                { provider: 'gemini', overrides: {} },
+            ]), addLog);
+            assert.equal(parsedData.accountNumber, '4411-2290-7');
+            assert.deepEqual(parsedData.ensemble?.failedMembers, ['Ollama (Local) (mock-vision:latest, prompt_ollama_fusion)']);
+            assert.equal(parsedData.ensemble?.agreement.accountNumber.level, 'single');
+            assert.equal(parsedData.promptVersion?.id, 'prompt_v2', 'the prompt every successful run used');
+        },
+    },
+    {
+        name: 'ensemble-all-fail', scenario: 'server-error',
+        run: async (server, addLog) => {
+            await assert.rejects(analyzeBill([PAGE], ensembleSettings(server.url, [
+                { provider: 'ollama', overrides: {} },
+                { provider: 'gemini', overrides: {} },
+            ]), addLog), /Every ensemble run failed/);
+        },
+    },
+    {
+        name: 'ensemble-cancel', scenario: 'hang',
+        run: async (server, addLog) => {
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 300);
+            await assert.rejects(analyzeBill([PAGE], ensembleSettings(server.url, [
+                { provider: 'ollama', overrides: {} },
+                { provider: 'gemini', overrides: {} },
+            ]), addLog, controller.signal), { name: 'AbortError' });
+            assert.equal(chatRequests(server).length, 1, 'the remaining runs do not start');
+        },
+    },
+];
+
+const main = async () => {
+    const args = process.argv.slice(2);
+    const onlyIndex = args.indexOf('--only');
+    const only = onlyIndex >= 0 ? args[onlyIndex + 1] : undefined;
+    const verbose = args.includes('--verbose');
+    const checks = CHECKS.filter(c => !only || c.name === only);
+    if (checks.length === 0) throw new Error(`No check named "${only}".`);
+
+    const server = await startMockAiServer();
+    // The Node build of the Gemini SDK reads its endpoint from the environment.
+    process.env.GOOGLE_GEMINI_BASE_URL = server.url;
+    process.env.API_KEY = 'mock-key';
+
+    let failed = 0;
+    for (const check of checks) {
+        server.useScenario(SCENARIOS[check.scenario]);
+        const logs: string[] = [];
+        const addLog = (level: LogEntry['level'], message: string) => {
+            if (level !== 'DEBUG') logs.push(`      [${level}] ${message}`);
+        };
+        // The providers also report failures with console.error; keep that with the check's log.
+        const consoleError = console.error;
+        console.error = (...parts: unknown[]) => logs.push(`      [console] ${parts.map(String).join(' ')}`);
+        try {
+            await check.run(server, addLog);
+            console.log(`PASS  ${check.name}`);
+        } catch (error) {
+            failed++;
+            console.log(`FAIL  ${check.name}: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            console.error = consoleError;
+        }
+        if (verbose) console.log(logs.join('\n'));
+    }
+    await server.close();
+
+    console.log(`\n${checks.length - failed}/${checks.length} checks passed.`);
+    process.exitCode = failed > 0 ? 1 : 0;
+};
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,174 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { extname, join } from 'path';
+import type { AiSettings, LogEntry } from '../types';
+import { analyzeBill } from '../services/aiService';
+import { scoreBill, summarizeScores, type BillScore, type LabelledBill, type ScoreSummary } from './lib/scoring';
+
+// Runs labelled bills through `analyzeBill` with several provider configurations and writes a
+// comparison of field accuracy, line item F1 and chart error.
+//
+//   npm run benchmark -- --bills <dir> --runs <runs.json> [--out dir] [--only run] [--verbose]
+//
+// <dir> holds one ground-truth JSON per bill (`bill-a.json`, a partial BillData) next to its
+// page images: `bill-a.png`, or `bill-a.page1.png`, `bill-a.page2.png`, ... for several pages.
+// <runs.json> lists the configurations to compare; `settings` is the provider's config as the
+// Settings screen stores it:
+//
+//   { "runs": [
+//       { "name": "ollama-llava", "provider": "ollama", "settings": { "url": "http://localhost:11434", "model": "llava:13b" } },
+//       { "name": "mock-v1", "provider": "openai-compatible", "settings": { "baseUrl": "http://localhost:8080/v1", "model": "mock", "prompt": "prompt_v1" } }
+//   ] }
+//
+// Runs in Node: OCR uses tesseract.js's Node build (set `langPath` in a run's settings to avoid
+// the download), while the pixel chart engine and image hashing need a browser canvas and are
+// skipped with a logged error.
+
+interface RunConfig {
+    name: string;
+    provider: string;
+    settings: Record<string, string>;
+}
+
+interface BenchmarkCase {
+    name: string;
+    pages: string[];
+    label: LabelledBill;
+}
+
+interface BillResult {
+    bill: string;
+    seconds: number;
+    error?: string;
+    score?: BillScore;
+}
+
+interface RunResult {
+    run: string;
+    provider: string;
+    summary: ScoreSummary;
+    failures: number;
+    meanSeconds: number;
+    bills: BillResult[];
+}
+
+const IMAGE_TYPES: Record<string, string> = { '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.webp': 'image/webp' };
+
+const loadCases = (dir: string): BenchmarkCase[] => {
+    const files = readdirSync(dir).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    return files.filter(f => extname(f) === '.json').flatMap(file => {
+        const name = file.slice(0, -'.json'.length);
+        const pages = files
+            .filter(f => IMAGE_TYPES[extname(f).toLowerCase()])
+            .filter(f => {
+                const base = f.slice(0, -extname(f).length);
+                return base === name || base.startsWith(`${name}.page`);
+            })
+            .map(f => `data:${IMAGE_TYPES[extname(f).toLowerCase()]};base64,${readFileSync(join(dir, f)).toString('base64')}`);
+        if (pages.length === 0) {
+            console.warn(`Skipping ${file}: no page images named ${name}.png or ${name}.page1.png.`);
+            return [];
+        }
+        return [{ name, pages, label: JSON.parse(readFileSync(join(dir, file), 'utf8')) }];
+    });
+};
+
+const runCase = async (run: RunConfig, bill: BenchmarkCase, verbose: boolean): Promise<BillResult> => {
+    const settings: AiSettings = { provider: run.provider, providerSettings: { [run.provider]: run.settings } };
+    const addLog = (level: LogEntry['level'], message: string) => {
+        if (verbose && level !== 'DEBUG') console.log(`    [${level}] ${message}`);
+    };
+    const started = Date.now();
+    try {
+        const { parsedData } = await analyzeBill(bill.pages, settings, addLog);
+        return { bill: bill.name, seconds: (Date.now() - started) / 1000, score: scoreBill(bill.label, parsedData) };
+    } catch (error) {
+        return { bill: bill.name, seconds: (Date.now() - started) / 1000, error: error instanceof Error ? error.message : String(error) };
+    }
+};
+
+const percent = (value: number | null) => value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+const number = (value: number | null) => value === null ? '-' : value.toFixed(2);
+
+const writeMarkdown = (results: RunResult[], billCount: number): string => {
+    const lines = [
+        `# Extraction benchmark`,
+        '',
+        `${billCount} labelled bill(s), ${new Date().toISOString()}.`,
+        '',
+        '| Run | Provider | Field accuracy | Line item P / R / F1 | Chart MAE | Chart coverage | Failures | Mean time |',
+        '| --- | --- | --- | --- | --- | --- | --- | --- |',
+        ...results.map(r => `| ${r.run} | ${r.provider} | ${percent(r.summary.fieldAccuracy)} | ${percent(r.summary.lineItemPrecision)} / ${percent(r.summary.lineItemRecall)} / ${percent(r.summary.lineItemF1)} | ${number(r.summary.chartMae)} | ${percent(r.summary.chartCoverage)} | ${r.failures} | ${r.meanSeconds.toFixed(1)} s |`),
+        '',
+        '## Field accuracy by field',
+        '',
+    ];
+    const fields = [...new Set(results.flatMap(r => r.bills.flatMap(b => b.score?.fields.map(f => f.field) ?? [])))];
+    lines.push(`| Field | ${results.map(r => r.run).join(' | ')} |`, `| --- | ${results.map(() => '---').join(' | ')} |`);
+    for (const field of fields) {
+        const cells = results.map(r => {
+            const scores = r.bills.flatMap(b => b.score?.fields.filter(f => f.field === field) ?? []);
+            return scores.length > 0 ? `${scores.filter(s => s.correct).length}/${scores.length}` : '-';
+        });
+        lines.push(`| ${field} | ${cells.join(' | ')} |`);
+    }
+    const failures = results.flatMap(r => r.bills.filter(b => b.error).map(b => `- ${r.run} / ${b.bill}: ${b.error}`));
+    if (failures.length > 0) lines.push('', '## Failures', '', ...failures);
+    return lines.join('\n') + '\n';
+};
+
+const main = async () => {
+    const args = process.argv.slice(2);
+    const option = (name: string) => {
+        const index = args.indexOf(name);
+        return index >= 0 ? args[index + 1] : undefined;
+    };
+    const billsDir = option('--bills');
+    const runsFile = option('--runs');
+    if (!billsDir || !runsFile) throw new Error('Usage: npm run benchmark -- --bills <dir> --runs <runs.json> [--out dir] [--only run] [--verbose]');
+    if (!existsSync(billsDir)) throw new Error(`Bill folder not found: ${billsDir}`);
+    const outDir = option('--out') ?? join('dist', 'benchmark');
+    const only = option('--only');
+    const verbose = args.includes('--verbose');
+
+    const runs: RunConfig[] = JSON.parse(readFileSync(runsFile, 'utf8')).runs.filter((r: RunConfig) => !only || r.name === only);
+    if (runs.length === 0) throw new Error(only ? `No run named "${only}" in ${runsFile}.` : `${runsFile} lists no runs.`);
+    const cases = loadCases(billsDir);
+    if (cases.length === 0) throw new Error(`No labelled bills found in ${billsDir}.`);
+
+    const results: RunResult[] = [];
+    for (const run of runs) {
+        console.log(`\n${run.name} (${run.provider})`);
+        const bills: BillResult[] = [];
+        for (const bill of cases) {
+            const result = await runCase(run, bill, verbose);
+            bills.push(result);
+            if (result.error) {
+                console.log(`  FAIL  ${bill.name}: ${result.error}`);
+            } else {
+                const summary = summarizeScores([result.score!]);
+                console.log(`  ok    ${bill.name}: fields ${percent(summary.fieldAccuracy)}, line items F1 ${percent(summary.lineItemF1)}, chart MAE ${number(summary.chartMae)} (${result.seconds.toFixed(1)} s)`);
+            }
+        }
+        results.push({
+            run: run.name,
+            provider: run.provider,
+            summary: summarizeScores(bills.flatMap(b => b.score ? [b.score] : [])),
+            failures: bills.filter(b => b.error).length,
+            meanSeconds: bills.reduce((sum, b) => sum + b.seconds, 0) / bills.length,
+            bills,
+        });
+    }
+
+    mkdirSync(outDir, { recursive: true });
+    writeFileSync(join(outDir, 'report.json'), JSON.stringify(results, null, 2));
+    const markdown = writeMarkdown(results, cases.length);
+    writeFileSync(join(outDir, 'report.md'), markdown);
+    console.log(`\n${markdown}\nReports written to ${outDir}.`);
+};
+
+// Exit explicitly: a Tesseract worker whose language data failed to load is never terminated
+// and would keep Node running.
+main().then(() => process.exit(0), error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,210 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { LogEntry, UsageChartData } from '../types';
+import { findChartCandidates, extractChartData } from '../utils/chartProcessor';
+import { preprocessRaster, DEFAULT_PREPROCESS_OPTIONS } from '../utils/imagePreprocessing';
+import { encodePng } from './lib/png';
+import { renderChart, type SyntheticChartSpec } from './lib/syntheticChart';
+
+// Renders synthetic charts with known values, runs them through the chart engine and reports
+// the error of every value, so changes to detection can be measured.
+//
+//   npm run charts:harness -- [--out dir] [--only name] [--verbose]
+//
+// The OCR words come from the renderer instead of Tesseract, and the pixels go straight to
+// `extractChartData` (the part of `detectBarsForChart` after the image is loaded), so no
+// browser or OCR worker is needed. The PNGs are written for inspection. Fixtures marked
+// `preprocess` first go through the tone steps of the app's default image cleanup.
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const BLUE = { r: 52, g: 101, b: 164 };
+const ORANGE = { r: 237, g: 125, b: 49 };
+const GREEN = { r: 76, g: 153, b: 90 };
+const GREY = { r: 150, g: 150, b: 150 };
+// As bright as BLUE, so the two only differ in colour.
+const RED = { r: 170, g: 60, b: 50 };
+// A fixture fails when its mean error exceeds this share of the axis range.
+const MAX_MEAN_ERROR = 0.02;
+
+type Fixture = SyntheticChartSpec & {
+    preprocess?: boolean;
+    // Fails the fixture when a value is read with less confidence, e.g. because series that
+    // should be told apart by colour were named from bar order instead of the legend.
+    minConfidence?: number;
+};
+
+const FIXTURES: Fixture[] = [
+    {
+        name: 'single-year', orientation: 'vertical', width: 720, height: 420, months: MONTHS,
+        series: [{ year: '2024', color: BLUE, values: [820, 760, 640, 510, 420, 560, 880, 940, 700, 480, 530, 790] }],
+        axis: { min: 0, max: 1000, step: 200 }, title: 'Electricity Usage', unit: 'kWh', legend: true, gridlines: true,
+    },
+    {
+        name: 'dual-year-legend', orientation: 'vertical', width: 820, height: 440, months: MONTHS,
+        series: [
+            { year: '2023', color: GREY, values: [610, 580, 500, 410, 300, 350, 520, 560, 430, 380, 450, 600] },
+            { year: '2024', color: BLUE, values: [650, 540, 470, 430, 320, 390, 610, 590, 400, 360, 470, 640] },
+        ],
+        axis: { min: 0, max: 800, step: 100 }, title: 'Your Usage', unit: 'kWh', legend: true, gridlines: true,
+    },
+    {
+        name: 'dual-year-one-color', orientation: 'vertical', width: 820, height: 440, months: MONTHS.slice(0, 8),
+        series: [
+            { year: '2023', color: GREEN, values: [42, 38, 35, 20, 12, 8, 9, 10] },
+            { year: '2024', color: GREEN, values: [45, 0, 31, 24, 15, 7, 11, 12] },
+        ],
+        axis: { min: 0, max: 50, step: 10 }, unit: 'therms', gridlines: false,
+    },
+    {
+        name: 'non-zero-axis', orientation: 'vertical', width: 720, height: 420, months: MONTHS.slice(0, 6),
+        series: [{ year: '2024', color: ORANGE, values: [320, 410, 365, 280, 450, 390] }],
+        axis: { min: 250, max: 500, step: 50 }, title: 'Water Use', unit: 'gallons', legend: true, gridlines: true,
+    },
+    {
+        name: 'decimal-scale', orientation: 'vertical', width: 720, height: 420, months: MONTHS.slice(0, 6),
+        series: [{ year: '2024', color: BLUE, values: [2.4, 3.1, 1.75, 4.2, 3.6, 2.05] }],
+        axis: { min: 0, max: 5, step: 1 }, unit: 'CCF', legend: true, gridlines: true,
+    },
+    {
+        name: 'large-scale', orientation: 'vertical', width: 820, height: 440, months: MONTHS,
+        series: [{ year: '2024', color: GREEN, values: [14200, 12800, 11000, 9000, 7600, 8200, 12500, 16800, 13100, 9800, 10400, 15100] }],
+        axis: { min: 0, max: 20000, step: 5000 }, legend: true, gridlines: true,
+    },
+    {
+        name: 'value-labels', orientation: 'vertical', width: 820, height: 460, months: MONTHS.slice(0, 6),
+        series: [
+            { year: '2023', color: BLUE, values: [300, 260, 0, 180, 220, 280] },
+            { year: '2024', color: ORANGE, values: [320, 240, 210, 190, 200, 300] },
+        ],
+        axis: { min: 0, max: 400, step: 100 }, legend: true, valueLabels: true,
+    },
+    {
+        name: 'noisy-tinted', orientation: 'vertical', width: 820, height: 440, months: MONTHS,
+        series: [
+            { year: '2023', color: BLUE, values: [610, 580, 500, 410, 300, 350, 520, 560, 430, 380, 450, 600] },
+            { year: '2024', color: ORANGE, values: [650, 540, 470, 430, 320, 390, 610, 590, 400, 360, 470, 640] },
+        ],
+        axis: { min: 0, max: 800, step: 200 }, legend: true, gridlines: true, background: { r: 246, g: 242, b: 230 }, noise: 14, seed: 7,
+    },
+    {
+        name: 'horizontal', orientation: 'horizontal', width: 720, height: 520, months: MONTHS.slice(0, 6),
+        series: [{ year: '2024', color: BLUE, values: [820, 400, 640, 90, 1000, 560] }],
+        axis: { min: 0, max: 1000, step: 250 }, title: 'Monthly Use', unit: 'kWh', legend: true, gridlines: true,
+    },
+    {
+        name: 'horizontal-dual-year', orientation: 'horizontal', width: 760, height: 620, months: MONTHS.slice(0, 6),
+        series: [
+            { year: '2023', color: GREY, values: [30, 26, 22, 14, 9, 6] },
+            { year: '2024', color: GREEN, values: [32, 24, 25, 12, 10, 7] },
+        ],
+        axis: { min: 0, max: 40, step: 10 }, legend: true, gridlines: true,
+    },
+    {
+        name: 'default-cleanup', orientation: 'vertical', width: 820, height: 440, months: MONTHS,
+        series: [
+            { year: '2023', color: BLUE, values: [610, 580, 500, 410, 300, 350, 520, 560, 430, 380, 450, 600] },
+            { year: '2024', color: RED, values: [650, 540, 470, 430, 320, 390, 610, 590, 400, 360, 470, 640] },
+        ],
+        axis: { min: 0, max: 800, step: 200 }, legend: true, gridlines: true, preprocess: true, minConfidence: 0.9,
+    },
+];
+
+interface ValueError {
+    month: string;
+    year: string;
+    expected: number;
+    actual: number | null;
+    error: number; // Share of the axis range.
+    confidence?: number;
+}
+
+interface FixtureResult {
+    name: string;
+    ok: boolean;
+    failure?: string;
+    meanError?: number;
+    maxError?: number;
+    values: ValueError[];
+}
+
+const compare = (spec: SyntheticChartSpec, chart: UsageChartData): ValueError[] => {
+    const range = spec.axis.max - spec.axis.min;
+    return spec.months.flatMap((month, i) => spec.series.map(series => {
+        const expected = series.values[i];
+        const usage = chart.data[i]?.month === month ? chart.data[i].usage.find(u => u.year === series.year) : undefined;
+        const actual = usage ? usage.value : null;
+        // A value missing from the output counts as wrong by the whole expected value.
+        const error = Math.abs((actual ?? 0) - expected) / range + (actual === null ? 1 : 0);
+        return { month, year: series.year, expected, actual, error, confidence: usage?.confidence };
+    }));
+};
+
+const runFixture = (spec: Fixture, outDir: string, verbose: boolean): FixtureResult => {
+    const rendered = renderChart(spec);
+    const { words } = rendered;
+    let raster = rendered.raster;
+    if (spec.preprocess) {
+        // The geometry steps are left out: the OCR words belong to the rendered image, which is flat already.
+        raster = preprocessRaster(raster, { ...DEFAULT_PREPROCESS_OPTIONS, perspective: false, deskew: false }).raster;
+    }
+    writeFileSync(join(outDir, `${spec.name}.png`), encodePng(raster));
+    const logs: string[] = [];
+    const addLog = (level: LogEntry['level'], message: string, payload?: any) => {
+        if (verbose && level !== 'DEBUG') logs.push(`    [${level}] ${message}`);
+        if (verbose && level === 'DEBUG' && payload !== undefined) logs.push(`    [DEBUG] ${message} ${JSON.stringify(payload).slice(0, 300)}`);
+    };
+    try {
+        const candidates = findChartCandidates(words, addLog);
+        if (candidates.length !== 1) return { name: spec.name, ok: false, failure: `found ${candidates.length} chart candidates`, values: [] };
+        const chart = extractChartData(raster, candidates[0], words, addLog);
+        const values = compare(spec, chart);
+        const meanError = values.reduce((sum, v) => sum + v.error, 0) / values.length;
+        const maxError = Math.max(...values.map(v => v.error));
+        const lowConfidence = spec.minConfidence !== undefined ? values.filter(v => (v.confidence ?? 0) < spec.minConfidence!).length : 0;
+        if (verbose) console.log(logs.join('\n'));
+        if (lowConfidence > 0) {
+            return { name: spec.name, ok: false, failure: `${lowConfidence} value(s) below ${spec.minConfidence} confidence`, meanError, maxError, values };
+        }
+        return { name: spec.name, ok: meanError <= MAX_MEAN_ERROR, meanError, maxError, values };
+    } catch (error) {
+        if (verbose) console.log(logs.join('\n'));
+        return { name: spec.name, ok: false, failure: error instanceof Error ? error.message : String(error), values: [] };
+    }
+};
+
+const percent = (share: number) => `${(share * 100).toFixed(2)}%`;
+
+const main = () => {
+    const args = process.argv.slice(2);
+    const option = (name: string) => {
+        const index = args.indexOf(name);
+        return index >= 0 ? args[index + 1] : undefined;
+    };
+    const outDir = option('--out') ?? join('dist', 'chart-harness');
+    const only = option('--only');
+    const verbose = args.includes('--verbose');
+    mkdirSync(outDir, { recursive: true });
+
+    const fixtures = FIXTURES.filter(f => !only || f.name === only);
+    if (fixtures.length === 0) throw new Error(`No fixture named "${only}".`);
+
+    const results: FixtureResult[] = [];
+    for (const spec of fixtures) {
+        const result = runFixture(spec, outDir, verbose);
+        results.push(result);
+        const summary = result.failure ?? `mean ${percent(result.meanError!)}, max ${percent(result.maxError!)}`;
+        console.log(`${result.ok ? 'PASS' : 'FAIL'}  ${spec.name.padEnd(22)} ${summary}`);
+        if (verbose || !result.ok) {
+            for (const v of result.values.filter(v => verbose || v.error > MAX_MEAN_ERROR)) {
+                console.log(`      ${v.month} ${v.year}: expected ${v.expected}, got ${v.actual ?? 'nothing'} (${percent(v.error)} of axis, confidence ${v.confidence ?? '-'})`);
+            }
+        }
+    }
+
+    writeFileSync(join(outDir, 'report.json'), JSON.stringify(results, null, 2));
+    const failed = results.filter(r => !r.ok).length;
+    console.log(`\n${results.length - failed}/${results.length} fixtures within ${percent(MAX_MEAN_ERROR)} mean error. Images and report.json in ${outDir}.`);
+    process.exitCode = failed > 0 ? 1 : 0;
+};
+
+main();
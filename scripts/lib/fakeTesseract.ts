@@ -0,0 +1,17 @@
+// Stands in for tesseract.js in the AI integration checks (substituted with an esbuild alias),
+// so the providers' OCR passes run without the language data download. Every page reads as the
+// same short bill text, with no words, so no chart candidates are found.
+
+export const FAKE_OCR_TEXT = `Springfield Power
+Account Number 4411-2290-7
+Statement Date 03/04/2024
+Delivery Charge $100.00
+Sales Tax $23.45
+Total Current Charges $123.45`;
+
+const createWorker = async () => ({
+    recognize: async () => ({ data: { text: FAKE_OCR_TEXT, blocks: [] } }),
+    terminate: async () => {},
+});
+
+export default { createWorker };
@@ -0,0 +1,303 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+// A local stand-in for the AI backends. It speaks Ollama's `/api/chat` and `/api/tags` and
+// Gemini's `generateContent`, and answers from a scripted scenario so malformed output, odd key
+// styles and failures can be reproduced without a model.
+
+export type MockReply =
+    // A model answer. Streamed to Ollama clients that ask for it, a few characters per line;
+    // `stallAfterChars` stops streaming part-way without closing the response.
+    | { content: string; chunkDelayMs?: number; stallAfterChars?: number }
+    | { status: number; body?: string; contentType?: string } // An HTTP error, or with status 200 a page that is not the API.
+    | { dropAfterMs: number } // Holds the request, then closes the connection without answering.
+    | { hang: true }; // Never answers, like a model stuck generating; the client has to give up.
+
+export interface MockScenario {
+    description: string;
+    replies: MockReply[]; // Answers to successive chat requests; the last one repeats.
+    models?: string[]; // Listed by /api/tags.
+    tagsReply?: MockReply; // Replaces the model list, e.g. with an HTTP error.
+}
+
+export interface RecordedRequest {
+    method: string;
+    path: string;
+    body: any;
+}
+
+export interface MockAiServer {
+    url: string;
+    requests: RecordedRequest[];
+    useScenario: (scenario: MockScenario) => void;
+    close: () => Promise<void>;
+}
+
+const CONSISTENT_BILL = {
+    accountName: 'Jordan Example',
+    accountNumber: '4411-2290-7',
+    serviceAddress: '12 Harbour Road, Springfield',
+    statementDate: '2024-03-04',
+    servicePeriodStart: '2024-02-01',
+    servicePeriodEnd: '2024-02-29',
+    dueDate: '2024-03-25',
+    totalCurrentCharges: 123.45,
+    lineItems: [
+        { description: 'Delivery Charge', amount: 100 },
+        { description: 'Sales Tax', amount: 23.45 },
+    ],
+    usageCharts: [{
+        title: 'Electricity Usage',
+        unit: 'kWh',
+        data: [
+            { month: 'Jan', usage: [{ year: '2024', value: 512 }] },
+            { month: 'Feb', usage: [{ year: '2024', value: 488 }] },
+        ],
+    }],
+    confidenceScore: 0.92,
+    confidenceReasoning: 'All values are clearly printed.',
+    verificationQuestions: [],
+};
+
+const BAD_GATEWAY_PAGE = '<html>\r\n<head><title>502 Bad Gateway</title></head>\r\n<body>\r\n<center><h1>502 Bad Gateway</h1></center>\r\n<hr><center>nginx</center>\r\n</body>\r\n</html>\r\n';
+
+const SNAKE_CASE_BILL = {
+    account_name: 'Jordan Example',
+    account_no: '4411-2290-7',
+    service_address: '12 Harbour Road, Springfield',
+    bill_date: '2024-03-04',
+    servicePeriodStart: '2024-02-01',
+    servicePeriodEnd: '2024-02-29',
+    payment_due: '2024-03-25',
+    amount_due: '$123.45',
+    line_items: [
+        { description: 'Delivery Charge', amount: '$100.00' },
+        { description: 'Sales Tax', amount: '23.45' },
+    ],
+    // Flat "Mon YYYY" points, which sanitizeAiResponse regroups by month.
+    usage_history: [{ title: 'Electricity Usage', unit: 'kWh', data: [{ month: 'Jan 2024', value: '512' }, { month: 'Feb 2024', value: 488 }] }],
+    confidence_score: 0.8,
+};
+
+// The same bill read differently: another due date and total, an extra charge and a misread bar.
+const DISAGREEING_BILL = {
+    ...CONSISTENT_BILL,
+    dueDate: '2024-03-28',
+    totalCurrentCharges: 128.45,
+    lineItems: [...CONSISTENT_BILL.lineItems, { description: 'Late Fee', amount: 5 }],
+    usageCharts: [{
+        ...CONSISTENT_BILL.usageCharts[0],
+        data: [CONSISTENT_BILL.usageCharts[0].data[0], { month: 'Feb', usage: [{ year: '2024', value: 880 }] }],
+    }],
+};
+
+export const SCENARIOS: Record<string, MockScenario> = {
+    valid: {
+        description: 'A well-formed, internally consistent bill.',
+        replies: [{ content: JSON.stringify(CONSISTENT_BILL) }],
+    },
+    'snake-case': {
+        description: 'snake_case and alternative key names, amounts as strings and flat chart points.',
+        replies: [{ content: JSON.stringify(SNAKE_CASE_BILL) }],
+    },
+    'properties-wrapped': {
+        description: 'The bill wrapped in a JSON-schema style "properties" object.',
+        replies: [{ content: JSON.stringify({ type: 'object', properties: CONSISTENT_BILL }) }],
+    },
+    'malformed-then-valid': {
+        description: 'Truncated JSON first, a valid bill once asked to correct it.',
+        replies: [{ content: JSON.stringify(CONSISTENT_BILL).slice(0, 80) }, { content: JSON.stringify(CONSISTENT_BILL) }],
+    },
+    malformed: {
+        description: 'Prose instead of JSON on every attempt.',
+        replies: [{ content: 'Here is the bill you asked for: the account number is 4411-2290-7.' }],
+    },
+    'server-error': {
+        description: 'HTTP 500 on every chat request.',
+        replies: [{ status: 500, body: 'model runner crashed' }],
+    },
+    timeout: {
+        description: 'The connection is dropped after 300 ms without an answer, like a proxy timing out.',
+        replies: [{ dropAfterMs: 300 }],
+    },
+    hang: {
+        description: 'Chat requests are accepted but never answered.',
+        replies: [{ hang: true }],
+    },
+    'slow-stream': {
+        description: 'A valid bill streamed slowly, so fields arrive over about two seconds.',
+        replies: [{ content: JSON.stringify(CONSISTENT_BILL), chunkDelayMs: 15 }],
+    },
+    'stream-stall': {
+        description: 'Streaming stops half-way through the answer and the response never ends.',
+        replies: [{ content: JSON.stringify(CONSISTENT_BILL), stallAfterChars: 200 }],
+    },
+    'ensemble-disagree': {
+        description: 'For ensemble runs: the second request gets a bill that disagrees with the first and third.',
+        replies: [{ content: JSON.stringify(CONSISTENT_BILL) }, { content: JSON.stringify(DISAGREEING_BILL) }, { content: JSON.stringify(CONSISTENT_BILL) }],
+    },
+    'no-models': {
+        description: 'The server answers but has no models installed.',
+        replies: [{ content: JSON.stringify(CONSISTENT_BILL) }],
+        models: [],
+    },
+    'html-gateway-error': {
+        description: 'An HTML 502 page from a reverse proxy in front of the model server.',
+        replies: [{ status: 502, body: BAD_GATEWAY_PAGE, contentType: 'text/html' }],
+        tagsReply: { status: 502, body: BAD_GATEWAY_PAGE, contentType: 'text/html' },
+    },
+    'html-login-page': {
+        description: 'An HTML login page served with status 200 instead of the model list.',
+        replies: [{ content: JSON.stringify(CONSISTENT_BILL) }],
+        tagsReply: { status: 200, body: '<!DOCTYPE html><html><head><title>Sign in</title></head><body>Please sign in</body></html>', contentType: 'text/html' },
+    },
+    'tags-error': {
+        description: 'HTTP 404 from /api/tags, as from a server that is not Ollama.',
+        replies: [{ content: JSON.stringify(CONSISTENT_BILL) }],
+        tagsReply: { status: 404, body: 'not found' },
+    },
+};
+
+const DEFAULT_MODELS = ['mock-vision:latest', 'mock-text:latest'];
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+};
+
+const STATUS_TEXT: Record<number, string> = { 400: 'Bad Request', 404: 'Not Found', 429: 'Too Many Requests', 500: 'Internal Server Error', 502: 'Bad Gateway', 503: 'Service Unavailable' };
+
+/** Sends a scripted failure; returns false when the reply is a normal answer. */
+const sendFailure = (res: ServerResponse, reply: MockReply, gemini: boolean): boolean => {
+    if ('dropAfterMs' in reply) {
+        setTimeout(() => res.socket?.destroy(), reply.dropAfterMs);
+        return true;
+    }
+    if ('hang' in reply) return true;
+    if ('status' in reply) {
+        res.statusMessage = STATUS_TEXT[reply.status] ?? (reply.status < 400 ? 'OK' : 'Error');
+        if (reply.contentType) {
+            res.writeHead(reply.status, { 'Content-Type': reply.contentType });
+            res.end(reply.body ?? '');
+        } else if (gemini) sendJson(res, reply.status, { error: { code: reply.status, message: reply.body ?? res.statusMessage, status: 'INTERNAL' } });
+        else {
+            res.writeHead(reply.status, { 'Content-Type': 'text/plain' });
+            res.end(reply.body ?? '');
+        }
+        return true;
+    }
+    return false;
+};
+
+// Characters per streamed line; Ollama sends roughly one token per line.
+const STREAM_CHUNK_SIZE = 6;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Streams an answer as Ollama does: one JSON object per line, the last with `done` and timings. */
+const streamOllamaChat = async (res: ServerResponse, model: string, reply: { content: string; chunkDelayMs?: number; stallAfterChars?: number }) => {
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    const startedAt = Date.now();
+    let chunks = 0;
+    for (let offset = 0; offset < reply.content.length; offset += STREAM_CHUNK_SIZE) {
+        if (res.destroyed) return;
+        if (reply.stallAfterChars !== undefined && offset >= reply.stallAfterChars) return;
+        const content = reply.content.slice(offset, offset + STREAM_CHUNK_SIZE);
+        res.write(`${JSON.stringify({ model, created_at: new Date().toISOString(), message: { role: 'assistant', content }, done: false })}\n`);
+        chunks++;
+        if (reply.chunkDelayMs) await delay(reply.chunkDelayMs);
+    }
+    const evalDurationNs = Math.max(1, Date.now() - startedAt) * 1e6;
+    res.end(`${JSON.stringify({
+        model, created_at: new Date().toISOString(),
+        message: { role: 'assistant', content: '' },
+        done: true, done_reason: 'stop',
+        prompt_eval_count: 512, prompt_eval_duration: 250e6,
+        eval_count: chunks, eval_duration: evalDurationNs,
+    })}\n`);
+};
+
+export const startMockAiServer = (port = 0): Promise<MockAiServer> => {
+    let scenario = SCENARIOS.valid;
+    let chatCount = 0;
+    const requests: RecordedRequest[] = [];
+
+    const nextReply = () => scenario.replies[Math.min(chatCount++, scenario.replies.length - 1)];
+
+    const server = createServer(async (req, res) => {
+        // The app calls the server from the browser, so allow any origin like OLLAMA_ORIGINS='*'.
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.setHeader('Access-Control-Allow-Headers', '*');
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204);
+            res.end();
+            return;
+        }
+        const raw = await readBody(req);
+        const path = (req.url ?? '/').split('?')[0];
+        let body: any = raw;
+        try { body = raw ? JSON.parse(raw) : undefined; } catch { /* Recorded as text. */ }
+        requests.push({ method: req.method ?? 'GET', path, body });
+
+        if (req.method === 'GET' && path === '/api/tags') {
+            if (scenario.tagsReply && sendFailure(res, scenario.tagsReply, false)) return;
+            const models = scenario.models ?? DEFAULT_MODELS;
+            sendJson(res, 200, { models: models.map(name => ({ name, modified_at: '2024-03-01T00:00:00Z', size: 4_000_000_000 })) });
+            return;
+        }
+        if (req.method === 'POST' && path === '/api/chat') {
+            const reply = nextReply();
+            if (sendFailure(res, reply, false)) return;
+            if (body?.stream !== false) {
+                // Like Ollama, stream unless the client turns it off.
+                await streamOllamaChat(res, body?.model, reply as { content: string });
+                return;
+            }
+            sendJson(res, 200, {
+                model: body?.model, created_at: new Date().toISOString(),
+                message: { role: 'assistant', content: (reply as { content: string }).content },
+                done: true, done_reason: 'stop',
+            });
+            return;
+        }
+        const gemini = path.match(/^\/v1(?:beta)?\/models\/([^:]+):generateContent$/);
+        if (req.method === 'POST' && gemini) {
+            const reply = nextReply();
+            if (sendFailure(res, reply, true)) return;
+            sendJson(res, 200, {
+                candidates: [{ content: { role: 'model', parts: [{ text: (reply as { content: string }).content }] }, finishReason: 'STOP', index: 0 }],
+                modelVersion: gemini[1],
+            });
+            return;
+        }
+        sendJson(res, 404, { error: `No mock route for ${req.method} ${path}` });
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => {
+            const address = server.address() as AddressInfo;
+            resolve({
+                url: `http://127.0.0.1:${address.port}`,
+                requests,
+                useScenario: next => {
+                    scenario = next;
+                    chatCount = 0;
+                    requests.length = 0;
+                },
+                close: () => new Promise(done => {
+                    server.closeAllConnections();
+                    server.close(() => done());
+                }),
+            });
+        });
+    });
+};
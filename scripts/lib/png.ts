@@ -0,0 +1,45 @@
+import { deflateSync } from 'zlib';
+import type { Raster } from '../../utils/imagePreprocessing';
+
+// Minimal RGBA PNG encoder, so dev scripts can write images without a canvas package.
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Buffer): number => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type: string, data: Buffer): Buffer => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+};
+
+export const encodePng = (raster: Raster): Buffer => {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(raster.width, 0);
+    header.writeUInt32BE(raster.height, 4);
+    header[8] = 8; // Bit depth.
+    header[9] = 6; // RGBA.
+    const stride = raster.width * 4;
+    const scanlines = Buffer.alloc((stride + 1) * raster.height);
+    for (let y = 0; y < raster.height; y++) {
+        // Filter type 0 (none) per row.
+        Buffer.from(raster.data.buffer, raster.data.byteOffset + y * stride, stride).copy(scanlines, y * (stride + 1) + 1);
+    }
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        chunk('IHDR', header),
+        chunk('IDAT', deflateSync(scanlines)),
+        chunk('IEND', Buffer.alloc(0)),
+    ]);
+};
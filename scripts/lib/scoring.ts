@@ -0,0 +1,150 @@
+import type { BillData, LineItem, UsageChartData } from '../../types';
+import { normalizeAccountNumber } from '../../utils/accounts';
+import { monthIndex, parseBillDate } from '../../utils/dates';
+import { normalizeUnit } from '../../utils/units';
+
+// Scores an extracted bill against a hand-labelled one. Only fields present in the label count,
+// so a label may cover just the fields someone has checked.
+
+export type LabelledBill = Partial<Omit<BillData, 'id' | 'analyzedAt'>>;
+export type ExtractedBill = Omit<BillData, 'id' | 'analyzedAt'>;
+
+export interface FieldScore {
+    field: string;
+    expected: string | number;
+    actual?: string | number;
+    correct: boolean;
+}
+
+export interface LineItemScore {
+    truePositives: number;
+    predicted: number;
+    expected: number;
+    missed: LineItem[];
+    extra: LineItem[];
+}
+
+export interface ChartScore {
+    errors: number[]; // Absolute error of every labelled value that was found.
+    expected: number;
+    missing: string[]; // "<unit> <month> <year>" of labelled values that were not found.
+}
+
+export interface BillScore {
+    fields: FieldScore[];
+    lineItems: LineItemScore;
+    charts: ChartScore;
+}
+
+const TEXT_FIELDS = ['accountName', 'serviceAddress'] as const;
+const DATE_FIELDS = ['statementDate', 'servicePeriodStart', 'servicePeriodEnd', 'dueDate'] as const;
+const AMOUNT_TOLERANCE = 0.005;
+const MIN_DESCRIPTION_SIMILARITY = 0.5;
+
+const normalizeText = (value?: string): string => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const sameDate = (expected: string, actual?: string): boolean => {
+    const a = parseBillDate(expected), b = parseBillDate(actual);
+    return a && b ? a.getTime() === b.getTime() : normalizeText(expected) === normalizeText(actual);
+};
+
+const isLabelled = (value: unknown): value is string | number => value !== undefined && value !== null && value !== '';
+
+export const scoreFields = (label: LabelledBill, bill: ExtractedBill): FieldScore[] => {
+    const scores: FieldScore[] = [];
+    if (isLabelled(label.accountNumber)) {
+        scores.push({ field: 'accountNumber', expected: label.accountNumber, actual: bill.accountNumber, correct: normalizeAccountNumber(label.accountNumber) === normalizeAccountNumber(bill.accountNumber) });
+    }
+    if (isLabelled(label.totalCurrentCharges)) {
+        scores.push({ field: 'totalCurrentCharges', expected: label.totalCurrentCharges, actual: bill.totalCurrentCharges, correct: Math.abs(label.totalCurrentCharges - bill.totalCurrentCharges) < AMOUNT_TOLERANCE });
+    }
+    for (const field of TEXT_FIELDS) {
+        const expected = label[field];
+        if (isLabelled(expected)) scores.push({ field, expected, actual: bill[field], correct: normalizeText(expected) === normalizeText(bill[field]) });
+    }
+    for (const field of DATE_FIELDS) {
+        const expected = label[field];
+        if (isLabelled(expected)) scores.push({ field, expected, actual: bill[field], correct: sameDate(expected, bill[field]) });
+    }
+    return scores;
+};
+
+// "Delivery Charges" and "delivery charge" are the same line.
+const descriptionTokens = (description: string): Set<string> =>
+    new Set(description.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(token => token.replace(/s$/, '')));
+
+const descriptionSimilarity = (a: string, b: string): number => {
+    const ta = descriptionTokens(a), tb = descriptionTokens(b);
+    if (ta.size === 0 || tb.size === 0) return 0;
+    const shared = [...ta].filter(token => tb.has(token)).length;
+    return shared / (ta.size + tb.size - shared);
+};
+
+/** A predicted line matches a labelled one with the same amount and a similar description. */
+export const scoreLineItems = (expected: LineItem[], predicted: LineItem[]): LineItemScore => {
+    const unmatched = [...predicted];
+    const missed: LineItem[] = [];
+    for (const item of expected) {
+        const match = unmatched.find(p =>
+            Math.abs(p.amount - item.amount) < AMOUNT_TOLERANCE && descriptionSimilarity(p.description, item.description) >= MIN_DESCRIPTION_SIMILARITY
+        );
+        if (match) unmatched.splice(unmatched.indexOf(match), 1);
+        else missed.push(item);
+    }
+    return { truePositives: expected.length - missed.length, predicted: predicted.length, expected: expected.length, missed, extra: unmatched };
+};
+
+/** Charts are paired by unit (or position when units differ), values by month and year. */
+export const scoreCharts = (expected: UsageChartData[], predicted: UsageChartData[]): ChartScore => {
+    const score: ChartScore = { errors: [], expected: 0, missing: [] };
+    expected.forEach((chart, index) => {
+        const unit = normalizeUnit(chart.unit);
+        const match = predicted.find(p => normalizeUnit(p.unit) === unit) ?? predicted[index];
+        for (const point of chart.data) {
+            for (const usage of point.usage) {
+                score.expected++;
+                const found = match?.data
+                    .filter(p => monthIndex(p.month) === monthIndex(point.month))
+                    .flatMap(p => p.usage)
+                    .find(u => u.year === usage.year);
+                if (found && typeof found.value === 'number') score.errors.push(Math.abs(found.value - usage.value));
+                else score.missing.push(`${unit} ${point.month} ${usage.year}`);
+            }
+        }
+    });
+    return score;
+};
+
+export const scoreBill = (label: LabelledBill, bill: ExtractedBill): BillScore => ({
+    fields: scoreFields(label, bill),
+    lineItems: scoreLineItems(label.lineItems ?? [], label.lineItems ? bill.lineItems : []),
+    charts: scoreCharts(label.usageCharts ?? [], bill.usageCharts),
+});
+
+export interface ScoreSummary {
+    fieldAccuracy: number | null;
+    lineItemPrecision: number | null;
+    lineItemRecall: number | null;
+    lineItemF1: number | null;
+    chartMae: number | null;
+    chartCoverage: number | null; // Share of labelled chart values that were found at all.
+}
+
+const ratio = (numerator: number, denominator: number): number | null => denominator > 0 ? numerator / denominator : null;
+
+/** Pools the scores of several bills (micro-averaged, so large bills weigh more). */
+export const summarizeScores = (scores: BillScore[]): ScoreSummary => {
+    const fields = scores.flatMap(s => s.fields);
+    const truePositives = scores.reduce((sum, s) => sum + s.lineItems.truePositives, 0);
+    const precision = ratio(truePositives, scores.reduce((sum, s) => sum + s.lineItems.predicted, 0));
+    const recall = ratio(truePositives, scores.reduce((sum, s) => sum + s.lineItems.expected, 0));
+    const errors = scores.flatMap(s => s.charts.errors);
+    return {
+        fieldAccuracy: ratio(fields.filter(f => f.correct).length, fields.length),
+        lineItemPrecision: precision,
+        lineItemRecall: recall,
+        lineItemF1: precision !== null && recall !== null ? (precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0) : null,
+        chartMae: ratio(errors.reduce((sum, e) => sum + e, 0), errors.length),
+        chartCoverage: ratio(errors.length, scores.reduce((sum, s) => sum + s.charts.expected, 0)),
+    };
+};
@@ -0,0 +1,199 @@
+import type { OcrWord } from '../../types';
+import type { Raster } from '../../utils/imagePreprocessing';
+import type { RGB } from '../../utils/chartPixels';
+
+// Renders bar charts with known values, and the OCR words Tesseract would report for their
+// labels, so the chart engine can be measured without a browser or an OCR worker.
+
+export interface SyntheticSeries {
+    year: string;
+    color: RGB;
+    values: number[]; // One per month; 0 draws no bar.
+}
+
+export interface SyntheticChartSpec {
+    name: string;
+    orientation: 'vertical' | 'horizontal';
+    width: number;
+    height: number;
+    months: string[];
+    series: SyntheticSeries[];
+    axis: { min: number; max: number; step: number };
+    title?: string;
+    unit?: string;
+    legend?: boolean; // Colour swatches beside the years.
+    gridlines?: boolean;
+    valueLabels?: boolean; // Values printed at the end of each bar.
+    background?: RGB;
+    noise?: number; // Maximum per-channel noise, 0-255.
+    seed?: number;
+}
+
+export interface SyntheticChart {
+    raster: Raster;
+    words: OcrWord[];
+}
+
+// 5x7 bitmap glyphs, enough for month names, numbers, years and units.
+const GLYPHS: Record<string, string> = {
+    A: '.###.#...##...#######...##...##...#', B: '####.#...##...#####.#...##...#####.', C: '.###.#...##....#....#....#...#.###.',
+    D: '####.#...##...##...##...##...#####.', E: '######....#....####.#....#....#####', F: '######....#....####.#....#....#....',
+    G: '.###.#...##....#.####...##...#.###.', H: '#...##...##...#######...##...##...#', I: '.###...#....#....#....#....#...###.',
+    J: '..###...#....#....#....#.#..#..##..', K: '#...##..#.#.#..##...#.#..#..#.#...#', L: '#....#....#....#....#....#....#####',
+    M: '#...###.###.#.##.#.##...##...##...#', N: '#...##...###..##.#.##..###...##...#', O: '.###.#...##...##...##...##...#.###.',
+    P: '####.#...##...#####.#....#....#....', Q: '.###.#...##...##...##.#.##..#..##.#', R: '####.#...##...#####.#.#..#..#.#...#',
+    S: '.#####....#.....###.....#....#####.', T: '#####..#....#....#....#....#....#..', U: '#...##...##...##...##...##...#.###.',
+    V: '#...##...##...##...##...#.#.#...#..', W: '#...##...##...##.#.##.#.##.#.#.#.#.', X: '#...##...#.#.#...#...#.#.#...##...#',
+    Y: '#...##...#.#.#...#....#....#....#..', Z: '#####....#...#...#...#...#....#####',
+    '0': '.###.#...##..###.#.###..##...#.###.', '1': '..#...##....#....#....#....#...###.', '2': '.###.#...#....#...#...#...#...#####',
+    '3': '#####...#...#.....#.....##...#.###.', '4': '...#...##..#.#.#..#.#####...#....#.', '5': '######....####.....#....##...#.###.',
+    '6': '..##..#...#....####.#...##...#.###.', '7': '#####....#...#...#...#....#....#...', '8': '.###.#...##...#.###.#...##...#.###.',
+    '9': '.###.#...##...#.####....#...#..##..', ',': '.....................##....#...#...', '.': '.........................##....##..',
+    '(': '...#...#...#....#....#.....#.....#.', ')': '.#.....#.....#....#....#...#...#...', '$': '..#...#####.#...###...#.#####...#..',
+    '-': '................###................',
+};
+const GLYPH_WIDTH = 5, GLYPH_HEIGHT = 7;
+
+/** Small deterministic PRNG (mulberry32), so fixtures render the same on every run. */
+const random = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const BLACK: RGB = { r: 30, g: 30, b: 30 };
+const GRID: RGB = { r: 215, g: 215, b: 215 };
+const SCALE = 2; // Glyph pixels per font pixel; 14px tall text.
+
+const createCanvas = (width: number, height: number, background: RGB) => {
+    const raster: Raster = { width, height, data: new Uint8ClampedArray(width * height * 4) };
+    for (let i = 0; i < width * height; i++) raster.data.set([background.r, background.g, background.b, 255], i * 4);
+    return raster;
+};
+
+const fillRect = (raster: Raster, x0: number, y0: number, x1: number, y1: number, color: RGB) => {
+    for (let y = Math.max(0, Math.round(y0)); y < Math.min(raster.height, Math.round(y1)); y++) {
+        for (let x = Math.max(0, Math.round(x0)); x < Math.min(raster.width, Math.round(x1)); x++) {
+            raster.data.set([color.r, color.g, color.b], (y * raster.width + x) * 4);
+        }
+    }
+};
+
+const textWidth = (text: string) => (text.length * (GLYPH_WIDTH + 1) - 1) * SCALE;
+const TEXT_HEIGHT = GLYPH_HEIGHT * SCALE;
+
+/** Draws `text` with its top-left at (x, y) and returns one OCR word per space-separated word. */
+const drawText = (raster: Raster, text: string, x: number, y: number, color: RGB = BLACK): OcrWord[] => {
+    const words: OcrWord[] = [];
+    let start = -1;
+    [...text.toUpperCase(), ' '].forEach((char, i) => {
+        const left = x + i * (GLYPH_WIDTH + 1) * SCALE;
+        if (char === ' ') {
+            if (start >= 0) {
+                const word = text.slice(start, i);
+                const x0 = Math.round(x + start * (GLYPH_WIDTH + 1) * SCALE);
+                words.push({ text: word, bbox: { x0, y0: Math.round(y), x1: x0 + textWidth(word), y1: Math.round(y) + TEXT_HEIGHT }, confidence: 95 });
+            }
+            start = -1;
+            return;
+        }
+        if (start < 0) start = i;
+        const glyph = GLYPHS[char];
+        if (!glyph) throw new Error(`No glyph for "${char}".`);
+        for (let row = 0; row < GLYPH_HEIGHT; row++) {
+            for (let col = 0; col < GLYPH_WIDTH; col++) {
+                if (glyph[row * GLYPH_WIDTH + col] !== '#') continue;
+                fillRect(raster, left + col * SCALE, y + row * SCALE, left + (col + 1) * SCALE, y + (row + 1) * SCALE, color);
+            }
+        }
+    });
+    return words;
+};
+
+const formatTick = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+const addNoise = (raster: Raster, amount: number, seed: number) => {
+    const next = random(seed);
+    for (let i = 0; i < raster.data.length; i += 4) {
+        for (let c = 0; c < 3; c++) raster.data[i + c] += Math.round((next() * 2 - 1) * amount);
+    }
+};
+
+export const renderChart = (spec: SyntheticChartSpec): SyntheticChart => {
+    const { width, height, months, series, axis } = spec;
+    const raster = createCanvas(width, height, spec.background ?? { r: 255, g: 255, b: 255 });
+    const words: OcrWord[] = [];
+    const vertical = spec.orientation === 'vertical';
+    const ticks: number[] = [];
+    for (let v = axis.min; v <= axis.max + 1e-9; v += axis.step) ticks.push(Math.round(v * 1e6) / 1e6);
+    const tickWidth = Math.max(...ticks.map(t => textWidth(formatTick(t))));
+    const monthWidth = Math.max(...months.map(textWidth));
+
+    const top = spec.title ? 60 : 30;
+    const legendHeight = 40;
+    const plot = vertical
+        ? { x0: tickWidth + 20, y0: top, x1: width - 20, y1: height - TEXT_HEIGHT - 20 - legendHeight }
+        : { x0: monthWidth + 20, y0: top, x1: width - tickWidth, y1: height - TEXT_HEIGHT - 20 - legendHeight };
+    const valueToPixel = (v: number) => {
+        const t = (v - axis.min) / (axis.max - axis.min);
+        return vertical ? plot.y1 - t * (plot.y1 - plot.y0) : plot.x0 + t * (plot.x1 - plot.x0);
+    };
+    const spacing = (vertical ? plot.x1 - plot.x0 : plot.y1 - plot.y0) / months.length;
+    const center = (i: number) => (vertical ? plot.x0 : plot.y0) + spacing * (i + 0.5);
+
+    // Value axis: ticks, gridlines and the axis line along the base.
+    for (const tick of ticks) {
+        const p = Math.round(valueToPixel(tick));
+        const label = formatTick(tick);
+        if (vertical) {
+            if (spec.gridlines && tick !== axis.min) fillRect(raster, plot.x0, p, plot.x1, p + 1, GRID);
+            words.push(...drawText(raster, label, plot.x0 - 8 - textWidth(label), p - TEXT_HEIGHT / 2));
+        } else {
+            if (spec.gridlines && tick !== axis.min) fillRect(raster, p, plot.y0, p + 1, plot.y1, GRID);
+            words.push(...drawText(raster, label, p - textWidth(label) / 2, plot.y1 + 8));
+        }
+    }
+
+    // Bars, side by side within each month, earliest year first.
+    const groupWidth = spacing * 0.7;
+    const barWidth = groupWidth / series.length - 2;
+    series.forEach((s, k) => {
+        s.values.forEach((value, i) => {
+            if (!value) return;
+            const start = center(i) - groupWidth / 2 + k * (barWidth + 2) + 1;
+            const end = valueToPixel(value);
+            if (vertical) fillRect(raster, start, end, start + barWidth, plot.y1, s.color);
+            else fillRect(raster, plot.x0, start, end, start + barWidth, s.color);
+            if (spec.valueLabels) {
+                const label = formatTick(value);
+                if (vertical) words.push(...drawText(raster, label, start + barWidth / 2 - textWidth(label) / 2, end - TEXT_HEIGHT - 4));
+                else words.push(...drawText(raster, label, end + 4, start + barWidth / 2 - TEXT_HEIGHT / 2));
+            }
+        });
+    });
+    if (vertical) fillRect(raster, plot.x0, plot.y1, plot.x1, plot.y1 + 2, BLACK);
+    else fillRect(raster, plot.x0 - 2, plot.y0, plot.x0, plot.y1, BLACK);
+
+    months.forEach((month, i) => {
+        if (vertical) words.push(...drawText(raster, month, center(i) - textWidth(month) / 2, plot.y1 + 8));
+        else words.push(...drawText(raster, month, plot.x0 - 10 - textWidth(month), center(i) - TEXT_HEIGHT / 2));
+    });
+
+    // Legend under the chart: a swatch left of each year.
+    let legendX = plot.x0;
+    const legendY = height - legendHeight + 8;
+    for (const s of series) {
+        if (spec.legend) {
+            fillRect(raster, legendX, legendY, legendX + TEXT_HEIGHT, legendY + TEXT_HEIGHT, s.color);
+            legendX += TEXT_HEIGHT + 8;
+        }
+        words.push(...drawText(raster, s.year, legendX, legendY));
+        legendX += textWidth(s.year) + 30;
+    }
+
+    if (spec.title) words.push(...drawText(raster, spec.title, (width - textWidth(spec.title)) / 2, 12));
+    if (spec.unit) words.push(...drawText(raster, spec.unit, 8, top - TEXT_HEIGHT - 14));
+    if (spec.noise) addNoise(raster, spec.noise, spec.seed ?? 1);
+    return { raster, words };
+};
@@ -0,0 +1,31 @@
+import { SCENARIOS, startMockAiServer } from './lib/mockAiServer';
+
+// Runs the mock AI server on its own, to try the app against scripted model behaviour: point
+// the Ollama provider's URL at it. (The Gemini route is used by `npm run ai:integration`; the browser
+// build of the Gemini SDK always calls Google.)
+//
+//   npm run mock:ai -- [--port 11435] [--scenario snake-case]
+
+const main = async () => {
+    const args = process.argv.slice(2);
+    const option = (name: string) => {
+        const index = args.indexOf(name);
+        return index >= 0 ? args[index + 1] : undefined;
+    };
+    const name = option('--scenario') ?? 'valid';
+    const scenario = SCENARIOS[name];
+    if (!scenario) throw new Error(`Unknown scenario "${name}". Available: ${Object.keys(SCENARIOS).join(', ')}.`);
+
+    const server = await startMockAiServer(parseInt(option('--port') ?? '11435', 10));
+    server.useScenario(scenario);
+    console.log(`Mock AI server listening on ${server.url} with scenario "${name}": ${scenario.description}`);
+    console.log('Other scenarios:');
+    for (const [other, { description }] of Object.entries(SCENARIOS)) {
+        if (other !== name) console.log(`  ${other.padEnd(22)} ${description}`);
+    }
+};
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,109 @@
+import assert from 'assert/strict';
+import type { BillData } from '../types';
+import { parseBillText } from '../utils/ocrBillParser';
+import { parseBillDate } from '../utils/dates';
+import { buildAccountTrends } from '../utils/trends';
+
+// Checks the rule-based text parsers and the bill date parser against lines taken from real
+// bills, and the trend series built from them, so a fix for one layout does not quietly break
+// another.
+//
+//   npm run parsers:check -- [--only name]
+
+interface Check {
+    name: string;
+    run: () => void;
+}
+
+const trendBill = (id: string, analyzedAt: string, totalCurrentCharges: number): BillData => ({
+    id,
+    analyzedAt,
+    accountNumber: '4411-2290-7',
+    statementDate: '03/04/2024',
+    servicePeriodEnd: '02/28/2024',
+    totalCurrentCharges,
+    usageCharts: [{ title: 'Electricity Usage', unit: 'kWh', data: [{ month: 'Feb', usage: [{ year: '2024', value: 500 }] }] }],
+    lineItems: [],
+    confidenceScore: 90,
+    confidenceReasoning: '',
+});
+
+const CHECKS: Check[] = [
+    {
+        name: 'account-number-own-line',
+        run: () => {
+            assert.equal(parseBillText('Account Number: 1234-5678-90').accountNumber, '1234-5678-90');
+            assert.equal(parseBillText('Acct # AB 4411 2290').accountNumber, 'AB 4411 2290');
+        },
+    },
+    {
+        name: 'account-number-before-another-label',
+        run: () => {
+            const parsed = parseBillText('Account Number: 1234-5678-90 Statement Date 10/05/2024');
+            assert.equal(parsed.accountNumber, '1234-5678-90');
+            assert.equal(parsed.statementDate, '10/05/2024');
+        },
+    },
+    {
+        name: 'account-heading-is-not-a-number',
+        run: () => {
+            assert.equal(parseBillText('Account Summary').accountNumber, undefined);
+            assert.equal(parseBillText('Customer Service 1-800-555-0100').accountNumber, undefined);
+        },
+    },
+    {
+        name: 'dates-month-first',
+        run: () => {
+            assert.equal(parseBillDate('10/05/2017')?.toDateString(), new Date(2017, 9, 5).toDateString());
+            assert.equal(parseBillDate('2/29/24')?.toDateString(), new Date(2024, 1, 29).toDateString());
+            assert.equal(parseBillDate('2017-10-05')?.toDateString(), new Date(2017, 9, 5).toDateString());
+            assert.equal(parseBillDate('October 5th, 2017')?.toDateString(), new Date(2017, 9, 5).toDateString());
+        },
+    },
+    {
+        name: 'dates-impossible-are-rejected',
+        run: () => {
+            // Day-first dates and days past the end of the month must not roll over into another date.
+            assert.equal(parseBillDate('13/05/2017'), null);
+            assert.equal(parseBillDate('31/12/2017'), null);
+            assert.equal(parseBillDate('02/30/2017'), null);
+            assert.equal(parseBillDate('2/29/2023'), null);
+            assert.equal(parseBillDate('2017-13-01'), null);
+        },
+    },
+    {
+        name: 'trends-one-point-per-month',
+        run: () => {
+            // A re-analyzed statement, or a duplicate kept on purpose, replaces the older analysis.
+            const [trend] = buildAccountTrends([
+                trendBill('first', '2024-03-05T10:00:00.000Z', 100),
+                trendBill('second', '2024-03-06T10:00:00.000Z', 125),
+            ]);
+            assert.deepEqual(trend.charges.map(p => [p.key, p.total]), [['2024-03', 125]]);
+            assert.deepEqual(trend.costPerUnit, [{ key: '2024-02', unit: 'kWh', costPerUnit: 0.25 }]);
+        },
+    },
+];
+
+const main = () => {
+    const args = process.argv.slice(2);
+    const onlyIndex = args.indexOf('--only');
+    const only = onlyIndex >= 0 ? args[onlyIndex + 1] : undefined;
+    const checks = CHECKS.filter(c => !only || c.name === only);
+    if (checks.length === 0) throw new Error(`No check named "${only}".`);
+
+    let failed = 0;
+    for (const check of checks) {
+        try {
+            check.run();
+            console.log(`PASS  ${check.name}`);
+        } catch (error) {
+            failed++;
+            console.log(`FAIL  ${check.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    console.log(`\n${checks.length - failed}/${checks.length} checks passed.`);
+    process.exitCode = failed > 0 ? 1 : 0;
+};
+
+main();
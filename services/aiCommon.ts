@@ -0,0 +1,589 @@
+import type { AnalysisProgress, BillData, UsageChartData, LogEntry, OcrEngineOptions, OcrWord, PromptVersionRef, ProviderConfig, ProviderSettingField } from "../types";
+import { billSchema } from '../prompts/prompt_v2';
+import { DEFAULT_PROMPT_ID, DEFAULT_FUSION_PROMPT_ID, getPrompt, renderPrompt, toPromptVersionRef, type PromptDefinition } from '../prompts';
+import { processChart, extractOcrWords } from '../utils/chartProcessor';
+import { validateBill } from '../utils/validation';
+import { abortable, isCancellation } from '../utils/abort';
+import { recognizeImage } from '../utils/tesseractWorker';
+
+// Shared building blocks for the AI providers in ./providers.
+
+// Define a specific type for the logging function to ensure type safety.
+export type AddLogFn = (level: LogEntry['level'], message: string, payload?: any) => void;
+
+export type ProgressFn = (progress: AnalysisProgress) => void;
+
+// Reports how far a long step has got, from 0 to 1.
+export type FractionFn = (fraction: number) => void;
+
+/**
+ * Returns a reporter for one pass of an analysis. `fraction` is 0-1, or undefined while the share
+ * done is unknown.
+ */
+export const reportPass = (onProgress: ProgressFn | undefined, pass: string, label: string) =>
+    (fraction?: number, detail?: string, partialData?: Partial<BillData>) => {
+        const percent = fraction === undefined ? undefined : Math.round(Math.min(1, Math.max(0, fraction)) * 100);
+        onProgress?.({ pass, label, percent, detail, partialData });
+    };
+
+// --- Common Utilities ---
+
+export type BillDataSansId = Omit<BillData, 'id' | 'analyzedAt'>;
+export interface AnalysisResult {
+    parsedData: BillDataSansId;
+    rawResponse: string;
+}
+
+export const getValidatedUrl = (baseUrl: string, path: string, serviceName: string): string => {
+    try {
+        if (!/^(https?|ftp):\/\//i.test(baseUrl)) {
+             throw new Error("URL is missing a protocol (e.g., http:// or https://).");
+        }
+        const url = new URL(path, baseUrl);
+        return url.toString();
+    } catch (error) {
+        console.error(`Invalid ${serviceName} URL provided:`, error);
+        throw new Error(`The ${serviceName} URL "${baseUrl}" is invalid. Please check the format and try again.`);
+    }
+};
+
+// --- HTTP Responses ---
+
+const BODY_PREVIEW_LENGTH = 200;
+
+const previewBody = (body: string): string => {
+    const text = body.replace(/\s+/g, ' ').trim();
+    if (!text) return '(empty body)';
+    return text.length > BODY_PREVIEW_LENGTH ? `${text.slice(0, BODY_PREVIEW_LENGTH)}...` : text;
+};
+
+/**
+ * Throws when the server answered with an error status, naming the status and the start of the
+ * body, which for a proxy or gateway is often an HTML page rather than the server's own JSON.
+ */
+export const ensureOkResponse = async (response: Response, serviceName: string, addLog: AddLogFn): Promise<void> => {
+    if (response.ok) return;
+    const body = await response.text().catch(() => '');
+    addLog('ERROR', `${serviceName} returned HTTP ${response.status}`, body);
+    throw new Error(`API Error (${response.status}): ${response.statusText || 'Request failed'}. The server responded: ${previewBody(body)}`);
+};
+
+/**
+ * Reads a JSON response body. A response that is not JSON (e.g. a login or error page served
+ * with status 200) is reported with its status and start instead of as a JSON syntax error,
+ * which the providers would blame on the model.
+ */
+export const readJsonResponse = async (response: Response, serviceName: string, addLog: AddLogFn): Promise<any> => {
+    await ensureOkResponse(response, serviceName, addLog);
+    const body = await response.text();
+    const contentType = response.headers.get('content-type') ?? '';
+    if (!contentType || contentType.includes('json')) {
+        try {
+            return JSON.parse(body);
+        } catch {
+            // Reported below.
+        }
+    }
+    addLog('ERROR', `${serviceName} returned a non-JSON response (HTTP ${response.status}, ${contentType || 'no content type'})`, body);
+    throw new Error(`${serviceName} returned a response that is not JSON (HTTP ${response.status}${contentType ? `, ${contentType}` : ''}). Check the URL. The server responded: ${previewBody(body)}`);
+};
+
+const unwrapResponse = (rawJson: any): any =>
+    rawJson.properties && typeof rawJson.properties === 'object' ? rawJson.properties : rawJson;
+
+/**
+ * Maps the key styles models use (snake_case, synonyms, a `properties` wrapper) onto BillData and
+ * regroups flat chart points, without filling in missing fields. Also used on partial responses.
+ */
+export const normalizeAiResponse = (rawJson: any): Partial<BillData> => {
+    const sourceData = unwrapResponse(rawJson);
+
+    if (typeof sourceData !== 'object' || sourceData === null) {
+        return {};
+    }
+
+    const sanitized: any = {};
+    const keyMap: { [key: string]: string[] } = {
+        accountName: ['account_name'],
+        accountNumber: ['account_number', 'invoice_number', 'account_no'],
+        totalCurrentCharges: ['total_current_charges', 'total_due', 'amount_due', 'total', 'charges'],
+        statementDate: ['statement_date', 'bill_date', 'invoice_date'],
+        dueDate: ['due_date', 'payment_due'],
+        serviceAddress: ['service_address'],
+        lineItems: ['line_items', 'charges_details', 'breakdown'],
+        usageCharts: ['usage_charts', 'usage_history', 'graphs'],
+        confidenceScore: ['confidence_score'],
+        confidenceReasoning: ['confidence_reasoning'],
+        verificationQuestions: ['verification_questions'],
+    };
+
+    const findValue = (obj: any, primaryKey: string, alternatives: string[]): any => {
+        const keysToSearch = [primaryKey, ...alternatives];
+        for (const key of keysToSearch) {
+            const actualKey = Object.keys(obj).find(k => k.toLowerCase().replace(/_/g, '') === key.toLowerCase().replace(/_/g, ''));
+            if (actualKey && obj[actualKey] !== undefined) {
+                return obj[actualKey];
+            }
+        }
+        return undefined;
+    };
+
+    for (const key in keyMap) {
+        const value = findValue(sourceData, key, keyMap[key]);
+        if (value !== undefined) {
+            sanitized[key] = value;
+        }
+    }
+    
+    for (const key in sourceData) {
+        if (!sanitized.hasOwnProperty(key) && (billSchema.properties as any).hasOwnProperty(key)) {
+            sanitized[key] = sourceData[key];
+        }
+    }
+    
+    if (Array.isArray(sanitized.usageCharts)) {
+        // Filter out any non-object items that the AI might have mistakenly added.
+        sanitized.usageCharts = sanitized.usageCharts
+            .filter((chart: any) => typeof chart === 'object' && chart !== null && chart.data)
+            .map((chart: any) => {
+                if (!chart.data || !Array.isArray(chart.data)) return {...chart, data: []};
+                
+                // The AI might be asked to assign years. Let's ensure the structure is correct.
+                const isNested = chart.data.every((d: any) => d.month && Array.isArray(d.usage));
+                if(isNested) return chart;
+                
+                // This is a fallback to restructure flat data if the AI fails, but the prompt guides it well.
+                const monthMap: { [key: string]: { month: string, usage: { year: string, value: number }[] } } = {};
+                
+                for (const flatPoint of chart.data) {
+                    if (!flatPoint.month || typeof flatPoint.month !== 'string' || flatPoint.value === undefined) {
+                        continue;
+                    }
+
+                    const match = flatPoint.month.match(/([a-zA-Z]{3,})\.?\s*,?\s*(\d{4})/);
+                    if (match) {
+                        const month = match[1];
+                        const year = match[2];
+                        
+                        if (!monthMap[month]) {
+                            monthMap[month] = { month, usage: [] };
+                        }
+                        monthMap[month].usage.push({ year, value: parseFloat(String(flatPoint.value)) || 0 });
+                    }
+                }
+                return { ...chart, data: Object.values(monthMap) };
+            });
+    }
+    if (Array.isArray(sanitized.lineItems)) {
+        // Filter out invalid entries from lineItems to prevent crashes.
+        sanitized.lineItems = sanitized.lineItems.filter((item: any) => typeof item === 'object' && item !== null && item.description);
+    }
+
+    return sanitized;
+};
+
+export const sanitizeAiResponse = (rawJson: any): Partial<BillData> => {
+    const sourceData = unwrapResponse(rawJson);
+    if (typeof sourceData !== 'object' || sourceData === null) {
+        return {};
+    }
+    const sanitized: any = normalizeAiResponse(rawJson);
+
+    // Ensure required fields and arrays have safe default values to prevent crashes
+    sanitized.accountNumber = sanitized.accountNumber ?? 'N/A';
+    sanitized.totalCurrentCharges = sanitized.totalCurrentCharges ?? 0;
+    sanitized.confidenceScore = sanitized.confidenceScore ?? 0.5;
+    sanitized.confidenceReasoning = sanitized.confidenceReasoning ?? 'Confidence not provided by AI. Please verify data.';
+    sanitized.lineItems = Array.isArray(sanitized.lineItems) ? sanitized.lineItems : [];
+    sanitized.usageCharts = Array.isArray(sanitized.usageCharts) ? sanitized.usageCharts : [];
+    sanitized.verificationQuestions = Array.isArray(sanitized.verificationQuestions) ? sanitized.verificationQuestions : [];
+
+    return sanitized;
+};
+
+
+export const postProcessData = (parsedData: any): BillDataSansId => {
+    if (typeof parsedData.totalCurrentCharges === 'string') {
+        parsedData.totalCurrentCharges = parseFloat(parsedData.totalCurrentCharges.replace(/[^0-9.-]+/g,""));
+    }
+    if (parsedData.lineItems) {
+        parsedData.lineItems.forEach((item: any) => {
+            if(typeof item.amount === 'string') {
+                item.amount = parseFloat(item.amount.replace(/[^0-9.-]+/g, ""));
+            }
+        });
+    }
+    if (parsedData.usageCharts) {
+        parsedData.usageCharts.forEach((chart: any) => {
+            if (chart.data) {
+                chart.data.forEach((point: any) => {
+                    if(point.usage) {
+                        point.usage.forEach((u: any) => {
+                            if(typeof u.value === 'string') {
+                                u.value = parseFloat(u.value);
+                            }
+                        })
+                    }
+                })
+            }
+        })
+    }
+    return parsedData;
+};
+
+/** The fields of a response that is still being streamed, cleaned up like a finished one. */
+export const toPartialBill = (fields: Record<string, unknown>): Partial<BillData> =>
+    postProcessData(normalizeAiResponse(fields)) as Partial<BillData>;
+
+/** Share of the bill schema's top-level fields present in `data`, from 0 to 1. */
+export const schemaCompletion = (data: Partial<BillData>): number => {
+    const keys = Object.keys(billSchema.properties);
+    return keys.filter(key => (data as any)[key] !== undefined).length / keys.length;
+};
+
+// --- Self-Correction ---
+
+const DEFAULT_CORRECTION_RETRIES = 1;
+export const MAX_CORRECTION_RETRIES = 3;
+
+// Shared settings field for providers that support the correction loop.
+export const correctionRetriesField: ProviderSettingField = {
+    key: 'correctionRetries',
+    label: 'Self-Correction Retries',
+    type: 'number',
+    defaultValue: String(DEFAULT_CORRECTION_RETRIES),
+    description: `How many times the model is asked to fix invalid JSON or inconsistent results (0 to ${MAX_CORRECTION_RETRIES}). Each retry is another model call.`,
+};
+
+export const getCorrectionRetries = (config: ProviderConfig): number => {
+    const value = parseInt(config.correctionRetries ?? '', 10);
+    if (isNaN(value)) return DEFAULT_CORRECTION_RETRIES;
+    return Math.min(MAX_CORRECTION_RETRIES, Math.max(0, value));
+};
+
+// --- Request Timeout ---
+
+const DEFAULT_REQUEST_TIMEOUT_SECONDS = 300;
+
+// Shared settings field for providers that call a model; a hung model fails instead of waiting forever.
+export const requestTimeoutField: ProviderSettingField = {
+    key: 'requestTimeout',
+    label: 'Request Timeout (seconds)',
+    type: 'number',
+    defaultValue: String(DEFAULT_REQUEST_TIMEOUT_SECONDS),
+    description: 'How long to wait for each model response; every self-correction retry gets the full time again. 0 waits indefinitely.',
+};
+
+export const getRequestTimeoutMs = (config: ProviderConfig): number => {
+    const value = parseFloat(config.requestTimeout ?? '');
+    return isNaN(value) ? DEFAULT_REQUEST_TIMEOUT_SECONDS * 1000 : Math.max(0, value) * 1000;
+};
+
+export const getTimeoutMessage = (config: ProviderConfig): string =>
+    `The model did not respond within ${getRequestTimeoutMs(config) / 1000} seconds. Try a smaller model, or raise the request timeout in Settings.`;
+
+// --- Field Highlighting ---
+
+// Shared settings field for providers whose model reads the images itself. Highlighting needs
+// the position of every word, which only OCR gives, so by default it reuses an OCR pass the
+// analysis already made (e.g. for the OCR hybrid prompt) instead of running a new one.
+export const locateFieldsField: ProviderSettingField = {
+    key: 'locateFields',
+    label: 'Highlight Sources on the Bill',
+    type: 'select',
+    defaultValue: 'reuse',
+    options: [
+        { value: 'reuse', label: 'Only when the bill was read with OCR' },
+        { value: 'always', label: 'Always (runs OCR after the model answers)' },
+    ],
+    description: 'Shows where each value was found on the bill image. "Always" adds a full OCR pass to every analysis with an image-only prompt.',
+};
+
+/** Whether fields may be located with an OCR pass of their own when the analysis made none. */
+export const shouldRunOcrToLocateFields = (config: ProviderConfig): boolean => config.locateFields === 'always';
+
+// --- Prompt Selection ---
+
+// Shared settings field for providers that send one of the bill prompts from the prompt library
+// (the built-in prompts in `prompts/` and any custom ones made in Settings).
+export const promptField: ProviderSettingField = {
+    key: 'prompt',
+    label: 'Prompt',
+    type: 'prompt',
+    promptKind: 'bill',
+    defaultValue: DEFAULT_PROMPT_ID,
+    description: 'The OCR hybrid prompt runs OCR on the bill first and sends the text along with the images.',
+};
+
+// The prompt for the fusion pass of the multi-pass pipeline (OCR and chart readings to JSON).
+export const fusionPromptField: ProviderSettingField = {
+    key: 'prompt',
+    label: 'Fusion Prompt',
+    type: 'prompt',
+    promptKind: 'fusion',
+    defaultValue: DEFAULT_FUSION_PROMPT_ID,
+    description: 'Receives the OCR text and the chart readings. Custom prompts use {{ocrText}} and {{chartJson}} for them.',
+};
+
+/** Builds the configured prompt, running OCR first when the prompt needs the bill's text. */
+export const buildBillPrompt = async (pages: string[], config: ProviderConfig, addLog: AddLogFn, signal?: AbortSignal, onProgress?: ProgressFn): Promise<{ text: string; schema: PromptDefinition['schema']; promptVersion: PromptVersionRef }> => {
+    const prompt = getPrompt(config.prompt);
+    const promptVersion = toPromptVersionRef(prompt);
+    addLog('INFO', prompt.builtIn ? `Using prompt "${prompt.id}".` : `Using custom prompt "${prompt.label}" (v${prompt.version}).`);
+    if (!prompt.usesOcr) return { text: renderPrompt(prompt, {}), schema: prompt.schema, promptVersion };
+    addLog('PROGRESS', 'Running OCR for the prompt...');
+    const reportOcr = reportPass(onProgress, 'ocr', 'Reading the bill text (OCR)');
+    reportOcr(0);
+    const ocrText = await runOcrOnPages(pages, addLog, getOcrOptions(config), signal, fraction => reportOcr(fraction));
+    reportOcr(1);
+    return { text: renderPrompt(prompt, { ocrText }), schema: prompt.schema, promptVersion };
+};
+
+/**
+ * Problems worth sending back to the model. Only hard errors are included; soft warnings are
+ * often legitimate (e.g. a late statement) and a retry would not change them.
+ */
+export const findCorrectableProblems = (data: BillDataSansId): string[] => {
+    const problems: string[] = [];
+    if (!data.accountNumber || data.accountNumber === 'N/A') {
+        problems.push('The "accountNumber" field is missing. Look for an account, customer or invoice number on the bill.');
+    }
+    for (const warning of validateBill(data)) {
+        if (warning.severity === 'error') problems.push(warning.message);
+    }
+    return problems;
+};
+
+const buildCorrectionPrompt = (problems: string[]): string => `Your previous response has the following problems:
+${problems.map(p => `- ${p}`).join('\n')}
+
+Look at the bill again and return the complete, corrected JSON object. Keep every value that was already correct. Respond ONLY with the raw JSON object, with no other text or markdown.`;
+
+/** Sends the previous output and a correction prompt back to the model and returns its new raw output. */
+export type CorrectionRequestFn = (previousOutput: string, correctionPrompt: string) => Promise<string>;
+
+/**
+ * Parses a model response and, while it is invalid JSON or fails validation, asks the model to
+ * fix it, up to `maxRetries` times. Returns the attempt with the fewest problems. If no attempt
+ * could be parsed, the last parse error is rethrown.
+ */
+export const parseWithSelfCorrection = async (
+    initialOutput: string,
+    parse: (output: string) => BillDataSansId,
+    requestCorrection: CorrectionRequestFn,
+    maxRetries: number,
+    addLog: AddLogFn,
+): Promise<AnalysisResult> => {
+    let output = initialOutput;
+    let best: { result: AnalysisResult; problemCount: number } | null = null;
+    let lastParseError: unknown = null;
+
+    for (let attempt = 0; ; attempt++) {
+        let problems: string[];
+        try {
+            const parsedData = parse(output);
+            problems = findCorrectableProblems(parsedData);
+            if (!best || problems.length < best.problemCount) {
+                best = { result: { parsedData, rawResponse: output }, problemCount: problems.length };
+            }
+        } catch (error) {
+            if (!(error instanceof SyntaxError)) throw error;
+            lastParseError = error;
+            problems = [`The response was not valid JSON (${error.message}).`];
+        }
+
+        if (problems.length === 0) {
+            if (attempt > 0) addLog('INFO', `Correction attempt ${attempt} resolved all problems.`);
+            return best!.result;
+        }
+        if (attempt >= maxRetries) {
+            if (!best) throw lastParseError;
+            if (maxRetries > 0) {
+                addLog('INFO', `Problems remain after ${maxRetries} correction attempt(s). Keeping the response with the fewest problems (${best.problemCount}).`, problems);
+            }
+            return best.result;
+        }
+
+        addLog('INFO', `Correction attempt ${attempt + 1} of ${maxRetries}: asking the model to fix ${problems.length} problem(s).`, problems);
+        addLog('PROGRESS', `Asking the model to correct its response (attempt ${attempt + 1} of ${maxRetries})...`);
+        output = await requestCorrection(output, buildCorrectionPrompt(problems));
+        addLog('DEBUG', `Correction attempt ${attempt + 1} raw response:`, output);
+    }
+};
+
+// --- Multi-Page Helpers ---
+
+export const toImagePart = (imageB64: string) => ({
+    inlineData: {
+        mimeType: imageB64.substring(imageB64.indexOf(":") + 1, imageB64.indexOf(";")),
+        data: imageB64.substring(imageB64.indexOf(",") + 1),
+    },
+});
+
+/**
+ * Combines the charts found on each page into a single list. Charts that share a title and
+ * unit (e.g. a chart continued onto the next page) are merged month by month.
+ */
+export const mergeUsageCharts = (chartsPerPage: UsageChartData[][]): UsageChartData[] => {
+    const merged: UsageChartData[] = [];
+    for (const chart of chartsPerPage.flat()) {
+        const existing = merged.find(c => c.title === chart.title && c.unit === chart.unit);
+        if (!existing) {
+            merged.push({ ...chart, data: chart.data.map(d => ({ ...d, usage: [...d.usage] })) });
+            continue;
+        }
+        for (const point of chart.data) {
+            const existingPoint = existing.data.find(d => d.month === point.month);
+            if (!existingPoint) {
+                existing.data.push({ ...point, usage: [...point.usage] });
+                continue;
+            }
+            for (const usage of point.usage) {
+                if (!existingPoint.usage.some(u => u.year === usage.year)) {
+                    existingPoint.usage.push(usage);
+                }
+            }
+        }
+    }
+    return merged;
+};
+
+// --- Tesseract OCR Function ---
+
+/**
+ * Reads Tesseract path overrides from a provider config (see the OCR-only provider's settings).
+ */
+export const getOcrOptions = (config: ProviderConfig): OcrEngineOptions => {
+    const options: OcrEngineOptions = {};
+    // Only pass explicit overrides; an undefined value would replace Tesseract's own default.
+    if (config.workerPath) options.workerPath = config.workerPath;
+    if (config.corePath) options.corePath = config.corePath;
+    if (config.langPath) options.langPath = config.langPath;
+    return options;
+};
+
+export interface OcrPageResult {
+    text: string;
+    words: OcrWord[];
+}
+
+// Full-page OCR is the slowest step, and the same page is read by the provider and again when
+// locating field sources. Keep the most recent results keyed by the OCR settings and the page.
+// A pass is shared by every analysis reading the page, so it runs on its own signal: each caller
+// can give up on it, and it is only stopped once none of them is still waiting.
+const OCR_CACHE_SIZE = 8;
+
+interface OcrCacheEntry {
+    result: Promise<OcrPageResult>;
+    controller: AbortController;
+    waiting: number;
+    progress: Set<FractionFn>;
+}
+
+const ocrCache = new Map<string, OcrCacheEntry>();
+
+const ocrCacheKey = (imageB64: string, ocrOptions: OcrEngineOptions) => `${JSON.stringify(ocrOptions)}|${imageB64}`;
+
+const recognizePage = async (imageB64: string, addLog: AddLogFn, ocrOptions: OcrEngineOptions, signal?: AbortSignal, onFraction?: FractionFn): Promise<OcrPageResult> => {
+    const logger = (m: { status: string; progress: number }) => {
+        if (m.status === 'recognizing text') {
+             addLog('DEBUG', `Full-Page OCR Progress: ${(m.progress * 100).toFixed(0)}%`);
+             onFraction?.(m.progress);
+        }
+    };
+    const data = await recognizeImage(imageB64, ocrOptions, { text: true, blocks: true }, logger, signal);
+    return { text: data.text, words: extractOcrWords(data) };
+};
+
+const startOcrPass = (key: string, imageB64: string, addLog: AddLogFn, ocrOptions: OcrEngineOptions): OcrCacheEntry => {
+    const controller = new AbortController();
+    const progress = new Set<FractionFn>();
+    const entry: OcrCacheEntry = {
+        result: recognizePage(imageB64, addLog, ocrOptions, controller.signal, fraction => progress.forEach(report => report(fraction))),
+        controller,
+        waiting: 0,
+        progress,
+    };
+    // A failed or stopped pass is forgotten so the next analysis of the page reads it again.
+    entry.result.catch(() => {
+        if (ocrCache.get(key) === entry) ocrCache.delete(key);
+    });
+    ocrCache.set(key, entry);
+    if (ocrCache.size > OCR_CACHE_SIZE) {
+        ocrCache.delete(ocrCache.keys().next().value as string);
+    }
+    return entry;
+};
+
+/** Whether this page has already been read (or is being read) with OCR using these settings. */
+export const hasCachedOcr = (imageB64: string, ocrOptions: OcrEngineOptions = {}): boolean => ocrCache.has(ocrCacheKey(imageB64, ocrOptions));
+
+/**
+ * Runs full-page OCR and returns both the text and the word geometry.
+ */
+export const runOcrWithWords = async (imageB64: string, addLog: AddLogFn, ocrOptions: OcrEngineOptions = {}, signal?: AbortSignal, onFraction?: FractionFn): Promise<OcrPageResult> => {
+    const key = ocrCacheKey(imageB64, ocrOptions);
+    const cached = ocrCache.get(key);
+    if (cached) {
+        addLog('DEBUG', 'Reusing cached OCR result for this page.');
+    } else {
+        addLog('INFO', 'Starting full-page OCR with Tesseract.js...');
+    }
+    const entry = cached ?? startOcrPass(key, imageB64, addLog, ocrOptions);
+
+    let isWaiting = true;
+    const stopWaiting = () => {
+        if (!isWaiting) return;
+        isWaiting = false;
+        entry.waiting--;
+        if (onFraction) entry.progress.delete(onFraction);
+    };
+    entry.waiting++;
+    if (onFraction) entry.progress.add(onFraction);
+    try {
+        const result = await abortable(entry.result, signal, () => {
+            stopWaiting();
+            if (entry.waiting === 0) entry.controller.abort(signal!.reason);
+        });
+        onFraction?.(1);
+        if (!cached) {
+            addLog('INFO', 'Full-page OCR completed successfully.');
+            addLog('DEBUG', 'Full OCR Text:', { ocrText: result.text });
+        }
+        return result;
+    } catch (error) {
+        if (isCancellation(error)) throw error;
+        addLog('ERROR', 'OCR failed with Tesseract.js.', error);
+        throw new Error(`OCR processing failed. The OCR engine could not be loaded or failed to process the image. Details: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+        stopWaiting();
+    }
+};
+
+export const runOcr = async (imageB64: string, addLog: AddLogFn, ocrOptions: OcrEngineOptions = {}, signal?: AbortSignal, onFraction?: FractionFn): Promise<string> => {
+    const { text } = await runOcrWithWords(imageB64, addLog, ocrOptions, signal, onFraction);
+    return text;
+};
+
+// Spreads per-page progress evenly over the whole document.
+const pageFraction = (onFraction: FractionFn | undefined, page: number, pageCount: number): FractionFn | undefined =>
+    onFraction && (fraction => onFraction((page + fraction) / pageCount));
+
+export const runOcrOnPages = async (pages: string[], addLog: AddLogFn, ocrOptions?: OcrEngineOptions, signal?: AbortSignal, onFraction?: FractionFn): Promise<string> => {
+    if (pages.length === 1) return runOcr(pages[0], addLog, ocrOptions, signal, onFraction);
+    const texts: string[] = [];
+    for (let i = 0; i < pages.length; i++) {
+        addLog('INFO', `Running OCR on page ${i + 1} of ${pages.length}.`);
+        texts.push(`=== Page ${i + 1} ===\n${await runOcr(pages[i], addLog, ocrOptions, signal, pageFraction(onFraction, i, pages.length))}`);
+    }
+    return texts.join('\n\n');
+};
+
+export const processChartsOnPages = async (pages: string[], addLog: AddLogFn, ocrOptions?: OcrEngineOptions, signal?: AbortSignal, onFraction?: FractionFn): Promise<UsageChartData[]> => {
+    const chartsPerPage: UsageChartData[][] = [];
+    for (let i = 0; i < pages.length; i++) {
+        if (pages.length > 1) addLog('INFO', `Analyzing charts on page ${i + 1} of ${pages.length}.`);
+        chartsPerPage.push(await processChart(pages[i], addLog, ocrOptions, signal, pageFraction(onFraction, i, pages.length)));
+    }
+    return mergeUsageCharts(chartsPerPage);
+};
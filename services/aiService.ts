@@ -1,381 +1,184 @@
-import { GoogleGenAI } from "@google/genai";
-import type { BillData, AiSettings, OllamaModel, UsageChartData, LogEntry } from "../types";
-import { prompt as geminiPrompt, billSchema } from '../prompts/prompt_v2';
-import { processChart } from '../utils/chartProcessor';
-
-// Define a specific type for the logging function to ensure type safety.
-type AddLogFn = (level: LogEntry['level'], message: string, payload?: any) => void;
-
-// --- Common Utilities ---
-
-type BillDataSansId = Omit<BillData, 'id' | 'analyzedAt'>;
-interface AnalysisResult {
-    parsedData: BillDataSansId;
-    rawResponse: string;
-}
-
-const getValidatedOllamaUrl = (baseUrl: string, path: string): string => {
+import type { AiProvider, AiSettings, EnsembleMember, FieldSource, ProviderConfig } from "../types";
+import { type AddLogFn, type AnalysisResult, type ProgressFn, getOcrOptions, hasCachedOcr, reportPass, runOcrWithWords, shouldRunOcrToLocateFields } from './aiCommon';
+import { isCancellation } from '../utils/abort';
+import { locateFieldSources } from '../utils/fieldLocator';
+import { applyValidation } from '../utils/validation';
+import { computeImageHash } from '../utils/imageHash';
+import { mergeEnsembleResults, type EnsembleMemberResult } from '../utils/ensemble';
+import { getPrompt, type PromptDefinition } from '../prompts';
+import { getProvider, getProviderConfig } from './providerRegistry';
+import './providers';
+
+export { getProvider, getProviderConfig, listProviders } from './providerRegistry';
+export type { AiProviderDefinition } from './providerRegistry';
+
+// --- Source Highlighting ---
+
+/**
+ * Keeps the page images with the result and records where each extracted field appears on them.
+ * The word positions come from the OCR pass the provider made; without one, fields are only
+ * located when the provider is set to run OCR for it. Locating is best-effort: a failure here
+ * never fails the analysis itself.
+ */
+const attachFieldSources = async (pages: string[], result: AnalysisResult, config: ProviderConfig, addLog: AddLogFn, signal?: AbortSignal, onProgress?: ProgressFn): Promise<AnalysisResult> => {
+    let fieldSources: Record<string, FieldSource> = {};
+    const ocrOptions = getOcrOptions(config);
+    if (!shouldRunOcrToLocateFields(config) && !pages.every(page => hasCachedOcr(page, ocrOptions))) {
+        addLog('INFO', 'The bill was not read with OCR, so fields are not highlighted. Set "Highlight Sources on the Bill" to "Always" in Settings to run OCR for it.');
+        return { ...result, parsedData: { ...result.parsedData, sourceImages: pages, fieldSources } };
+    }
+    const reportLocate = reportPass(onProgress, 'locate', 'Locating fields on the bill');
     try {
-        if (!/^(https?|ftp):\/\//i.test(baseUrl)) {
-             throw new Error("URL is missing a protocol (e.g., http:// or https://).");
+        addLog('PROGRESS', 'Locating extracted fields on the bill image...');
+        reportLocate(0);
+        const wordsPerPage = [];
+        for (const [index, page] of pages.entries()) {
+            const onFraction = (fraction: number) => reportLocate((index + fraction) / pages.length);
+            wordsPerPage.push((await runOcrWithWords(page, addLog, ocrOptions, signal, onFraction)).words);
         }
-        const url = new URL(path, baseUrl);
-        return url.toString();
+        fieldSources = locateFieldSources(result.parsedData, wordsPerPage);
+        reportLocate(1);
+        addLog('DEBUG', `Located ${Object.keys(fieldSources).length} field(s) on the source image.`, fieldSources);
     } catch (error) {
-        console.error("Invalid Ollama URL provided:", error);
-        throw new Error(`The Ollama URL "${baseUrl}" is invalid. Please check the format and try again.`);
+        if (isCancellation(error)) throw error;
+        addLog('ERROR', 'Could not locate fields on the source image. Highlighting will be unavailable.', error);
+        reportLocate(1, 'Skipped');
     }
+    return { ...result, parsedData: { ...result.parsedData, sourceImages: pages, fieldSources } };
 };
 
-const sanitizeAiResponse = (rawJson: any): Partial<BillData> => {
-    const sourceData = rawJson.properties && typeof rawJson.properties === 'object' ? rawJson.properties : rawJson;
+// --- Duplicate Detection ---
 
-    if (typeof sourceData !== 'object' || sourceData === null) {
-        return {};
+/** Hashes the first page so a later upload of the same statement can be recognized. */
+const attachImageHash = async (pages: string[], result: AnalysisResult, addLog: AddLogFn): Promise<AnalysisResult> => {
+    try {
+        const imageHash = await computeImageHash(pages[0]);
+        return { ...result, parsedData: { ...result.parsedData, imageHash } };
+    } catch (error) {
+        addLog('ERROR', 'Could not hash the bill image. Duplicate detection will only compare statement dates.', error);
+        return result;
     }
+};
 
-    const sanitized: any = {};
-    const keyMap: { [key: string]: string[] } = {
-        accountName: ['account_name'],
-        accountNumber: ['account_number', 'invoice_number', 'account_no'],
-        totalCurrentCharges: ['total_current_charges', 'total_due', 'amount_due', 'total', 'charges'],
-        statementDate: ['statement_date', 'bill_date', 'invoice_date'],
-        dueDate: ['due_date', 'payment_due'],
-        serviceAddress: ['service_address'],
-        lineItems: ['line_items', 'charges_details', 'breakdown'],
-        usageCharts: ['usage_charts', 'usage_history', 'graphs'],
-        confidenceScore: ['confidence_score'],
-        confidenceReasoning: ['confidence_reasoning'],
-        verificationQuestions: ['verification_questions'],
-    };
+// --- Running a Provider ---
 
-    const findValue = (obj: any, primaryKey: string, alternatives: string[]): any => {
-        const keysToSearch = [primaryKey, ...alternatives];
-        for (const key of keysToSearch) {
-            const actualKey = Object.keys(obj).find(k => k.toLowerCase().replace(/_/g, '') === key.toLowerCase().replace(/_/g, ''));
-            if (actualKey && obj[actualKey] !== undefined) {
-                return obj[actualKey];
-            }
-        }
-        return undefined;
-    };
-
-    for (const key in keyMap) {
-        const value = findValue(sourceData, key, keyMap[key]);
-        if (value !== undefined) {
-            sanitized[key] = value;
-        }
+const runProvider = async (pages: string[], providerId: AiProvider, config: ProviderConfig, addLog: AddLogFn, signal?: AbortSignal, onProgress?: ProgressFn): Promise<AnalysisResult> => {
+    const provider = getProvider(providerId);
+    if (!provider) {
+        throw new Error(`Invalid AI provider: ${providerId}`);
     }
-    
-    for (const key in sourceData) {
-        if (!sanitized.hasOwnProperty(key) && (billSchema.properties as any).hasOwnProperty(key)) {
-            sanitized[key] = sourceData[key];
-        }
+    const configError = provider.validateConfig?.(config);
+    if (configError) {
+        addLog('ERROR', configError);
+        throw new Error(configError);
     }
-    
-    if (Array.isArray(sanitized.usageCharts)) {
-        // Filter out any non-object items that the AI might have mistakenly added.
-        sanitized.usageCharts = sanitized.usageCharts
-            .filter((chart: any) => typeof chart === 'object' && chart !== null && chart.data)
-            .map((chart: any) => {
-                if (!chart.data || !Array.isArray(chart.data)) return {...chart, data: []};
-                
-                // The AI might be asked to assign years. Let's ensure the structure is correct.
-                const isNested = chart.data.every((d: any) => d.month && Array.isArray(d.usage));
-                if(isNested) return chart;
-                
-                // This is a fallback to restructure flat data if the AI fails, but the prompt guides it well.
-                const monthMap: { [key: string]: { month: string, usage: { year: string, value: number }[] } } = {};
-                
-                for (const flatPoint of chart.data) {
-                    if (!flatPoint.month || typeof flatPoint.month !== 'string' || flatPoint.value === undefined) {
-                        continue;
-                    }
 
-                    const match = flatPoint.month.match(/([a-zA-Z]{3,})\.?\s*,?\s*(\d{4})/);
-                    if (match) {
-                        const month = match[1];
-                        const year = match[2];
-                        
-                        if (!monthMap[month]) {
-                            monthMap[month] = { month, usage: [] };
-                        }
-                        monthMap[month].usage.push({ year, value: parseFloat(String(flatPoint.value)) || 0 });
-                    }
-                }
-                return { ...chart, data: Object.values(monthMap) };
-            });
-    }
-
-    // Ensure required fields and arrays have safe default values to prevent crashes
-    sanitized.accountNumber = sanitized.accountNumber ?? 'N/A';
-    sanitized.totalCurrentCharges = sanitized.totalCurrentCharges ?? 0;
-    sanitized.confidenceScore = sanitized.confidenceScore ?? 0.5;
-    sanitized.confidenceReasoning = sanitized.confidenceReasoning ?? 'Confidence not provided by AI. Please verify data.';
-    // Filter out invalid entries from lineItems to prevent crashes.
-    sanitized.lineItems = Array.isArray(sanitized.lineItems) 
-        ? sanitized.lineItems.filter((item: any) => typeof item === 'object' && item !== null && item.description) 
-        : [];
-    sanitized.usageCharts = Array.isArray(sanitized.usageCharts) ? sanitized.usageCharts : [];
-    sanitized.verificationQuestions = Array.isArray(sanitized.verificationQuestions) ? sanitized.verificationQuestions : [];
-
-    return sanitized;
+    addLog('PROGRESS', `Preparing to analyze ${pages.length} page(s) with ${provider.label}...`);
+    return provider.analyze(pages, config, addLog, signal, onProgress);
 };
 
+// --- Ensemble Runs ---
 
-const postProcessData = (parsedData: any): BillDataSansId => {
-    if (typeof parsedData.totalCurrentCharges === 'string') {
-        parsedData.totalCurrentCharges = parseFloat(parsedData.totalCurrentCharges.replace(/[^0-9.-]+/g,""));
-    }
-    if (parsedData.lineItems) {
-        parsedData.lineItems.forEach((item: any) => {
-            if(typeof item.amount === 'string') {
-                item.amount = parseFloat(item.amount.replace(/[^0-9.-]+/g, ""));
-            }
-        });
-    }
-    if (parsedData.usageCharts) {
-        parsedData.usageCharts.forEach((chart: any) => {
-            if (chart.data) {
-                chart.data.forEach((point: any) => {
-                    if(point.usage) {
-                        point.usage.forEach((u: any) => {
-                            if(typeof u.value === 'string') {
-                                u.value = parseFloat(u.value);
-                            }
-                        })
-                    }
-                })
-            }
-        })
-    }
-    return parsedData;
-};
+/** The configured ensemble, or null when a single provider should run. */
+const getEnsembleMembers = (settings: AiSettings): EnsembleMember[] | null =>
+    settings.ensemble?.enabled && settings.ensemble.members.length >= 2 ? settings.ensemble.members : null;
 
-// --- Tesseract OCR Function ---
+const getMemberConfig = (settings: AiSettings, member: EnsembleMember): ProviderConfig =>
+    ({ ...getProviderConfig(settings, member.provider), ...member.overrides });
 
-const runOcr = async (imageB64: string, addLog: AddLogFn): Promise<string> => {
-    addLog('INFO', 'Starting full-page OCR with Tesseract.js...');
-    try {
-        const Tesseract = (await import('tesseract.js')).default;
-        
-        const { data: { text } } = await Tesseract.recognize(
-            imageB64, 
-            'eng',
-            { 
-                logger: m => {
-                    if (m.status === 'recognizing text') {
-                         addLog('DEBUG', `Full-Page OCR Progress: ${(m.progress * 100).toFixed(0)}%`);
-                    }
-                }
-            }
-        );
+// Built-in prompts by id; custom ones by name and version, since the same one can be edited between runs.
+const describePrompt = (prompt: PromptDefinition): string => prompt.builtIn ? prompt.id : `${prompt.label} v${prompt.version}`;
 
-        addLog('INFO', 'Full-page OCR completed successfully.');
-        addLog('DEBUG', 'Full OCR Text:', { ocrText: text });
-        return text;
-    } catch (error) {
-        addLog('ERROR', 'OCR failed with Tesseract.js.', error);
-        throw new Error(`OCR processing failed. The OCR engine could not be loaded or failed to process the image. Details: ${error instanceof Error ? error.message : String(error)}`);
-    }
+/** A short name for an ensemble member, e.g. "Google Gemini (gemini-2.5-flash, prompt_v2)". */
+const describeEnsembleMember = (settings: AiSettings, member: EnsembleMember): string => {
+    const provider = getProvider(member.provider);
+    const config = getMemberConfig(settings, member);
+    const details = (provider?.settingsSchema ?? [])
+        .filter(field => field.type === 'model' || field.type === 'prompt')
+        .map(field => field.type === 'prompt' ? describePrompt(getPrompt(config[field.key], field.promptKind)) : config[field.key])
+        .filter(Boolean);
+    return `${provider?.label ?? member.provider}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
 };
 
-// --- Gemini Provider ---
-
-const callGemini = async (imageB64: string, addLog: AddLogFn): Promise<AnalysisResult> => {
-    addLog('INFO', 'Starting bill analysis with Gemini...');
-    addLog('PROGRESS', 'Initializing Gemini API...');
-    
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const imagePart = {
-        inlineData: {
-            mimeType: imageB64.substring(imageB64.indexOf(":") + 1, imageB64.indexOf(";")),
-            data: imageB64.substring(imageB64.indexOf(",") + 1),
-        },
-    };
-
+const parseRawResponse = (raw: string): unknown => {
     try {
-        const requestPayload = {
-            model: "gemini-2.5-flash",
-            contents: { parts: [{ text: geminiPrompt }, imagePart] },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: billSchema,
-            },
-        };
-        addLog('DEBUG', 'Gemini Request Payload:', requestPayload);
-        addLog('PROGRESS', 'Sending image to Gemini model...');
-
-        const response = await ai.models.generateContent(requestPayload);
-        
-        addLog('PROGRESS', 'Received response from Gemini.');
-        const jsonText = response.text.trim();
-        addLog('DEBUG', 'Gemini Raw Response:', jsonText);
-        
-        addLog('PROGRESS', 'Parsing and structuring data...');
-        const parsedJson = JSON.parse(jsonText);
-        const sanitizedJson = sanitizeAiResponse(parsedJson);
-        addLog('INFO', 'Successfully parsed & sanitized Gemini response.', sanitizedJson);
-        const parsedData = postProcessData(sanitizedJson);
-        addLog('PROGRESS', 'Analysis complete.');
-        return { parsedData, rawResponse: jsonText };
-    } catch (error) {
-        addLog('ERROR', 'Gemini API Error:', error);
-        console.error("Gemini API Error:", error);
-        throw new Error("Failed to analyze bill with Gemini. The model could not process the image. Check your API key and try a clearer image.");
+        return JSON.parse(raw);
+    } catch {
+        return raw;
     }
 };
 
-// --- Ollama Provider ---
-
-const callOllama = async (imageB64: string, url: string, model: string, addLog: AddLogFn): Promise<AnalysisResult> => {
-    if (!url || !model) {
-        addLog('ERROR', 'Ollama URL or model is not configured.');
-        throw new Error("Ollama URL or model is not configured. Please add it in the settings.");
-    }
-    addLog('INFO', `Starting analysis with Ollama model: ${model} using Multi-Pass Fusion Framework.`);
-    addLog('PROGRESS', 'Initializing Ollama multi-pass analysis...');
-
-    let endpoint: string;
-    try {
-        endpoint = getValidatedOllamaUrl(url, "/api/chat");
-    } catch (error) {
-        addLog('ERROR', 'Invalid Ollama URL in settings', { url, error });
-        if (error instanceof Error) throw error;
-        throw new Error("An unknown error occurred during Ollama URL validation.");
-    }
-
-    try {
-        // Pass 1: Full-document OCR to get all text.
-        addLog('PROGRESS', 'Pass 1: Performing full-page OCR...');
-        const ocrTextPromise = runOcr(imageB64, addLog);
-
-        // Pass 2: Specialized chart analysis using a programmatic, pixel-based process.
-        addLog('PROGRESS', 'Pass 2: Analyzing charts with pixel detection...');
-        const chartDataPromise = processChart(imageB64, addLog);
-        
-        const [ocrText, analyzedCharts] = await Promise.all([ocrTextPromise, chartDataPromise]);
-
-        // Pass 3: Final data fusion and structuring with the AI.
-        addLog('INFO', 'Final pass: Fusing all data into the final schema using AI.');
-        addLog('PROGRESS', 'Pass 3: Fusing data with Ollama model...');
-        const finalPrompt = `You are a data structuring expert. You are given raw OCR text from a utility bill and a perfectly pre-analyzed JSON object for the bill's usage chart(s). Your job is to combine this information to produce a single, final JSON object that conforms to the provided schema.
-
-- Prioritize the raw OCR text for extracting account details, dates, and line items.
-- The OCR text may contain errors. Use your reasoning to correct them (e.g., misread numbers, garbled text).
-- Use the pre-analyzed chart JSON directly for the 'usageCharts' field. The values in this JSON are programmatically generated and 100% accurate. Do not try to re-analyze the chart from the image or text.
-- Based on the statement date found in the OCR text, you MUST update any placeholder years (like 'YYYY') in the provided chart data to the correct year(s). The chart data typically shows usage for the past 12-13 months, so reason about the correct calendar years for the given months. For dual-bar charts, the legend in the text/image will tell you which years are represented.
-- Your entire response MUST be a single, raw JSON object. Do not include any other text or markdown.
-
-**Raw OCR Text:**
----
-${ocrText}
----
-
-**Pre-analyzed Usage Chart JSON (Use this directly):**
----
-${JSON.stringify(analyzedCharts, null, 2)}
----
-`;
-
-        const finalBody = {
-            model: model,
-            format: "json",
-            stream: false,
-            messages: [{
-                role: "system", content: finalPrompt
-            }, {
-                role: "user", content: "Analyze the bill using the provided OCR text and pre-analyzed chart data.", images: [imageB64.substring(imageB64.indexOf(",") + 1)]
-            }],
-        };
-        addLog('DEBUG', `Ollama Final Fusion Request to ${endpoint}`, { model: finalBody.model, prompt: finalPrompt });
-
-        const response = await fetch(endpoint, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(finalBody) });
-        if (!response.ok) throw new Error(`API Error (${response.status}): ${response.statusText}`);
-        
-        const responseData = await response.json();
-        const finalContent = responseData.message.content;
-        addLog('DEBUG', 'Ollama Final Fusion Raw Response:', finalContent);
-        const finalJson = JSON.parse(finalContent);
-        
-        // The AI was told to use the chart data, but we override it here to be 100% certain it's correct.
-        finalJson.usageCharts = finalJson.usageCharts && finalJson.usageCharts.length > 0 ? finalJson.usageCharts : analyzedCharts;
-        
-        addLog('PROGRESS', 'Finalizing and sanitizing data...');
-        addLog('INFO', 'Final fusion successful. Sanitizing and processing data.');
-        addLog('DEBUG', 'Data before sanitization:', finalJson);
-        const sanitizedJson = sanitizeAiResponse(finalJson);
-        addLog('DEBUG', 'Data after sanitization:', sanitizedJson);
-        const parsedData = postProcessData(sanitizedJson);
-        addLog('DEBUG', 'Final processed data:', parsedData);
-        addLog('PROGRESS', 'Analysis complete.');
-        return { parsedData, rawResponse: JSON.stringify(finalJson) };
-
-    } catch (error) {
-        addLog('ERROR', 'Ollama multi-pass fusion failed:', error);
-        if (error instanceof TypeError) {
-             throw new Error("Could not connect to the Ollama server. This is often a network or CORS issue. Please ensure: 1) The server is running. 2) The URL is correct. 3) CORS is enabled on the Ollama server (e.g., set OLLAMA_ORIGINS='*').");
-        }
-        if (error instanceof SyntaxError) {
-            throw new Error("Ollama returned invalid JSON. The model may not have followed instructions. Check the debug log.");
+/**
+ * Runs every member one after another (local models and OCR compete for the same CPU) and
+ * merges their results by voting per field. A failing member is left out of the vote; the run
+ * only fails when all of them do.
+ */
+const runEnsemble = async (pages: string[], settings: AiSettings, members: EnsembleMember[], addLog: AddLogFn, signal?: AbortSignal, onProgress?: ProgressFn): Promise<AnalysisResult> => {
+    const labels = members.map(member => describeEnsembleMember(settings, member))
+        .map((label, index, all) => all.indexOf(label) === index ? label : `${label} #${index + 1}`);
+    addLog('INFO', `Running an ensemble of ${members.length} configurations: ${labels.join(', ')}.`);
+    const reportRuns = reportPass(onProgress, 'ensemble', 'Ensemble runs');
+
+    const succeeded: (EnsembleMemberResult & { rawResponse: string })[] = [];
+    const failures: { label: string; message: string }[] = [];
+    for (const [index, member] of members.entries()) {
+        reportRuns(index / members.length, `Run ${index + 1} of ${members.length}: ${labels[index]}`);
+        // Each run's passes get their own bars. Partial fields are not passed on: the runs would
+        // keep overwriting each other's.
+        const runProgress: ProgressFn | undefined = onProgress && (({ partialData, ...step }) =>
+            onProgress({ ...step, pass: `${index}:${step.pass}`, label: `${labels[index]}: ${step.label}` }));
+        try {
+            const result = await runProvider(pages, member.provider, getMemberConfig(settings, member), addLog, signal, runProgress);
+            signal?.throwIfAborted();
+            succeeded.push({ label: labels[index], data: result.parsedData, rawResponse: result.rawResponse });
+        } catch (error) {
+            if (isCancellation(error)) throw error;
+            const message = error instanceof Error ? error.message : String(error);
+            failures.push({ label: labels[index], message });
+            addLog('ERROR', `Ensemble run "${labels[index]}" failed and is left out of the vote.`, error);
         }
-        if (error instanceof Error) throw error;
-        throw new Error("An unknown error occurred during the Ollama analysis workflow.");
     }
-};
-
-export const fetchOllamaModels = async (url: string, addLog: AddLogFn): Promise<OllamaModel[]> => {
-    if (!url) {
-        throw new Error("Ollama URL is not provided.");
-    }
-    addLog('INFO', `Fetching models from Ollama at ${url}`);
-    
-    let endpoint: string;
-    try {
-        endpoint = getValidatedOllamaUrl(url, "/api/tags");
-    } catch (error) {
-        addLog('ERROR', 'Invalid Ollama URL in settings', { url, error });
-        if (error instanceof Error) throw error;
-        throw new Error("An unknown error occurred during Ollama URL validation.");
+    if (succeeded.length === 0) {
+        throw new Error(`Every ensemble run failed. ${failures.map(f => `${f.label}: ${f.message}`).join(' ')}`);
     }
+    reportRuns(1, `${succeeded.length} of ${members.length} runs succeeded`);
 
-    try {
-        const response = await fetch(endpoint);
-        if (!response.ok) {
-            const errorBody = await response.text();
-            addLog('ERROR', `Failed to fetch Ollama models (${response.status})`, errorBody);
-            throw new Error(`Failed to fetch models: ${response.statusText}. The server responded with status ${response.status}.`);
-        }
-        const data = await response.json();
-        addLog('DEBUG', 'Ollama models fetched successfully.', data.models);
-        return data.models;
-    } catch (error) {
-        addLog('ERROR', 'Error fetching Ollama models:', error);
-        console.error("Error fetching Ollama models:", error);
-        if (error instanceof TypeError) { 
-            throw new Error("Could not connect to the Ollama server. This is often a network or CORS issue. Please ensure: 1) The server is running. 2) The URL is correct. 3) CORS is enabled on the Ollama server (e.g., set OLLAMA_ORIGINS='*').");
-        }
-        if (error instanceof Error) {
-            throw error;
-        }
-        throw new Error("An unexpected error occurred while fetching Ollama models. Check the debug log.");
-    }
-};
+    const merged = mergeEnsembleResults(succeeded);
+    if (failures.length > 0) merged.ensemble.failedMembers = failures.map(f => f.label);
+    const disagreements = Object.entries(merged.ensemble.agreement).filter(([, agreement]) => agreement.alternatives);
+    addLog('INFO', `Ensemble vote finished: ${disagreements.length} field(s) with conflicting values.`, merged.ensemble.agreement);
 
+    const rawResponse = JSON.stringify({ ensemble: succeeded.map(r => ({ run: r.label, response: parseRawResponse(r.rawResponse) })) });
+    return { parsedData: merged, rawResponse };
+};
 
 // --- Main Service Function ---
 
-export const analyzeBill = async (imageB64: string, settings: AiSettings, addLog: AddLogFn): Promise<AnalysisResult> => {
-    addLog('PROGRESS', `Preparing to analyze with ${settings.provider}...`);
-    switch (settings.provider) {
-        case 'gemini':
-            return callGemini(imageB64, addLog);
-        case 'ollama':
-            // Ollama now uses the new programmatic Multi-Pass Fusion Framework.
-            return callOllama(imageB64, settings.ollamaUrl, settings.ollamaModel, addLog);
-        default:
-            const exhaustiveCheck: never = settings.provider;
-            throw new Error(`Invalid AI provider: ${exhaustiveCheck}`);
-    }
-};
\ No newline at end of file
+/**
+ * Analyzes a bill made of one or more page images (in page order) and returns a single,
+ * merged result. With an ensemble configured, every member analyzes the bill and the results
+ * are merged by voting. Aborting `signal` stops the OCR workers and model requests, and the
+ * promise rejects with the signal's AbortError. `onProgress` receives per-pass progress, and
+ * partial fields from providers that stream.
+ */
+export const analyzeBill = async (pages: string[], settings: AiSettings, addLog: AddLogFn, signal?: AbortSignal, onProgress?: ProgressFn): Promise<AnalysisResult> => {
+    if (pages.length === 0) {
+        throw new Error("No pages to analyze.");
+    }
+    const members = getEnsembleMembers(settings);
+    // Locating fields reuses the OCR settings of the provider (or first ensemble member).
+    const config = members ? getMemberConfig(settings, members[0]) : getProviderConfig(settings, settings.provider);
+    const result = members
+        ? await runEnsemble(pages, settings, members, addLog, signal, onProgress)
+        : await runProvider(pages, settings.provider, config, addLog, signal, onProgress);
+    signal?.throwIfAborted();
+
+    const validated = applyValidation(result.parsedData);
+    if (validated.validationWarnings.length > 0) {
+        addLog('INFO', `Validation found ${validated.validationWarnings.length} issue(s) in the extracted data.`, validated.validationWarnings);
+    }
+    const located = await attachFieldSources(pages, { ...result, parsedData: validated }, config, addLog, signal, onProgress);
+    const hashed = await attachImageHash(pages, located, addLog);
+    signal?.throwIfAborted();
+    return hashed;
+};
@@ -0,0 +1,142 @@
+import type { Account, AiSettings, BillData, CustomPrompt } from '../types';
+import { migrateSettings } from '../hooks/useAiSettings';
+import { readCustomPrompts } from '../hooks/usePromptLibrary';
+import * as billStore from './billStore';
+
+// A backup is a single JSON file holding the whole history, the AI settings and the custom
+// prompts, so analyzed bills can be moved between browsers or machines.
+
+const BACKUP_FORMAT = 'ai-bill-analyzer-backup';
+// Version 2 added accounts. Bills from a version 1 backup are assigned to accounts on import.
+// Version 3 added the custom prompts from the Prompt Library.
+const BACKUP_VERSION = 3;
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    billSchemaVersion: number;
+    includesImages: boolean;
+    settings: AiSettings;
+    customPrompts?: CustomPrompt[]; // Missing from backups older than version 3.
+    accounts: Account[];
+    bills: BillData[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportSummary {
+    imported: number;
+    skipped: number; // Bills whose id already existed (merge mode only).
+    settingsRestored: boolean;
+}
+
+export const createBackup = async (settings: AiSettings, customPrompts: CustomPrompt[], includeImages: boolean): Promise<BackupFile> => ({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    billSchemaVersion: billStore.BILL_SCHEMA_VERSION,
+    includesImages: includeImages,
+    settings,
+    customPrompts,
+    accounts: await billStore.listAccounts(),
+    bills: await billStore.getAllBills(includeImages),
+});
+
+export const downloadBackup = (backup: BackupFile) => {
+    const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `bill-analyzer-backup-${backup.exportedAt.slice(0, 10)}.json`;
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+/** Reads and checks a backup file. Bills are migrated to the current schema. */
+export const parseBackup = async (file: File): Promise<BackupFile> => {
+    let raw: any;
+    try {
+        raw = JSON.parse(await file.text());
+    } catch {
+        throw new Error(`"${file.name}" is not a valid backup file. It could not be read as JSON.`);
+    }
+    if (!raw || raw.format !== BACKUP_FORMAT) {
+        throw new Error(`"${file.name}" is not an AI Bill Analyzer backup.`);
+    }
+    if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+        throw new Error(`This backup was made by a newer version of the app (backup version ${raw.version}). Please update the app and try again.`);
+    }
+    if (!Array.isArray(raw.bills)) {
+        throw new Error('The backup does not contain any bills.');
+    }
+
+    // Ids are unique within a backup; if a hand-edited file repeats one, the first copy wins.
+    const seenIds = new Set<string>();
+    const bills: BillData[] = [];
+    for (const bill of raw.bills) {
+        if (!bill || typeof bill.id !== 'string' || seenIds.has(bill.id)) continue;
+        seenIds.add(bill.id);
+        bills.push(billStore.migrateBill({ schemaVersion: raw.billSchemaVersion, ...bill }));
+    }
+    return {
+        ...raw,
+        settings: migrateSettings(raw.settings ?? {}),
+        customPrompts: raw.version >= 3 ? readCustomPrompts(raw.customPrompts) : undefined,
+        accounts: Array.isArray(raw.accounts) ? raw.accounts.filter((account: any) => account && typeof account.id === 'string' && Array.isArray(account.aliases)) : [],
+        bills,
+    };
+};
+
+/**
+ * Maps each backup account to a local account with a shared account number, so the same real
+ * account from another machine (which has its own account ids) is not duplicated.
+ */
+const matchBackupAccounts = (backupAccounts: Account[], localAccounts: Account[]) => {
+    const idMap = new Map<string, string>();
+    const newAccounts: Account[] = [];
+    for (const account of backupAccounts) {
+        const match = localAccounts.find(local => local.id === account.id || local.aliases.some(alias => account.aliases.includes(alias)));
+        if (match) {
+            idMap.set(account.id, match.id);
+        } else {
+            newAccounts.push(account);
+        }
+    }
+    return { idMap, newAccounts };
+};
+
+/**
+ * Restores a backup into the store. `replace` wipes the current history and restores the
+ * settings; `merge` only adds bills whose id is not already present and keeps current settings.
+ */
+export const restoreBackup = async (backup: BackupFile, mode: ImportMode): Promise<ImportSummary> => {
+    if (mode === 'replace') {
+        await billStore.replaceAllBills(backup.bills, backup.accounts);
+        return { imported: backup.bills.length, skipped: 0, settingsRestored: true };
+    }
+
+    const { idMap, newAccounts } = matchBackupAccounts(backup.accounts, await billStore.listAccounts());
+    await billStore.addAccounts(newAccounts);
+
+    const existingIds = new Set(await billStore.getBillIds());
+    const newBills = backup.bills
+        .filter(bill => !existingIds.has(bill.id))
+        .map(bill => bill.accountId && idMap.has(bill.accountId) ? { ...bill, accountId: idMap.get(bill.accountId) } : bill);
+    await billStore.saveBills(newBills);
+    return { imported: newBills.length, skipped: backup.bills.length - newBills.length, settingsRestored: false };
+};
+
+/**
+ * The prompt library after an import. `replace` uses the backup's prompts, since its settings may
+ * refer to them; `merge` adds the backup prompts whose id is not already in the library. A backup
+ * made before prompts were included leaves the library as it is.
+ */
+export const restoreCustomPrompts = (backup: BackupFile, mode: ImportMode, current: CustomPrompt[]): CustomPrompt[] => {
+    if (!backup.customPrompts) return current;
+    if (mode === 'replace') return backup.customPrompts;
+    return [...current, ...backup.customPrompts.filter(prompt => !current.some(p => p.id === prompt.id))];
+};
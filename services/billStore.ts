@@ -0,0 +1,417 @@
+import type { Account, BillData } from '../types';
+import { findMatchingAccount, createAccountFromBill, mergeAccountDetails } from '../utils/accounts';
+import { isDuplicateBill, findDuplicateIds, type DuplicateCandidate } from '../utils/duplicates';
+import { detectAnomalies } from '../utils/anomalies';
+
+// Persistent bill history backed by IndexedDB. Bills and their page images live in separate
+// object stores so the history list can page through bills without loading any images.
+
+const DB_NAME = 'billAnalyzer';
+const DB_VERSION = 4;
+const BILLS_STORE = 'bills';
+const IMAGES_STORE = 'billImages';
+const ACCOUNTS_STORE = 'accounts';
+const ANALYZED_AT_INDEX = 'analyzedAt';
+const ACCOUNT_INDEX = 'accountId_analyzedAt';
+const STATEMENT_INDEX = 'accountId_statementDate';
+const IMAGE_HASH_INDEX = 'total_imageHash';
+const ALL_STORES = [BILLS_STORE, IMAGES_STORE, ACCOUNTS_STORE];
+// The history used to live in localStorage under this key; it is imported once and removed.
+const LEGACY_HISTORY_KEY = 'billHistory';
+
+/** Version of the stored BillData shape. Bump it and add a migration when BillData changes. */
+export const BILL_SCHEMA_VERSION = 2;
+
+type StoredBill = Omit<BillData, 'sourceImages'> & { schemaVersion: number };
+
+interface StoredImages {
+    id: string;
+    images: string[];
+}
+
+/**
+ * Upgrades a stored record from the keyed version to the next one. Records are migrated when
+ * read and written back in the current shape the next time they are saved.
+ */
+const BILL_MIGRATIONS: Record<number, (record: any) => any> = {
+    // Version 1 is the shape saved to localStorage before the store existed. Early versions of
+    // the app could save string amounts and omit the arrays.
+    1: record => ({
+        ...record,
+        analyzedAt: record.analyzedAt ?? new Date(0).toISOString(),
+        totalCurrentCharges: typeof record.totalCurrentCharges === 'string'
+            ? parseFloat(record.totalCurrentCharges.replace(/[^0-9.-]+/g, '')) || 0
+            : record.totalCurrentCharges ?? 0,
+        lineItems: Array.isArray(record.lineItems) ? record.lineItems : [],
+        usageCharts: Array.isArray(record.usageCharts) ? record.usageCharts : [],
+    }),
+};
+
+const migrateRecord = (record: any): StoredBill => {
+    let migrated = record;
+    let version: number = record.schemaVersion ?? 1;
+    while (version < BILL_SCHEMA_VERSION) {
+        const migrate = BILL_MIGRATIONS[version];
+        if (!migrate) throw new Error(`No migration from bill schema version ${version}.`);
+        migrated = migrate(migrated);
+        version++;
+    }
+    return { ...migrated, schemaVersion: version };
+};
+
+const toStoredBill = ({ sourceImages, ...bill }: BillData): StoredBill => ({ ...bill, schemaVersion: BILL_SCHEMA_VERSION });
+
+const fromStoredBill = ({ schemaVersion, ...bill }: StoredBill, images?: StoredImages): BillData =>
+    images ? { ...bill, sourceImages: images.images } : bill;
+
+/** Brings a bill saved by any earlier version of the app (e.g. from a backup) up to date. */
+export const migrateBill = (record: any): BillData => fromStoredBill(migrateRecord(record));
+
+// --- IndexedDB Plumbing ---
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('The storage transaction was aborted.'));
+});
+
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => {
+    // Each step upgrades from the previous database version, so a fresh install runs them all.
+    if (oldVersion < 1) {
+        const bills = db.createObjectStore(BILLS_STORE, { keyPath: 'id' });
+        bills.createIndex(ANALYZED_AT_INDEX, 'analyzedAt');
+        db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+    }
+    if (oldVersion < 2) {
+        db.createObjectStore(ACCOUNTS_STORE, { keyPath: 'id' });
+        tx.objectStore(BILLS_STORE).createIndex(ACCOUNT_INDEX, ['accountId', 'analyzedAt']);
+    }
+    if (oldVersion < 3) {
+        // Bills without a statement date or image hash are simply left out of these indexes.
+        tx.objectStore(BILLS_STORE).createIndex(STATEMENT_INDEX, ['accountId', 'statementDate']);
+        tx.objectStore(BILLS_STORE).createIndex(IMAGE_HASH_INDEX, ['totalCurrentCharges', 'imageHash']);
+    }
+    // Version 4 changes no stores; existing bills are re-saved after opening to flag anomalies.
+};
+
+// Covers every entry starting with `first` in a compound index, e.g. all bills of one account.
+const prefixRange = (first: IDBValidKey) => IDBKeyRange.bound([first], [first, []]);
+
+/** Reads the keys of an index with their primary keys, without loading any records. */
+const indexKeys = (index: IDBIndex): Promise<{ key: IDBValidKey; id: string }[]> => new Promise((resolve, reject) => {
+    const entries: { key: IDBValidKey; id: string }[] = [];
+    const request = index.openKeyCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+            resolve(entries);
+            return;
+        }
+        entries.push({ key: cursor.key, id: String(cursor.primaryKey) });
+        cursor.continue();
+    };
+});
+
+/**
+ * Writes bills within an open transaction over all stores, assigning any bill without a
+ * (still existing) account to a matching account, or to a new one, and flagging anomalies
+ * against the other bills of its account.
+ */
+const putBills = async (tx: IDBTransaction, bills: BillData[]): Promise<BillData[]> => {
+    const accountsStore = tx.objectStore(ACCOUNTS_STORE);
+    const accounts = await requestResult<Account[]>(accountsStore.getAll());
+    const assigned = bills.map(bill => {
+        if (bill.accountId && accounts.some(a => a.id === bill.accountId)) return bill;
+        let account = findMatchingAccount(accounts, bill);
+        if (!account) {
+            account = createAccountFromBill(bill);
+            accounts.push(account);
+            accountsStore.put(account);
+        }
+        return { ...bill, accountId: account.id };
+    });
+
+    // Each account's bills as they will be once this write completes.
+    const accountBills = new Map<string, BillData[]>();
+    const accountIndex = tx.objectStore(BILLS_STORE).index(ACCOUNT_INDEX);
+    for (const accountId of new Set(assigned.map(bill => bill.accountId!))) {
+        const records = await requestResult<StoredBill[]>(accountIndex.getAll(prefixRange(accountId)));
+        accountBills.set(accountId, records.map(record => fromStoredBill(migrateRecord(record))));
+    }
+    for (const bill of assigned) {
+        const siblings = accountBills.get(bill.accountId!)!;
+        const index = siblings.findIndex(b => b.id === bill.id);
+        if (index === -1) siblings.push(bill); else siblings[index] = bill;
+    }
+
+    return assigned.map(bill => {
+        const saved = { ...bill, anomalies: detectAnomalies(bill, accountBills.get(bill.accountId!)!) };
+        tx.objectStore(BILLS_STORE).put(toStoredBill(saved));
+        if (saved.sourceImages) {
+            tx.objectStore(IMAGES_STORE).put({ id: saved.id, images: saved.sourceImages });
+        }
+        return saved;
+    });
+};
+
+// After an upgrade, bills saved by the older version are re-saved once, which assigns them to
+// accounts and flags anomalies.
+const resaveExistingBills = async (db: IDBDatabase) => {
+    const tx = db.transaction(ALL_STORES, 'readwrite');
+    const records = await requestResult<StoredBill[]>(tx.objectStore(BILLS_STORE).getAll());
+    await putBills(tx, records.map(migrateBill));
+    await transactionDone(tx);
+};
+
+const importLegacyHistory = async (db: IDBDatabase) => {
+    const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (!saved) return;
+    let legacyBills: any[];
+    try {
+        legacyBills = JSON.parse(saved);
+    } catch (error) {
+        console.error("Failed to parse legacy history from localStorage", error);
+        return;
+    }
+    if (Array.isArray(legacyBills) && legacyBills.length > 0) {
+        const tx = db.transaction(ALL_STORES, 'readwrite');
+        await putBills(tx, legacyBills.filter(record => record && typeof record.id === 'string').map(migrateBill));
+        await transactionDone(tx);
+    }
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        let needsResave = false;
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('This browser does not support IndexedDB, so bill history cannot be saved.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = event => {
+                upgradeDatabase(request.result, event.oldVersion, request.transaction!);
+                needsResave = event.oldVersion > 0;
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error('The bill history database is open in another tab with an older version. Close other tabs and reload.'));
+        }).then(async db => {
+            if (needsResave) await resaveExistingBills(db);
+            await importLegacyHistory(db);
+            return db;
+        });
+        // Allow a later call to try again instead of caching the failure.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+// --- Public API ---
+
+/**
+ * Inserts or replaces bills in a single transaction and returns them with their account
+ * assigned. Images are only written when a bill carries them.
+ */
+export const saveBills = async (bills: BillData[]): Promise<BillData[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(ALL_STORES, 'readwrite');
+    const saved = await putBills(tx, bills);
+    await transactionDone(tx);
+    return saved;
+};
+
+export const saveBill = async (bill: BillData): Promise<BillData> => (await saveBills([bill]))[0];
+
+/** Loads a single bill including its source images. */
+export const getBill = async (id: string): Promise<BillData | null> => {
+    const db = await openDatabase();
+    const tx = db.transaction([BILLS_STORE, IMAGES_STORE], 'readonly');
+    const [record, images] = await Promise.all([
+        requestResult<StoredBill | undefined>(tx.objectStore(BILLS_STORE).get(id)),
+        requestResult<StoredImages | undefined>(tx.objectStore(IMAGES_STORE).get(id)),
+    ]);
+    return record ? fromStoredBill(migrateRecord(record), images) : null;
+};
+
+export const deleteBill = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([BILLS_STORE, IMAGES_STORE], 'readwrite');
+    tx.objectStore(BILLS_STORE).delete(id);
+    tx.objectStore(IMAGES_STORE).delete(id);
+    await transactionDone(tx);
+};
+
+/** Returns a page of an account's bills, newest first, without their source images. */
+export const listBillsByAccount = async (accountId: string, offset: number, limit: number): Promise<BillData[]> => {
+    const db = await openDatabase();
+    const index = db.transaction(BILLS_STORE, 'readonly').objectStore(BILLS_STORE).index(ACCOUNT_INDEX);
+    return new Promise((resolve, reject) => {
+        const bills: BillData[] = [];
+        let skipped = offset === 0;
+        const request = index.openCursor(prefixRange(accountId), 'prev');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor || bills.length >= limit) {
+                resolve(bills);
+                return;
+            }
+            if (!skipped) {
+                skipped = true;
+                cursor.advance(offset);
+                return;
+            }
+            bills.push(fromStoredBill(migrateRecord(cursor.value)));
+            cursor.continue();
+        };
+    });
+};
+
+/** Returns every bill, newest first. Images are only loaded when asked for. */
+export const getAllBills = async (includeImages = false): Promise<BillData[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction([BILLS_STORE, IMAGES_STORE], 'readonly');
+    const [records, images] = await Promise.all([
+        requestResult<StoredBill[]>(tx.objectStore(BILLS_STORE).index(ANALYZED_AT_INDEX).getAll()),
+        includeImages ? requestResult<StoredImages[]>(tx.objectStore(IMAGES_STORE).getAll()) : Promise.resolve([]),
+    ]);
+    const imagesById = new Map(images.map(entry => [entry.id, entry]));
+    return records.reverse().map(record => fromStoredBill(migrateRecord(record), imagesById.get(record.id)));
+};
+
+export const getBillIds = async (): Promise<string[]> => {
+    const db = await openDatabase();
+    const keys = await requestResult(db.transaction(BILLS_STORE, 'readonly').objectStore(BILLS_STORE).getAllKeys());
+    return keys.map(String);
+};
+
+/** Replaces the whole history in one transaction, so a failure leaves the old history intact. */
+export const replaceAllBills = async (bills: BillData[], accounts: Account[]): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(ALL_STORES, 'readwrite');
+    ALL_STORES.forEach(store => tx.objectStore(store).clear());
+    accounts.forEach(account => tx.objectStore(ACCOUNTS_STORE).put(account));
+    await putBills(tx, bills);
+    await transactionDone(tx);
+};
+
+/**
+ * Finds saved bills that look like the same statement as `bill` (see utils/duplicates).
+ * The bill does not need to be saved yet; its account is resolved the way saving would.
+ */
+export const findDuplicates = async (bill: BillData): Promise<BillData[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction([BILLS_STORE, ACCOUNTS_STORE], 'readonly');
+    const billsStore = tx.objectStore(BILLS_STORE);
+    const accountId = bill.accountId ?? findMatchingAccount(await requestResult<Account[]>(tx.objectStore(ACCOUNTS_STORE).getAll()), bill)?.id;
+    const [sameAccount, sameTotal] = await Promise.all([
+        accountId ? requestResult<StoredBill[]>(billsStore.index(STATEMENT_INDEX).getAll(prefixRange(accountId))) : Promise.resolve([]),
+        bill.imageHash ? requestResult<StoredBill[]>(billsStore.index(IMAGE_HASH_INDEX).getAll(prefixRange(bill.totalCurrentCharges))) : Promise.resolve([]),
+    ]);
+    const candidate = { ...bill, accountId };
+    const matches = new Map<string, StoredBill>();
+    [...sameAccount, ...sameTotal]
+        .filter(record => isDuplicateBill(candidate, record))
+        .forEach(record => matches.set(record.id, record));
+    return [...matches.values()].map(record => fromStoredBill(migrateRecord(record)));
+};
+
+/** Ids of all saved bills that have a duplicate in the history. Only index keys are read. */
+export const listDuplicateIds = async (): Promise<Set<string>> => {
+    const db = await openDatabase();
+    const billsStore = db.transaction(BILLS_STORE, 'readonly').objectStore(BILLS_STORE);
+    const [statementKeys, hashKeys] = await Promise.all([
+        indexKeys(billsStore.index(STATEMENT_INDEX)),
+        indexKeys(billsStore.index(IMAGE_HASH_INDEX)),
+    ]);
+    const candidates = new Map<string, DuplicateCandidate>();
+    const candidate = (id: string) => candidates.get(id) ?? candidates.set(id, { id, totalCurrentCharges: 0 }).get(id)!;
+    for (const { key, id } of statementKeys) {
+        const [accountId, statementDate] = key as [string, string];
+        Object.assign(candidate(id), { accountId, statementDate });
+    }
+    for (const { key, id } of hashKeys) {
+        const [totalCurrentCharges, imageHash] = key as [number, string];
+        Object.assign(candidate(id), { totalCurrentCharges, imageHash });
+    }
+    return findDuplicateIds([...candidates.values()]);
+};
+
+export const countBills = async (): Promise<number> => {
+    const db = await openDatabase();
+    return requestResult(db.transaction(BILLS_STORE, 'readonly').objectStore(BILLS_STORE).count());
+};
+
+// --- Accounts ---
+
+export const listAccounts = async (): Promise<Account[]> => {
+    const db = await openDatabase();
+    return requestResult<Account[]>(db.transaction(ACCOUNTS_STORE, 'readonly').objectStore(ACCOUNTS_STORE).getAll());
+};
+
+/** Number of bills per account id. */
+export const countBillsByAccount = async (): Promise<Record<string, number>> => {
+    const db = await openDatabase();
+    const tx = db.transaction([BILLS_STORE, ACCOUNTS_STORE], 'readonly');
+    const index = tx.objectStore(BILLS_STORE).index(ACCOUNT_INDEX);
+    const ids = (await requestResult(tx.objectStore(ACCOUNTS_STORE).getAllKeys())).map(String);
+    const counts = await Promise.all(ids.map(id => requestResult(index.count(prefixRange(id)))));
+    return Object.fromEntries(ids.map((id, i) => [id, counts[i]]));
+};
+
+export const saveAccount = async (account: Account): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(ACCOUNTS_STORE, 'readwrite');
+    tx.objectStore(ACCOUNTS_STORE).put(account);
+    await transactionDone(tx);
+};
+
+/** Adds accounts, e.g. from a backup, leaving existing accounts with the same id untouched. */
+export const addAccounts = async (accounts: Account[]): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(ACCOUNTS_STORE, 'readwrite');
+    const store = tx.objectStore(ACCOUNTS_STORE);
+    const existing = new Set((await requestResult(store.getAllKeys())).map(String));
+    accounts.filter(account => !existing.has(account.id)).forEach(account => store.put(account));
+    await transactionDone(tx);
+};
+
+/**
+ * Merges accounts that are really the same (typically OCR variants of one account number):
+ * their bills move to the target, their numbers become aliases of it, and they are deleted.
+ */
+export const mergeAccounts = async (targetId: string, sourceIds: string[]): Promise<Account> => {
+    const db = await openDatabase();
+    const tx = db.transaction([BILLS_STORE, ACCOUNTS_STORE], 'readwrite');
+    const accountsStore = tx.objectStore(ACCOUNTS_STORE);
+    const billsStore = tx.objectStore(BILLS_STORE);
+
+    const target = await requestResult<Account | undefined>(accountsStore.get(targetId));
+    if (!target) throw new Error('The account to merge into no longer exists.');
+    const sources = (await Promise.all(sourceIds.filter(id => id !== targetId).map(id => requestResult<Account | undefined>(accountsStore.get(id)))))
+        .filter((account): account is Account => !!account);
+
+    const accountBills: BillData[] = (await requestResult<StoredBill[]>(billsStore.index(ACCOUNT_INDEX).getAll(prefixRange(targetId))))
+        .map(record => fromStoredBill(migrateRecord(record)));
+    for (const source of sources) {
+        const records = await requestResult<StoredBill[]>(billsStore.index(ACCOUNT_INDEX).getAll(prefixRange(source.id)));
+        accountBills.push(...records.map(record => ({ ...fromStoredBill(migrateRecord(record)), accountId: targetId })));
+        accountsStore.delete(source.id);
+    }
+    // Anomalies compare a bill with the account's earlier bills, so they change with the merged history.
+    accountBills.forEach(bill => billsStore.put(toStoredBill({ ...bill, anomalies: detectAnomalies(bill, accountBills) })));
+    const merged = mergeAccountDetails(target, sources);
+    accountsStore.put(merged);
+    await transactionDone(tx);
+    return merged;
+};
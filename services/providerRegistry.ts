@@ -0,0 +1,47 @@
+import type { AiProvider, AiSettings, ConnectionTestResult, ProviderConfig, ProviderModel, ProviderSettingField } from '../types';
+import type { AddLogFn, AnalysisResult, ProgressFn } from './aiCommon';
+
+/**
+ * Everything the app needs to know about an AI backend. New backends only have to implement
+ * this interface and call `registerProvider`; the settings screen renders `settingsSchema`
+ * generically.
+ */
+export interface AiProviderDefinition {
+    id: AiProvider;
+    label: string;
+    description?: string;
+    settingsSchema: ProviderSettingField[];
+    // Must stop and reject with the signal's reason when `signal` aborts. `onProgress` is told
+    // how far each pass has got, and may receive fields before the whole response is in.
+    analyze: (pages: string[], config: ProviderConfig, addLog: AddLogFn, signal?: AbortSignal, onProgress?: ProgressFn) => Promise<AnalysisResult>;
+    listModels: (config: ProviderConfig, addLog: AddLogFn) => Promise<ProviderModel[]>;
+    testConnection: (config: ProviderConfig, addLog: AddLogFn) => Promise<ConnectionTestResult>;
+    // Returns a user-facing message when the provider cannot run with this config, e.g. a missing API key.
+    validateConfig?: (config: ProviderConfig) => string | null;
+}
+
+const registry = new Map<AiProvider, AiProviderDefinition>();
+
+export const registerProvider = (provider: AiProviderDefinition): void => {
+    if (registry.has(provider.id)) {
+        console.warn(`AI provider "${provider.id}" is already registered and will be replaced.`);
+    }
+    registry.set(provider.id, provider);
+};
+
+export const getProvider = (id: AiProvider): AiProviderDefinition | undefined => registry.get(id);
+
+export const listProviders = (): AiProviderDefinition[] => Array.from(registry.values());
+
+/**
+ * Returns the stored config for a provider with schema defaults filled in for missing fields.
+ */
+export const getProviderConfig = (settings: AiSettings, providerId: AiProvider): ProviderConfig => {
+    const provider = registry.get(providerId);
+    const stored = settings.providerSettings?.[providerId] ?? {};
+    const defaults: ProviderConfig = {};
+    for (const field of provider?.settingsSchema ?? []) {
+        if (field.defaultValue !== undefined) defaults[field.key] = field.defaultValue;
+    }
+    return { ...defaults, ...stored };
+};
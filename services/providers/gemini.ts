@@ -0,0 +1,110 @@
+import { GoogleGenAI } from "@google/genai";
+import type { ProviderConfig } from '../../types';
+import { type AddLogFn, type AnalysisResult, type ProgressFn, sanitizeAiResponse, postProcessData, toImagePart, correctionRetriesField, getCorrectionRetries, parseWithSelfCorrection, promptField, locateFieldsField, buildBillPrompt, requestTimeoutField, getRequestTimeoutMs, getTimeoutMessage, reportPass } from '../aiCommon';
+import { isTimeout, withTimeout } from '../../utils/abort';
+import type { AiProviderDefinition } from '../providerRegistry';
+
+const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro'];
+
+const callGemini = async (pages: string[], config: ProviderConfig, addLog: AddLogFn, signal?: AbortSignal, onProgress?: ProgressFn): Promise<AnalysisResult> => {
+    addLog('INFO', `Starting bill analysis with Gemini (${pages.length} page(s))...`);
+    addLog('PROGRESS', 'Initializing Gemini API...');
+
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+    const { text: billPrompt, schema: billSchema, promptVersion } = await buildBillPrompt(pages, config, addLog, signal, onProgress);
+    const promptParts = [{ text: billPrompt }];
+    if (pages.length > 1) {
+        promptParts.push({ text: `This bill spans ${pages.length} pages, provided below in order. Treat them as ONE bill: combine the line items and usage charts from every page into a single JSON object.` });
+    }
+
+    const generationConfig = {
+        responseMimeType: "application/json",
+        responseSchema: billSchema,
+    };
+    // Every call gets its own time limit, so retries are not cut short by the first one. The SDK
+    // replaces the abort reason with its own error, so the signal tells a timeout apart.
+    let requestSignal: AbortSignal | undefined;
+    const requestConfig = () => {
+        requestSignal = withTimeout(signal, getRequestTimeoutMs(config));
+        return { ...generationConfig, abortSignal: requestSignal };
+    };
+
+    try {
+        const model = config.model || GEMINI_MODELS[0];
+        const userTurn = { role: 'user', parts: [...promptParts, ...pages.map(toImagePart)] };
+        const requestPayload = { model, contents: { parts: userTurn.parts }, config: generationConfig };
+        addLog('DEBUG', 'Gemini Request Payload:', requestPayload);
+        addLog('PROGRESS', `Sending ${pages.length > 1 ? `${pages.length} pages` : 'image'} to Gemini model...`);
+
+        const reportModel = reportPass(onProgress, 'model', `Extracting fields with ${model}`);
+        reportModel(undefined, 'Waiting for the full response');
+        const response = await ai.models.generateContent({ ...requestPayload, config: requestConfig() });
+        reportModel(1);
+
+        addLog('PROGRESS', 'Received response from Gemini.');
+        const jsonText = response.text.trim();
+        addLog('DEBUG', 'Gemini Raw Response:', jsonText);
+
+        addLog('PROGRESS', 'Parsing and structuring data...');
+        const parse = (output: string) => {
+            const sanitizedJson = sanitizeAiResponse(JSON.parse(output));
+            addLog('INFO', 'Successfully parsed & sanitized Gemini response.', sanitizedJson);
+            return { ...postProcessData(sanitizedJson), promptVersion };
+        };
+        // Corrections continue the conversation so the model sees the images and its own answer.
+        let correctionCount = 0;
+        const requestCorrection = async (previousOutput: string, correctionPrompt: string) => {
+            const reportCorrection = reportPass(onProgress, 'model', `Correcting the response (attempt ${++correctionCount})`);
+            reportCorrection(undefined, 'Waiting for the full response');
+            const correction = await ai.models.generateContent({
+                model,
+                contents: [
+                    userTurn,
+                    { role: 'model', parts: [{ text: previousOutput }] },
+                    { role: 'user', parts: [{ text: correctionPrompt }] },
+                ],
+                config: requestConfig(),
+            });
+            reportCorrection(1);
+            return correction.text.trim();
+        };
+        const result = await parseWithSelfCorrection(jsonText, parse, requestCorrection, getCorrectionRetries(config), addLog);
+        addLog('PROGRESS', 'Analysis complete.');
+        return result;
+    } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        addLog('ERROR', 'Gemini API Error:', error);
+        if (isTimeout(requestSignal?.reason)) throw new Error(getTimeoutMessage(config));
+        console.error("Gemini API Error:", error);
+        throw new Error("Failed to analyze bill with Gemini. The model could not process the image. Check your API key and try a clearer image.");
+    }
+};
+
+const validateGeminiConfig = (): string | null =>
+    process.env.API_KEY ? null : "Gemini API key is not configured. Please set the API_KEY environment variable.";
+
+export const geminiProvider: AiProviderDefinition = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'The Gemini API key is configured securely on the server using the API_KEY environment variable.',
+    settingsSchema: [
+        { key: 'model', label: 'Model', type: 'model', defaultValue: GEMINI_MODELS[0] },
+        promptField,
+        locateFieldsField,
+        correctionRetriesField,
+        requestTimeoutField,
+    ],
+    analyze: callGemini,
+    // The model list is fixed; the API key comes from the build environment rather than user settings.
+    listModels: async () => GEMINI_MODELS.map(id => ({ id })),
+    testConnection: async (_config, addLog) => {
+        const error = validateGeminiConfig();
+        if (error) {
+            addLog('ERROR', error);
+            return { ok: false, message: error };
+        }
+        return { ok: true, message: 'Gemini API key is configured.' };
+    },
+    validateConfig: validateGeminiConfig,
+};
@@ -0,0 +1,11 @@
+import { registerProvider } from '../providerRegistry';
+import { geminiProvider } from './gemini';
+import { ollamaProvider } from './ollama';
+import { openAiCompatibleProvider } from './openaiCompatible';
+import { ocrOnlyProvider } from './ocrOnly';
+
+// Built-in providers. Additional backends register themselves the same way.
+registerProvider(geminiProvider);
+registerProvider(ollamaProvider);
+registerProvider(openAiCompatibleProvider);
+registerProvider(ocrOnlyProvider);
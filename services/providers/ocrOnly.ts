@@ -0,0 +1,118 @@
+import type { ProviderConfig, VerificationQuestion } from '../../types';
+import { parseBillText, type ParsedBillText } from '../../utils/ocrBillParser';
+import { lineItemsReconcile as amountsReconcile } from '../../utils/validation';
+import { type AddLogFn, type AnalysisResult, type BillDataSansId, type ProgressFn, postProcessData, runOcrOnPages, processChartsOnPages, getOcrOptions, reportPass } from '../aiCommon';
+import type { AiProviderDefinition } from '../providerRegistry';
+
+// How much each extracted field contributes to the confidence score. Sums to 1.
+const FIELD_WEIGHTS = {
+    accountNumber: 0.2,
+    totalCurrentCharges: 0.2,
+    statementDate: 0.1,
+    dueDate: 0.1,
+    servicePeriod: 0.1,
+    lineItems: 0.1,
+    lineItemsReconcile: 0.1,
+    usageCharts: 0.1,
+};
+// Rule-based parsing can misread text without noticing, so never claim full certainty.
+const MAX_CONFIDENCE = 0.9;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const lineItemsReconcile = (parsed: ParsedBillText): boolean =>
+    parsed.totalCurrentCharges !== undefined && parsed.lineItems.length > 0 && amountsReconcile(parsed.lineItems, parsed.totalCurrentCharges);
+
+const scoreExtraction = (parsed: ParsedBillText, chartCount: number) => {
+    const checks: { key: keyof typeof FIELD_WEIGHTS; found: boolean; label: string }[] = [
+        { key: 'accountNumber', found: !!parsed.accountNumber, label: 'account number' },
+        { key: 'totalCurrentCharges', found: parsed.totalCurrentCharges !== undefined, label: 'total charges' },
+        { key: 'statementDate', found: !!parsed.statementDate, label: 'statement date' },
+        { key: 'dueDate', found: !!parsed.dueDate, label: 'due date' },
+        { key: 'servicePeriod', found: !!(parsed.servicePeriodStart && parsed.servicePeriodEnd), label: 'service period' },
+        { key: 'lineItems', found: parsed.lineItems.length > 0, label: 'line items' },
+        { key: 'lineItemsReconcile', found: lineItemsReconcile(parsed), label: 'line items adding up to the total' },
+        { key: 'usageCharts', found: chartCount > 0, label: 'usage charts' },
+    ];
+    const raw = checks.reduce((sum, check) => sum + (check.found ? FIELD_WEIGHTS[check.key] : 0), 0);
+    const found = checks.filter(c => c.found).map(c => c.label);
+    const missing = checks.filter(c => !c.found).map(c => c.label);
+
+    const reasoning = [
+        'Extracted with rule-based OCR parsing (no AI model).',
+        found.length > 0 ? `Found: ${found.join(', ')}.` : 'No fields could be identified.',
+        missing.length > 0 ? `Missing or unverified: ${missing.join(', ')}.` : '',
+    ].filter(Boolean).join(' ');
+
+    return { score: roundCents(raw * MAX_CONFIDENCE), reasoning };
+};
+
+const buildVerificationQuestions = (parsed: ParsedBillText): VerificationQuestion[] => {
+    const questions: VerificationQuestion[] = [];
+    if (!parsed.accountNumber) {
+        questions.push({ field: 'accountNumber', question: 'The account number could not be found in the OCR text. Please enter it.' });
+    }
+    if (parsed.totalCurrentCharges === undefined) {
+        questions.push({ field: 'totalCurrentCharges', question: 'The total current charges could not be found in the OCR text. Please enter the amount.' });
+    } else if (parsed.lineItems.length > 0 && !lineItemsReconcile(parsed)) {
+        questions.push({ field: 'lineItems', question: `The line items do not add up to the total of ${parsed.totalCurrentCharges.toFixed(2)}. Are any charges missing or misread?` });
+    }
+    return questions;
+};
+
+const analyzeWithOcrOnly = async (pages: string[], config: ProviderConfig, addLog: AddLogFn, signal?: AbortSignal, onProgress?: ProgressFn): Promise<AnalysisResult> => {
+    addLog('INFO', `Starting offline OCR-only extraction (${pages.length} page(s)). No AI model will be contacted.`);
+    const ocrOptions = getOcrOptions(config);
+
+    addLog('PROGRESS', 'Pass 1: Performing full-page OCR...');
+    const reportOcr = reportPass(onProgress, 'ocr', 'Pass 1: Full-page OCR');
+    reportOcr(0);
+    const ocrTextPromise = runOcrOnPages(pages, addLog, ocrOptions, signal, fraction => reportOcr(fraction));
+    addLog('PROGRESS', 'Pass 2: Analyzing charts with pixel detection...');
+    const reportCharts = reportPass(onProgress, 'charts', 'Pass 2: Chart detection');
+    reportCharts(0);
+    const chartDataPromise = processChartsOnPages(pages, addLog, ocrOptions, signal, fraction => reportCharts(fraction));
+    const [ocrText, usageCharts] = await Promise.all([ocrTextPromise, chartDataPromise]);
+    reportOcr(1);
+    reportCharts(1, `${usageCharts.length} chart(s) found`);
+
+    addLog('PROGRESS', 'Pass 3: Parsing bill fields from OCR text...');
+    const parsed = parseBillText(ocrText);
+    addLog('DEBUG', 'Rule-based parser output:', parsed);
+
+    const { score, reasoning } = scoreExtraction(parsed, usageCharts.length);
+    const result: BillDataSansId = {
+        accountNumber: parsed.accountNumber ?? 'N/A',
+        accountName: parsed.accountName,
+        serviceAddress: parsed.serviceAddress,
+        statementDate: parsed.statementDate,
+        dueDate: parsed.dueDate,
+        servicePeriodStart: parsed.servicePeriodStart,
+        servicePeriodEnd: parsed.servicePeriodEnd,
+        totalCurrentCharges: parsed.totalCurrentCharges ?? 0,
+        lineItems: parsed.lineItems,
+        usageCharts,
+        confidenceScore: score,
+        confidenceReasoning: reasoning,
+        verificationQuestions: buildVerificationQuestions(parsed),
+    };
+
+    const parsedData = postProcessData(result);
+    addLog('INFO', `OCR-only extraction finished with confidence ${(score * 100).toFixed(0)}%.`, parsedData);
+    addLog('PROGRESS', 'Analysis complete.');
+    return { parsedData, rawResponse: JSON.stringify({ ...result, ocrText }) };
+};
+
+export const ocrOnlyProvider: AiProviderDefinition = {
+    id: 'ocr-only',
+    label: 'Offline OCR Only (No AI)',
+    description: 'Extracts bill fields with Tesseract OCR and deterministic rules, and charts with pixel detection. No data leaves the browser. For fully air-gapped use, host the Tesseract files yourself and set the paths below.',
+    settingsSchema: [
+        { key: 'langPath', label: 'Language Data Path', type: 'url', placeholder: 'Default: public CDN', description: 'Folder containing eng.traineddata(.gz).' },
+        { key: 'workerPath', label: 'Worker Script Path', type: 'url', placeholder: 'Default: public CDN', description: 'URL of worker.min.js from tesseract.js.' },
+        { key: 'corePath', label: 'WASM Core Path', type: 'url', placeholder: 'Default: public CDN', description: 'Folder or URL of tesseract.js-core.' },
+    ],
+    analyze: analyzeWithOcrOnly,
+    listModels: async () => [],
+    testConnection: async () => ({ ok: true, message: 'The OCR-only engine runs locally and needs no connection.' }),
+};
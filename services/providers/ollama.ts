@@ -0,0 +1,259 @@
+import type { OllamaModel, ProviderConfig } from '../../types';
+import { type AddLogFn, type AnalysisResult, type ProgressFn, getValidatedUrl, ensureOkResponse, readJsonResponse, sanitizeAiResponse, postProcessData, runOcrOnPages, processChartsOnPages, correctionRetriesField, getCorrectionRetries, parseWithSelfCorrection, fusionPromptField, getOcrOptions, requestTimeoutField, getRequestTimeoutMs, getTimeoutMessage, reportPass, toPartialBill, schemaCompletion } from '../aiCommon';
+import { isTimeout, withTimeout } from '../../utils/abort';
+import { parseCompletedFields } from '../../utils/partialJson';
+import { getPrompt, renderPrompt, toPromptVersionRef } from '../../prompts';
+import type { AiProviderDefinition } from '../providerRegistry';
+
+// One line of a streamed /api/chat response. The last line has `done` set and the timings, in
+// nanoseconds.
+interface OllamaChatChunk {
+    message?: { content?: string };
+    done?: boolean;
+    error?: string;
+    eval_count?: number;
+    eval_duration?: number;
+    prompt_eval_count?: number;
+    prompt_eval_duration?: number;
+}
+
+// Parsing the partial response is cheap, but re-rendering the bill on every token is not.
+const PROGRESS_INTERVAL_MS = 200;
+
+/** Reads a newline-delimited JSON stream, passing each line to `onChunk` as it arrives. */
+const readChatStream = async (body: ReadableStream<Uint8Array>, onChunk: (chunk: OllamaChatChunk) => void): Promise<void> => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        let chunk: OllamaChatChunk;
+        try {
+            chunk = JSON.parse(line);
+        } catch {
+            throw new Error(`Ollama sent an unreadable stream line: ${line.slice(0, 200)}`);
+        }
+        if (chunk.error) throw new Error(`Ollama error: ${chunk.error}`);
+        onChunk(chunk);
+    };
+    try {
+        for (;;) {
+            const { value, done } = await reader.read();
+            buffer += decoder.decode(value, { stream: !done });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            lines.forEach(handleLine);
+            if (done) break;
+        }
+        handleLine(buffer);
+    } finally {
+        reader.cancel().catch(() => {});
+    }
+};
+
+const formatSeconds = (nanoseconds: number) => `${(nanoseconds / 1e9).toFixed(1)}s`;
+const tokensPerSecond = (tokens: number, nanoseconds: number) => nanoseconds > 0 ? (tokens / (nanoseconds / 1e9)).toFixed(1) : '?';
+
+const callOllama = async (pages: string[], config: ProviderConfig, addLog: AddLogFn, signal?: AbortSignal, onProgress?: ProgressFn): Promise<AnalysisResult> => {
+    const { url, model } = config;
+    if (!url || !model) {
+        addLog('ERROR', 'Ollama URL or model is not configured.');
+        throw new Error("Ollama URL or model is not configured. Please add it in the settings.");
+    }
+    addLog('INFO', `Starting analysis with Ollama model: ${model} using Multi-Pass Fusion Framework.`);
+    addLog('PROGRESS', 'Initializing Ollama multi-pass analysis...');
+
+    let endpoint: string;
+    try {
+        endpoint = getValidatedUrl(url, "/api/chat", "Ollama");
+    } catch (error) {
+        addLog('ERROR', 'Invalid Ollama URL in settings', { url, error });
+        if (error instanceof Error) throw error;
+        throw new Error("An unknown error occurred during Ollama URL validation.");
+    }
+
+    try {
+        // Pass 1: Full-document OCR to get all text.
+        addLog('PROGRESS', 'Pass 1: Performing full-page OCR...');
+        const reportOcr = reportPass(onProgress, 'ocr', 'Pass 1: Full-page OCR');
+        reportOcr(0);
+        const ocrTextPromise = runOcrOnPages(pages, addLog, getOcrOptions(config), signal, fraction => reportOcr(fraction));
+
+        // Pass 2: Specialized chart analysis using a programmatic, pixel-based process.
+        addLog('PROGRESS', 'Pass 2: Analyzing charts with pixel detection...');
+        const reportCharts = reportPass(onProgress, 'charts', 'Pass 2: Chart detection');
+        reportCharts(0);
+        const chartDataPromise = processChartsOnPages(pages, addLog, getOcrOptions(config), signal, fraction => reportCharts(fraction));
+        
+        const [ocrText, analyzedCharts] = await Promise.all([ocrTextPromise, chartDataPromise]);
+        reportOcr(1);
+        reportCharts(1, `${analyzedCharts.length} chart(s) found`);
+
+        // Pass 3: Final data fusion and structuring with the AI.
+        addLog('INFO', 'Final pass: Fusing all data into the final schema using AI.');
+        addLog('PROGRESS', 'Pass 3: Fusing data with Ollama model...');
+        const fusionPrompt = getPrompt(config.prompt, 'fusion');
+        const promptVersion = toPromptVersionRef(fusionPrompt);
+        if (!fusionPrompt.builtIn) addLog('INFO', `Using custom fusion prompt "${fusionPrompt.label}" (v${fusionPrompt.version}).`);
+        const finalPrompt = renderPrompt(fusionPrompt, { ocrText, chartJson: JSON.stringify(analyzedCharts, null, 2) });
+
+        const finalBody = {
+            model: model,
+            format: "json",
+            stream: true,
+            messages: [{
+                role: "system", content: finalPrompt
+            }, {
+                role: "user", content: "Analyze the bill using the provided OCR text and pre-analyzed chart data.", images: pages.map(page => page.substring(page.indexOf(",") + 1))
+            }],
+        };
+        addLog('DEBUG', `Ollama Final Fusion Request to ${endpoint}`, { model: finalBody.model, prompt: finalPrompt });
+
+        // Streams the answer so fields can be shown as soon as the model has written them.
+        const sendChat = async (messages: object[], label: string): Promise<string> => {
+            const reportFusion = reportPass(onProgress, 'fusion', label);
+            reportFusion(0);
+            const response = await fetch(endpoint, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ ...finalBody, messages }), signal: withTimeout(signal, getRequestTimeoutMs(config)) });
+            await ensureOkResponse(response, 'Ollama', addLog);
+            if (!response.body) throw new Error('Ollama returned an empty response.');
+
+            const startedAt = Date.now();
+            let content = '';
+            let chunkCount = 0;
+            let lastReportAt = 0;
+            let stats: OllamaChatChunk | undefined;
+            await readChatStream(response.body, chunk => {
+                content += chunk.message?.content ?? '';
+                chunkCount++;
+                if (chunk.done) {
+                    stats = chunk;
+                    return;
+                }
+                const now = Date.now();
+                if (now - lastReportAt < PROGRESS_INTERVAL_MS) return;
+                lastReportAt = now;
+                // Ollama sends about one token per line.
+                const elapsed = (now - startedAt) / 1000;
+                const partialData = toPartialBill(parseCompletedFields(content));
+                // Capped below 100% because the model may still be writing the last field.
+                reportFusion(Math.min(0.99, schemaCompletion(partialData)), `~${chunkCount} tokens, ${elapsed > 0 ? (chunkCount / elapsed).toFixed(1) : '?'} tokens/s`, partialData);
+            });
+
+            if (stats?.eval_count !== undefined && stats.eval_duration !== undefined) {
+                const promptStats = stats.prompt_eval_count !== undefined && stats.prompt_eval_duration !== undefined
+                    ? ` Prompt: ${stats.prompt_eval_count} tokens in ${formatSeconds(stats.prompt_eval_duration)} (${tokensPerSecond(stats.prompt_eval_count, stats.prompt_eval_duration)} tokens/s).`
+                    : '';
+                addLog('INFO', `Ollama generated ${stats.eval_count} tokens in ${formatSeconds(stats.eval_duration)} (${tokensPerSecond(stats.eval_count, stats.eval_duration)} tokens/s).${promptStats}`);
+                reportFusion(1, `${stats.eval_count} tokens, ${tokensPerSecond(stats.eval_count, stats.eval_duration)} tokens/s`, toPartialBill(parseCompletedFields(content)));
+            } else {
+                reportFusion(1, undefined, toPartialBill(parseCompletedFields(content)));
+            }
+            return content;
+        };
+
+        const finalContent = await sendChat(finalBody.messages, `Pass 3: Fusing data with ${model}`);
+        addLog('DEBUG', 'Ollama Final Fusion Raw Response:', finalContent);
+
+        const parse = (output: string) => {
+            const finalJson = JSON.parse(output);
+
+            addLog('PROGRESS', 'Finalizing and sanitizing data...');
+            addLog('INFO', 'Final fusion successful. Sanitizing and processing data.');
+            addLog('DEBUG', 'Data before sanitization:', finalJson);
+            const sanitizedJson = sanitizeAiResponse(finalJson);
+
+            // The AI was told to use the chart data; fall back to it when the response has none.
+            // This runs after sanitizing so charts under alternative keys (e.g. usage_history) are kept.
+            if (!sanitizedJson.usageCharts?.length) sanitizedJson.usageCharts = analyzedCharts;
+            addLog('DEBUG', 'Data after sanitization:', sanitizedJson);
+            const parsedData = { ...postProcessData(sanitizedJson), promptVersion };
+            addLog('DEBUG', 'Final processed data:', parsedData);
+            return parsedData;
+        };
+        let correctionCount = 0;
+        const requestCorrection = (previousOutput: string, correctionPrompt: string) => sendChat([
+            ...finalBody.messages,
+            { role: "assistant", content: previousOutput },
+            { role: "user", content: correctionPrompt },
+        ], `Pass 3: Correcting the response (attempt ${++correctionCount})`);
+        const result = await parseWithSelfCorrection(finalContent, parse, requestCorrection, getCorrectionRetries(config), addLog);
+        addLog('PROGRESS', 'Analysis complete.');
+        return result;
+
+    } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        addLog('ERROR', 'Ollama multi-pass fusion failed:', error);
+        if (isTimeout(error)) {
+            throw new Error(getTimeoutMessage(config));
+        }
+        if (error instanceof TypeError) {
+             throw new Error("Could not connect to the Ollama server. This is often a network or CORS issue. Please ensure: 1) The server is running. 2) The URL is correct. 3) CORS is enabled on the Ollama server (e.g., set OLLAMA_ORIGINS='*').");
+        }
+        if (error instanceof SyntaxError) {
+            throw new Error("Ollama returned invalid JSON, even after asking it to correct its response. The model may not have followed instructions. Check the debug log.");
+        }
+        if (error instanceof Error) throw error;
+        throw new Error("An unknown error occurred during the Ollama analysis workflow.");
+    }
+};
+
+const fetchOllamaModels = async (url: string, addLog: AddLogFn): Promise<OllamaModel[]> => {
+    if (!url) {
+        throw new Error("Ollama URL is not provided.");
+    }
+    addLog('INFO', `Fetching models from Ollama at ${url}`);
+    
+    let endpoint: string;
+    try {
+        endpoint = getValidatedUrl(url, "/api/tags", "Ollama");
+    } catch (error) {
+        addLog('ERROR', 'Invalid Ollama URL in settings', { url, error });
+        if (error instanceof Error) throw error;
+        throw new Error("An unknown error occurred during Ollama URL validation.");
+    }
+
+    try {
+        const response = await fetch(endpoint);
+        const data = await readJsonResponse(response, 'Ollama', addLog);
+        addLog('DEBUG', 'Ollama models fetched successfully.', data.models);
+        return data.models;
+    } catch (error) {
+        addLog('ERROR', 'Error fetching Ollama models:', error);
+        console.error("Error fetching Ollama models:", error);
+        if (error instanceof TypeError) { 
+            throw new Error("Could not connect to the Ollama server. This is often a network or CORS issue. Please ensure: 1) The server is running. 2) The URL is correct. 3) CORS is enabled on the Ollama server (e.g., set OLLAMA_ORIGINS='*').");
+        }
+        if (error instanceof Error) {
+            throw error;
+        }
+        throw new Error("An unexpected error occurred while fetching Ollama models. Check the debug log.");
+    }
+};
+
+export const ollamaProvider: AiProviderDefinition = {
+    id: 'ollama',
+    label: 'Ollama (Local)',
+    description: 'Runs the Multi-Pass Fusion Framework: local OCR and pixel-based chart analysis, fused by an Ollama model.',
+    settingsSchema: [
+        { key: 'url', label: 'Ollama Server URL', type: 'url', defaultValue: 'http://localhost:11434', placeholder: 'http://localhost:11434', required: true },
+        { key: 'model', label: 'Model', type: 'model', defaultValue: '', required: true },
+        fusionPromptField,
+        correctionRetriesField,
+        requestTimeoutField,
+    ],
+    analyze: callOllama,
+    listModels: async (config, addLog) => {
+        const models = await fetchOllamaModels(config.url, addLog);
+        return models.map(m => ({ id: m.name }));
+    },
+    testConnection: async (config, addLog) => {
+        try {
+            const models = await fetchOllamaModels(config.url, addLog);
+            return models.length > 0
+                ? { ok: true, message: `Connection successful. Found ${models.length} models.` }
+                : { ok: false, message: "Connection successful, but no models found on the Ollama server." };
+        } catch (error) {
+            return { ok: false, message: error instanceof Error ? error.message : "An unknown error occurred." };
+        }
+    },
+};
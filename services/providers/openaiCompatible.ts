@@ -0,0 +1,184 @@
+import type { ProviderConfig, ProviderModel } from '../../types';
+import { type AddLogFn, type AnalysisResult, type ProgressFn, getValidatedUrl, readJsonResponse, sanitizeAiResponse, postProcessData, correctionRetriesField, getCorrectionRetries, parseWithSelfCorrection, promptField, locateFieldsField, buildBillPrompt, requestTimeoutField, getRequestTimeoutMs, getTimeoutMessage, reportPass } from '../aiCommon';
+import { isTimeout, withTimeout } from '../../utils/abort';
+import type { AiProviderDefinition } from '../providerRegistry';
+
+// Works with any server that implements the OpenAI REST API: LM Studio, vLLM, llama.cpp server, etc.
+
+const CONNECTION_ERROR_MESSAGE = "Could not connect to the OpenAI-compatible server. This is often a network or CORS issue. Please ensure: 1) The server is running. 2) The base URL is correct (e.g., http://localhost:8000/v1). 3) The server allows cross-origin requests from this app.";
+
+/**
+ * Resolves an API path against the configured base URL. Users paste both `http://host:8000`
+ * and `http://host:8000/v1`, so the `/v1` prefix is added only when it is missing.
+ */
+const getApiUrl = (baseUrl: string, path: string): string => {
+    const trimmed = (baseUrl || '').trim().replace(/\/+$/, '');
+    const withVersion = /\/v1$/i.test(trimmed) ? trimmed : `${trimmed}/v1`;
+    return getValidatedUrl(`${withVersion}/`, path, "OpenAI-compatible server");
+};
+
+const buildHeaders = (apiKey?: string): Record<string, string> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+    return headers;
+};
+
+// Some servers ignore `response_format` and wrap the JSON in a markdown fence anyway.
+const stripCodeFence = (content: string): string =>
+    content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+const callOpenAiCompatible = async (pages: string[], config: ProviderConfig, addLog: AddLogFn, signal?: AbortSignal, onProgress?: ProgressFn): Promise<AnalysisResult> => {
+    const { baseUrl, model, apiKey } = config;
+    if (!baseUrl || !model) {
+        addLog('ERROR', 'OpenAI-compatible base URL or model is not configured.');
+        throw new Error("OpenAI-compatible base URL or model is not configured. Please add it in the settings.");
+    }
+    addLog('INFO', `Starting analysis with OpenAI-compatible model: ${model} (${pages.length} page(s)).`);
+
+    let endpoint: string;
+    try {
+        endpoint = getApiUrl(baseUrl, "chat/completions");
+    } catch (error) {
+        addLog('ERROR', 'Invalid OpenAI-compatible base URL in settings', { baseUrl, error });
+        if (error instanceof Error) throw error;
+        throw new Error("An unknown error occurred during URL validation.");
+    }
+
+    const { text: billPrompt, schema: billSchema, promptVersion } = await buildBillPrompt(pages, config, addLog, signal, onProgress);
+    const systemPrompt = `${billPrompt}
+
+**JSON Schema (your response MUST conform to it):**
+${JSON.stringify(billSchema, null, 2)}`;
+
+    const userText = pages.length > 1
+        ? `This bill spans ${pages.length} pages, provided in order. Treat them as ONE bill and combine the line items and usage charts from every page into a single JSON object.`
+        : "Analyze this utility bill.";
+
+    const requestBody = {
+        model,
+        temperature: 0,
+        response_format: { type: "json_object" },
+        messages: [
+            { role: "system", content: systemPrompt },
+            {
+                role: "user",
+                content: [
+                    { type: "text", text: userText },
+                    ...pages.map(page => ({ type: "image_url", image_url: { url: page } })),
+                ],
+            },
+        ],
+    };
+
+    try {
+        addLog('DEBUG', `OpenAI-compatible request to ${endpoint}`, { model, prompt: systemPrompt });
+        addLog('PROGRESS', `Sending ${pages.length > 1 ? `${pages.length} pages` : 'image'} to ${model}...`);
+
+        const sendChat = async (messages: object[], label: string): Promise<string> => {
+            const reportModel = reportPass(onProgress, 'model', label);
+            reportModel(undefined, 'Waiting for the full response');
+            const response = await fetch(endpoint, { method: 'POST', headers: buildHeaders(apiKey), body: JSON.stringify({ ...requestBody, messages }), signal: withTimeout(signal, getRequestTimeoutMs(config)) });
+            const responseData = await readJsonResponse(response, 'The OpenAI-compatible server', addLog);
+            const content: string | undefined = responseData.choices?.[0]?.message?.content;
+            if (!content) {
+                throw new Error("The OpenAI-compatible server returned an empty response.");
+            }
+            reportModel(1);
+            return stripCodeFence(content);
+        };
+
+        const jsonText = await sendChat(requestBody.messages, `Extracting fields with ${model}`);
+        addLog('PROGRESS', 'Received response from model.');
+        addLog('DEBUG', 'OpenAI-compatible Raw Response:', jsonText);
+
+        addLog('PROGRESS', 'Parsing and structuring data...');
+        const parse = (output: string) => {
+            const sanitizedJson = sanitizeAiResponse(JSON.parse(output));
+            addLog('DEBUG', 'Data after sanitization:', sanitizedJson);
+            return { ...postProcessData(sanitizedJson), promptVersion };
+        };
+        let correctionCount = 0;
+        const requestCorrection = (previousOutput: string, correctionPrompt: string) => sendChat([
+            ...requestBody.messages,
+            { role: "assistant", content: previousOutput },
+            { role: "user", content: correctionPrompt },
+        ], `Correcting the response (attempt ${++correctionCount})`);
+        const result = await parseWithSelfCorrection(jsonText, parse, requestCorrection, getCorrectionRetries(config), addLog);
+        addLog('PROGRESS', 'Analysis complete.');
+        return result;
+    } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        addLog('ERROR', 'OpenAI-compatible analysis failed:', error);
+        if (isTimeout(error)) {
+            throw new Error(getTimeoutMessage(config));
+        }
+        if (error instanceof TypeError) {
+            throw new Error(CONNECTION_ERROR_MESSAGE);
+        }
+        if (error instanceof SyntaxError) {
+            throw new Error("The model returned invalid JSON. It may not support JSON output mode or did not follow instructions. Check the debug log.");
+        }
+        if (error instanceof Error) throw error;
+        throw new Error("An unknown error occurred during the OpenAI-compatible analysis.");
+    }
+};
+
+const fetchOpenAiModels = async (config: ProviderConfig, addLog: AddLogFn): Promise<ProviderModel[]> => {
+    if (!config.baseUrl) {
+        throw new Error("OpenAI-compatible base URL is not provided.");
+    }
+    addLog('INFO', `Fetching models from OpenAI-compatible server at ${config.baseUrl}`);
+
+    let endpoint: string;
+    try {
+        endpoint = getApiUrl(config.baseUrl, "models");
+    } catch (error) {
+        addLog('ERROR', 'Invalid OpenAI-compatible base URL in settings', { baseUrl: config.baseUrl, error });
+        if (error instanceof Error) throw error;
+        throw new Error("An unknown error occurred during URL validation.");
+    }
+
+    try {
+        const response = await fetch(endpoint, { headers: buildHeaders(config.apiKey) });
+        const data = await readJsonResponse(response, 'The OpenAI-compatible server', addLog);
+        const models: ProviderModel[] = (Array.isArray(data.data) ? data.data : [])
+            .filter((m: any) => m && typeof m.id === 'string')
+            .map((m: any) => ({ id: m.id }));
+        addLog('DEBUG', 'OpenAI-compatible models fetched successfully.', models);
+        return models;
+    } catch (error) {
+        addLog('ERROR', 'Error fetching OpenAI-compatible models:', error);
+        if (error instanceof TypeError) {
+            throw new Error(CONNECTION_ERROR_MESSAGE);
+        }
+        if (error instanceof Error) throw error;
+        throw new Error("An unexpected error occurred while fetching models. Check the debug log.");
+    }
+};
+
+export const openAiCompatibleProvider: AiProviderDefinition = {
+    id: 'openai-compatible',
+    label: 'OpenAI-Compatible (LM Studio, vLLM, llama.cpp)',
+    description: 'Sends the bill images to any server that implements the OpenAI /v1/chat/completions API. The model must support image input.',
+    settingsSchema: [
+        { key: 'baseUrl', label: 'Base URL', type: 'url', defaultValue: 'http://localhost:8000/v1', placeholder: 'http://localhost:8000/v1', required: true },
+        { key: 'apiKey', label: 'API Key', type: 'password', description: 'Optional. Sent as a Bearer token; leave empty for servers without authentication.' },
+        { key: 'model', label: 'Model', type: 'model', defaultValue: '', required: true },
+        promptField,
+        locateFieldsField,
+        correctionRetriesField,
+        requestTimeoutField,
+    ],
+    analyze: callOpenAiCompatible,
+    listModels: fetchOpenAiModels,
+    testConnection: async (config, addLog) => {
+        try {
+            const models = await fetchOpenAiModels(config, addLog);
+            return models.length > 0
+                ? { ok: true, message: `Connection successful. Found ${models.length} models.` }
+                : { ok: false, message: "Connection successful, but the server reported no models." };
+        } catch (error) {
+            return { ok: false, message: error instanceof Error ? error.message : "An unknown error occurred." };
+        }
+    },
+};
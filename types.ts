@@ -1,10 +1,76 @@
 
-export type AiProvider = 'gemini' | 'ollama';
+// Providers are registered at runtime (see services/providerRegistry.ts), so the id is an open string.
+export type AiProvider = string;
+
+// Per-provider settings, keyed by the `key` of each field in the provider's settings schema.
+export type ProviderConfig = Record<string, string>;
+
+export interface ProviderSettingField {
+    key: string;
+    label: string;
+    type: 'text' | 'url' | 'password' | 'number' | 'model' | 'select' | 'prompt';
+    options?: { value: string; label: string }[]; // For 'select'.
+    promptKind?: PromptKind; // For 'prompt': which prompts from the library can be chosen.
+    defaultValue?: string;
+    placeholder?: string;
+    description?: string;
+    required?: boolean;
+}
+
+export interface ProviderModel {
+    id: string;
+    label?: string;
+}
+
+export interface ConnectionTestResult {
+    ok: boolean;
+    message: string;
+}
+
+// Bill prompts go with the page images to Gemini and OpenAI-compatible models; fusion prompts
+// go with the OCR text and chart readings to Ollama.
+export type PromptKind = 'bill' | 'fusion';
+
+export interface PromptVersion {
+    version: number; // 1, 2, ...
+    template: string; // With {{ocrText}} / {{chartJson}} placeholders.
+    createdAt: string;
+    note?: string;
+}
+
+// A prompt cloned from a built-in one and edited in the prompt library. Editing adds a version;
+// the newest version is the one used.
+export interface CustomPrompt {
+    id: string;
+    label: string;
+    kind: PromptKind;
+    basedOn: string; // Id of the built-in prompt it was cloned from, which supplies the schema.
+    versions: PromptVersion[]; // Oldest first.
+}
+
+// Which prompt produced a bill.
+export interface PromptVersionRef {
+    id: string;
+    label: string;
+    version: number;
+}
+
+// One configuration in an ensemble run: a provider with its saved settings, plus the settings
+// this run changes (e.g. a different prompt or model).
+export interface EnsembleMember {
+    provider: AiProvider;
+    overrides: ProviderConfig;
+}
+
+export interface EnsembleSettings {
+    enabled: boolean;
+    members: EnsembleMember[];
+}
 
 export interface AiSettings {
     provider: AiProvider;
-    ollamaUrl: string;
-    ollamaModel: string;
+    providerSettings: Record<AiProvider, ProviderConfig>;
+    ensemble?: EnsembleSettings; // When enabled with two or more members, used instead of `provider`.
 }
 
 export interface LineItem {
@@ -15,6 +81,7 @@ export interface LineItem {
 export interface UsageByYear {
   year: string;
   value: number;
+  confidence?: number; // 0-1, set by the chart engine for values it read off the image.
 }
 
 export interface UsageDataPoint {
@@ -33,9 +100,101 @@ export interface VerificationQuestion {
   question: string;
 }
 
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrWord {
+  text: string;
+  bbox: BoundingBox;
+  confidence: number;
+}
+
+export type ValidationCode =
+  | 'SUM_MISMATCH'
+  | 'DUE_BEFORE_STATEMENT'
+  | 'SERVICE_PERIOD_REVERSED'
+  | 'SERVICE_PERIOD_AFTER_STATEMENT'
+  | 'SERVICE_PERIOD_STALE'
+  | 'NEGATIVE_USAGE'
+  | 'DUPLICATE_MONTH';
+
+export interface ValidationWarning {
+  code: ValidationCode;
+  severity: 'warning' | 'error';
+  message: string;
+  field?: string; // Dot-notation path of the offending value, as used by verificationQuestions.
+}
+
+export type AnomalyCode =
+  | 'CHARGE_SPIKE'
+  | 'CHARGE_DROP'
+  | 'USAGE_SPIKE'
+  | 'USAGE_DROP'
+  | 'USAGE_ZERO'
+  | 'USAGE_SUSTAINED_RISE';
+
+// A value that deviates strongly from the account's own history.
+export interface Anomaly {
+  code: AnomalyCode;
+  severity: 'warning' | 'alert';
+  message: string;
+  value: number;
+  baseline: number; // The norm the value was compared against.
+  basis: 'seasonal' | 'recent'; // Same month in earlier years, or the preceding months.
+  unit?: string; // Set for usage anomalies; charges are in the bill's currency.
+}
+
+// How many ensemble members agreed on a merged value.
+//   unanimous: every member that found the field gave the same value (at least two did).
+//   majority:  more than half agreed, the rest gave something else.
+//   split:     no value had a majority.
+//   single:    only one member found the field.
+export type AgreementLevel = 'unanimous' | 'majority' | 'split' | 'single';
+
+export interface FieldAgreement {
+  level: AgreementLevel;
+  agreeing: number; // Members that gave the chosen value.
+  total: number; // Members that gave any value.
+  // Each distinct value with the members that gave it, when they disagreed.
+  alternatives?: { value: string; members: string[] }[];
+}
+
+export interface EnsembleSummary {
+  members: string[]; // Labels of the configurations whose results were merged.
+  failedMembers?: string[]; // Configurations that failed and were left out.
+  promptVersions?: Record<string, PromptVersionRef>; // Keyed by member label; members that used no prompt are missing.
+  agreement: Record<string, FieldAgreement>; // Keyed by dot-notation path, like fieldSources.
+}
+
+// Where on the source image an extracted value was found. `page` is a 0-based index into sourceImages.
+export interface FieldSource {
+  page: number;
+  bbox: BoundingBox;
+}
+
+export type UtilityType = 'electric' | 'gas' | 'water' | 'internet' | 'other';
+
+// A utility account, usually one per service address and utility. Bills are assigned to an
+// account automatically from their account number; OCR variants can be merged into one account.
+export interface Account {
+  id: string;
+  accountNumber: string;
+  aliases: string[]; // Normalized account numbers of merged variants, including accountNumber's.
+  accountName?: string;
+  serviceAddress?: string;
+  nickname?: string;
+  utilityType: UtilityType;
+  createdAt: string;
+}
+
 export interface BillData {
   id: string;
   analyzedAt: string;
+  accountId?: string;
   accountName?: string;
   accountNumber: string;
   serviceAddress?: string;
@@ -50,6 +209,32 @@ export interface BillData {
   confidenceReasoning: string;
   verificationQuestions?: VerificationQuestion[];
   rawResponse?: string;
+  sourceImages?: string[]; // Page images (data URLs) the bill was extracted from, in page order.
+  fieldSources?: Record<string, FieldSource>; // Keyed by dot-notation path, e.g. "lineItems.2.amount".
+  validationWarnings?: ValidationWarning[];
+  imageHash?: string; // Perceptual hash of the first page image, used to spot re-uploads.
+  anomalies?: Anomaly[]; // Set when the bill is saved, against the account's earlier bills.
+  ensemble?: EnsembleSummary; // Set when several configurations were merged by voting.
+  promptVersion?: PromptVersionRef; // The prompt the model was given; unset for OCR-only results. An ensemble sets it when every run used the same one.
+}
+
+export type QueueItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  fileName: string;
+  status: QueueItemStatus;
+  error?: string;
+  billId?: string; // Set once the item has been analyzed and saved to history.
+}
+
+// Overrides for where Tesseract.js loads its worker, WASM core and language data from.
+// Leave unset to use the public CDN; point them at self-hosted copies for air-gapped use.
+export interface OcrEngineOptions {
+  workerPath?: string;
+  corePath?: string;
+  langPath?: string;
 }
 
 export interface OllamaModel {
@@ -63,4 +248,13 @@ export type LogEntry = {
   level: 'INFO' | 'ERROR' | 'DEBUG' | 'PROGRESS';
   message: string;
   payload?: any;
-};
\ No newline at end of file
+};
+// Progress of one pass of an analysis (OCR, chart detection, the model call, ...), reported
+// repeatedly while the pass runs.
+export interface AnalysisProgress {
+  pass: string; // Stable id; later reports for the same pass replace earlier ones.
+  label: string;
+  percent?: number; // 0-100; undefined while the share done is unknown.
+  detail?: string; // e.g. "page 2 of 3" or token throughput.
+  partialData?: Partial<BillData>; // Fields the model has finished writing so far.
+}
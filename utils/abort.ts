@@ -0,0 +1,38 @@
+// Cancellation helpers for the analysis pipeline. Cancelling rejects with the AbortError that
+// `AbortController.abort()` produces; a request that runs out of time rejects with a TimeoutError.
+
+export const isCancellation = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+export const isTimeout = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'TimeoutError';
+
+/** Adds a time limit to `signal`. A limit of 0 (or less) means no limit. */
+export const withTimeout = (signal: AbortSignal | undefined, timeoutMs: number): AbortSignal | undefined => {
+    if (timeoutMs <= 0) return signal;
+    const timeout = AbortSignal.timeout(timeoutMs);
+    return signal ? AbortSignal.any([signal, timeout]) : timeout;
+};
+
+/**
+ * Settles like `promise`, but rejects with the signal's reason as soon as it aborts. `onAbort`
+ * releases whatever the promise was waiting on (e.g. terminates a worker).
+ */
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal, onAbort?: () => void): Promise<T> => {
+    if (!signal) return promise;
+    if (signal.aborted) {
+        onAbort?.();
+        return Promise.reject(signal.reason);
+    }
+    return new Promise<T>((resolve, reject) => {
+        const abort = () => {
+            onAbort?.();
+            reject(signal.reason);
+        };
+        signal.addEventListener('abort', abort, { once: true });
+        promise.then(
+            value => { signal.removeEventListener('abort', abort); resolve(value); },
+            error => { signal.removeEventListener('abort', abort); reject(error); },
+        );
+    });
+};
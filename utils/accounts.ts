@@ -0,0 +1,74 @@
+import type { Account, BillData, UtilityType } from '../types';
+import { normalizeUnit } from './units';
+
+// Matching bills to accounts. Account numbers are compared in a normalized form so that
+// "1234-5678 9" and "123456789" are the same account; merged OCR variants are kept as aliases.
+
+export const UTILITY_TYPES: { value: UtilityType; label: string }[] = [
+    { value: 'electric', label: 'Electricity' },
+    { value: 'gas', label: 'Gas' },
+    { value: 'water', label: 'Water' },
+    { value: 'internet', label: 'Internet / Phone' },
+    { value: 'other', label: 'Other' },
+];
+
+type MatchableBill = Pick<BillData, 'accountNumber' | 'accountName' | 'serviceAddress' | 'usageCharts'>;
+
+export const normalizeAccountNumber = (accountNumber: string): string =>
+    (accountNumber === 'N/A' ? '' : accountNumber || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const normalizeAddress = (address?: string): string => (address || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Finds the account a bill belongs to: by account number (or a merged alias), or, when the
+ * bill has no account number, by service address.
+ */
+export const findMatchingAccount = (accounts: Account[], bill: MatchableBill): Account | undefined => {
+    const number = normalizeAccountNumber(bill.accountNumber);
+    if (number) {
+        return accounts.find(account => account.aliases.includes(number));
+    }
+    const address = normalizeAddress(bill.serviceAddress);
+    if (address) {
+        return accounts.find(account => normalizeAddress(account.serviceAddress) === address);
+    }
+    // Bills with neither share a single catch-all account.
+    return accounts.find(account => account.aliases.length === 0 && !account.serviceAddress);
+};
+
+/** Guesses the utility from the units of the bill's usage charts. */
+export const guessUtilityType = (bill: Pick<BillData, 'usageCharts'>): UtilityType => {
+    const units = bill.usageCharts.map(chart => normalizeUnit(chart.unit));
+    if (units.includes('kWh')) return 'electric';
+    if (units.some(unit => ['therms', 'CCF', 'GJ', 'MJ'].includes(unit))) return 'gas';
+    if (units.some(unit => ['gallons', 'kgal', 'kL', 'HCF'].includes(unit))) return 'water';
+    return 'other';
+};
+
+export const createAccountFromBill = (bill: MatchableBill): Account => {
+    const number = normalizeAccountNumber(bill.accountNumber);
+    return {
+        id: `account-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        accountNumber: number ? bill.accountNumber : 'N/A',
+        aliases: number ? [number] : [],
+        accountName: bill.accountName,
+        serviceAddress: bill.serviceAddress,
+        utilityType: guessUtilityType(bill),
+        createdAt: new Date().toISOString(),
+    };
+};
+
+/** Folds the numbers and missing details of `sources` into `target`. */
+export const mergeAccountDetails = (target: Account, sources: Account[]): Account => ({
+    ...target,
+    aliases: Array.from(new Set([...target.aliases, ...sources.flatMap(s => s.aliases)])),
+    accountName: target.accountName || sources.find(s => s.accountName)?.accountName,
+    serviceAddress: target.serviceAddress || sources.find(s => s.serviceAddress)?.serviceAddress,
+    nickname: target.nickname || sources.find(s => s.nickname)?.nickname,
+});
+
+export const getAccountLabel = (account: Account): string => {
+    if (account.nickname) return account.nickname;
+    if (account.aliases.length === 0) return account.serviceAddress || 'Unknown account';
+    return account.accountName ? `${account.accountName} (...${account.accountNumber.slice(-6)})` : `Acct: ...${account.accountNumber.slice(-6)}`;
+};
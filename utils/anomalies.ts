@@ -0,0 +1,166 @@
+import type { Anomaly, BillData } from '../types';
+import { formatMonthKey } from './dates';
+import { relativeChange, previousYearKey, statementDate, billingMonthKey, buildUsage } from './trends';
+import { isConsumptionUnit } from './units';
+
+// Flags bills whose charges or latest usage deviate strongly from the account's own history,
+// such as a leak or a faulty meter. The baseline is the same month in earlier years where the
+// history has it (usage is seasonal), otherwise the median of the preceding months.
+
+const CHARGE_SPIKE = 0.4;
+const USAGE_SPIKE = 0.5;
+const ALERT_SPIKE = 1.0; // A doubling is an alert rather than a warning.
+const DROP = -0.5;
+// Ignore swings smaller than this, so a $12 bill becoming $18 is not reported as a 50% spike.
+const MIN_CHARGE_DIFFERENCE = 10;
+const MIN_RECENT_SAMPLES = 3;
+const RECENT_WINDOW = 6;
+// Months in a row above the seasonal norm before a rise counts as sustained (typical of leaks).
+const SUSTAINED_MONTHS = 3;
+const SUSTAINED_RISE = 0.3;
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const shiftMonthKey = (key: string, months: number): string => {
+    const date = new Date(Number(key.slice(0, 4)), Number(key.slice(5, 7)) - 1 + months, 1);
+    return formatMonthKey(date.getFullYear(), date.getMonth());
+};
+
+const monthName = (key: string): string => new Date(Number(key.slice(0, 4)), Number(key.slice(5, 7)) - 1, 1).toLocaleString('en-US', { month: 'long' });
+
+const percent = (change: number): string => `${Math.round(Math.abs(change) * 100)}%`;
+
+const formatUsage = (value: number, unit: string): string => `${Number(value.toFixed(2)).toLocaleString()} ${unit}`;
+
+const describeBaseline = (basis: Anomaly['basis'], key: string): string =>
+    basis === 'seasonal' ? `the ${monthName(key)} norm from earlier years` : 'the median of the preceding months';
+
+const chargeAnomalies = (bill: BillData, earlier: BillData[]): Anomaly[] => {
+    const key = billingMonthKey(bill);
+    const seasonal = earlier.filter(b => billingMonthKey(b).slice(5) === key.slice(5) && billingMonthKey(b) < key);
+    const recent = earlier.slice(-RECENT_WINDOW);
+
+    let baseline: number;
+    let basis: Anomaly['basis'];
+    if (seasonal.length > 0) {
+        baseline = mean(seasonal.map(b => b.totalCurrentCharges));
+        basis = 'seasonal';
+    } else if (recent.length >= MIN_RECENT_SAMPLES) {
+        baseline = median(recent.map(b => b.totalCurrentCharges));
+        basis = 'recent';
+    } else {
+        return [];
+    }
+
+    const value = bill.totalCurrentCharges;
+    const change = relativeChange(value, baseline);
+    if (change === null || Math.abs(value - baseline) < MIN_CHARGE_DIFFERENCE) return [];
+    const comparison = `$${value.toFixed(2)} against ${describeBaseline(basis, key)} of $${baseline.toFixed(2)}`;
+    if (change >= CHARGE_SPIKE) {
+        return [{
+            code: 'CHARGE_SPIKE',
+            severity: change >= ALERT_SPIKE ? 'alert' : 'warning',
+            message: `Total charges are ${percent(change)} higher than usual: ${comparison}.`,
+            value, baseline, basis,
+        }];
+    }
+    if (change <= DROP) {
+        return [{
+            code: 'CHARGE_DROP',
+            severity: 'warning',
+            message: `Total charges are ${percent(change)} lower than usual: ${comparison}. This can be an estimated reading or a credit.`,
+            value, baseline, basis,
+        }];
+    }
+    return [];
+};
+
+const usageAnomalies = (bill: BillData, earlier: BillData[]): Anomaly[] => {
+    const anomalies: Anomaly[] = [];
+    // The bill's own 12-13 month chart already carries a year of history; earlier bills fill
+    // in older months. The bill is last, so its readings win where they overlap.
+    const series = buildUsage([...earlier, bill]);
+    const own = buildUsage([bill]);
+
+    for (const { unit, points } of series) {
+        if (!isConsumptionUnit(unit)) continue;
+        const ownPoints = own.find(s => s.unit === unit)?.points;
+        if (!ownPoints) continue;
+        const values = new Map(points.map(p => [p.key, p.value]));
+        const latestKey = ownPoints[ownPoints.length - 1].key;
+        const value = values.get(latestKey)!;
+
+        const seasonalValue = values.get(previousYearKey(latestKey));
+        const recentValues = [1, 2, 3].map(n => values.get(shiftMonthKey(latestKey, -n))).filter((v): v is number => v !== undefined);
+        let baseline: number;
+        let basis: Anomaly['basis'];
+        if (seasonalValue !== undefined && seasonalValue > 0) {
+            baseline = seasonalValue;
+            basis = 'seasonal';
+        } else if (recentValues.length >= 2) {
+            baseline = median(recentValues);
+            basis = 'recent';
+        } else {
+            continue;
+        }
+
+        const comparison = `${formatUsage(value, unit)} in ${monthName(latestKey)} against ${describeBaseline(basis, latestKey)} of ${formatUsage(baseline, unit)}`;
+        const change = relativeChange(value, baseline);
+        if (value === 0 && baseline > 0) {
+            anomalies.push({
+                code: 'USAGE_ZERO',
+                severity: 'alert',
+                message: `No usage was recorded for ${monthName(latestKey)} (usually ${formatUsage(baseline, unit)}). Check for a stopped or faulty meter.`,
+                value, baseline, basis, unit,
+            });
+        } else if (change !== null && change >= USAGE_SPIKE) {
+            anomalies.push({
+                code: 'USAGE_SPIKE',
+                severity: change >= ALERT_SPIKE ? 'alert' : 'warning',
+                message: `Usage is ${percent(change)} higher than usual: ${comparison}. A sudden jump can point to a leak, a faulty appliance or a meter error.`,
+                value, baseline, basis, unit,
+            });
+        } else if (change !== null && change <= DROP) {
+            anomalies.push({
+                code: 'USAGE_DROP',
+                severity: 'warning',
+                message: `Usage is ${percent(change)} lower than usual: ${comparison}.`,
+                value, baseline, basis, unit,
+            });
+        }
+
+        // A moderate rise that persists is as telling as a spike, and a single spike check misses it.
+        if (!anomalies.some(a => a.unit === unit && a.code === 'USAGE_SPIKE')) {
+            const months = Array.from({ length: SUSTAINED_MONTHS }, (_, n) => shiftMonthKey(latestKey, -n));
+            const rises = months.map(key => relativeChange(values.get(key) ?? NaN, values.get(previousYearKey(key))));
+            if (rises.every(rise => rise !== null && rise >= SUSTAINED_RISE)) {
+                const average = mean(rises as number[]);
+                anomalies.push({
+                    code: 'USAGE_SUSTAINED_RISE',
+                    severity: 'warning',
+                    message: `Usage has been above the same months of last year for ${SUSTAINED_MONTHS} months in a row (${percent(average)} on average). A steady rise can be a slow leak.`,
+                    value, baseline: values.get(previousYearKey(latestKey))!, basis: 'seasonal', unit,
+                });
+            }
+        }
+    }
+    return anomalies;
+};
+
+/**
+ * Compares a bill with the earlier bills of the same account. `accountBills` may include the
+ * bill itself and later bills; only bills with an earlier statement date form the baseline.
+ */
+export const detectAnomalies = (bill: BillData, accountBills: BillData[]): Anomaly[] => {
+    const date = statementDate(bill).getTime();
+    const earlier = accountBills
+        .filter(b => b.id !== bill.id && statementDate(b).getTime() < date)
+        .sort((a, b) => statementDate(a).getTime() - statementDate(b).getTime());
+    return [...chargeAnomalies(bill, earlier), ...usageAnomalies(bill, earlier)];
+};
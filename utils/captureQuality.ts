@@ -0,0 +1,89 @@
+import { findDocumentCorners, luminance, type Point, type Raster } from './imagePreprocessing';
+
+// Live checks on downscaled camera frames, so the capture screen can guide the user to a photo
+// that OCR can read and take it automatically once the page is sharp and held still.
+
+export type CaptureIssue = 'NO_PAGE' | 'BLURRY' | 'TOO_DARK' | 'GLARE';
+
+export interface FrameQuality {
+    corners: Point[] | null; // Page corners in frame pixels (TL, TR, BR, BL).
+    sharpness: number; // Variance of the Laplacian; low values mean blur.
+    brightness: number; // Mean luminance, 0-255.
+    glare: number; // Fraction of blown-out pixels on the page.
+    issues: CaptureIssue[];
+}
+
+/** Width frames are scaled to before analysis; thresholds below are tuned for it. */
+export const ANALYSIS_WIDTH = 320;
+const MIN_SHARPNESS = 60;
+const MIN_BRIGHTNESS = 70;
+const MAX_GLARE = 0.03;
+const GLARE_LEVEL = 250;
+// Corners may wander this fraction of the frame diagonal between checks and still count as steady.
+const STEADY_TOLERANCE = 0.02;
+
+export const ISSUE_MESSAGES: Record<CaptureIssue, string> = {
+    NO_PAGE: 'Place the whole bill in view on a darker surface.',
+    BLURRY: 'Too blurry. Hold the phone still or move back a little.',
+    TOO_DARK: 'Too dark. Turn on a light or move to a brighter spot.',
+    GLARE: 'Glare on the page. Tilt the bill or the phone away from the light.',
+};
+
+const laplacianVariance = (lum: Uint8ClampedArray, width: number, height: number): number => {
+    let sum = 0, sumSquares = 0, count = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const value = lum[i - 1] + lum[i + 1] + lum[i - width] + lum[i + width] - 4 * lum[i];
+            sum += value;
+            sumSquares += value * value;
+            count++;
+        }
+    }
+    if (count === 0) return 0;
+    const mean = sum / count;
+    return sumSquares / count - mean * mean;
+};
+
+/** Ray-casting test; used to measure glare on the page rather than on the background. */
+const isInside = (point: Point, polygon: Point[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i], b = polygon[j];
+        if ((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+    }
+    return inside;
+};
+
+export const analyzeFrame = (frame: Raster): FrameQuality => {
+    const lum = luminance(frame);
+    const corners = findDocumentCorners(frame);
+    const sharpness = laplacianVariance(lum, frame.width, frame.height);
+
+    let brightnessSum = 0, clipped = 0, pagePixels = 0;
+    for (let y = 0; y < frame.height; y++) {
+        for (let x = 0; x < frame.width; x++) {
+            const value = lum[y * frame.width + x];
+            brightnessSum += value;
+            if (corners && !isInside({ x, y }, corners)) continue;
+            pagePixels++;
+            if (value >= GLARE_LEVEL) clipped++;
+        }
+    }
+    const brightness = brightnessSum / lum.length;
+    const glare = pagePixels > 0 ? clipped / pagePixels : 0;
+
+    const issues: CaptureIssue[] = [];
+    if (!corners) issues.push('NO_PAGE');
+    if (brightness < MIN_BRIGHTNESS) issues.push('TOO_DARK');
+    if (sharpness < MIN_SHARPNESS) issues.push('BLURRY');
+    if (glare > MAX_GLARE) issues.push('GLARE');
+    return { corners, sharpness, brightness, glare, issues };
+};
+
+/** Largest distance any corner moved, as a fraction of the frame diagonal. */
+export const cornerMovement = (a: Point[], b: Point[], width: number, height: number): number =>
+    Math.max(...a.map((point, i) => Math.hypot(point.x - b[i].x, point.y - b[i].y))) / Math.hypot(width, height);
+
+export const isSteady = (previous: Point[] | null, current: Point[] | null, width: number, height: number): boolean =>
+    !!previous && !!current && cornerMovement(previous, current, width, height) <= STEADY_TOLERANCE;
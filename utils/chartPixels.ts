@@ -0,0 +1,210 @@
+import type { Raster } from './imagePreprocessing';
+
+// Pixel primitives for the chart engine: separate the plot's ink from its background, group the
+// ink into a small palette of colours, and find the connected shapes of each colour.
+
+export interface Rect {
+    x0: number;
+    y0: number;
+    x1: number; // Exclusive.
+    y1: number; // Exclusive.
+}
+
+export interface RGB {
+    r: number;
+    g: number;
+    b: number;
+}
+
+// Pixels closer than this to the background are background; anti-aliased edges and paper
+// texture stay below it, chart fills and text stay above.
+const FOREGROUND_DISTANCE = 48;
+// Colours closer than this are treated as one palette entry (one series).
+const PALETTE_MERGE_DISTANCE = 56;
+const MIN_PALETTE_SHARE = 0.005;
+
+export const colorDistance = (a: RGB, b: RGB): number => Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b);
+
+export const pixelColor = (raster: Raster, x: number, y: number): RGB => {
+    const i = (y * raster.width + x) * 4;
+    return { r: raster.data[i], g: raster.data[i + 1], b: raster.data[i + 2] };
+};
+
+export const clampRect = (rect: Rect, raster: Raster): Rect => ({
+    x0: Math.max(0, Math.floor(rect.x0)),
+    y0: Math.max(0, Math.floor(rect.y0)),
+    x1: Math.min(raster.width, Math.ceil(rect.x1)),
+    y1: Math.min(raster.height, Math.ceil(rect.y1)),
+});
+
+const quantize = ({ r, g, b }: RGB) => ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+
+/** The most common colour in the area, which in a plot is its background (white or tinted). */
+export const estimateBackground = (raster: Raster, rect: Rect): RGB => {
+    const bins = new Map<number, { count: number; r: number; g: number; b: number }>();
+    for (let y = rect.y0; y < rect.y1; y++) {
+        for (let x = rect.x0; x < rect.x1; x++) {
+            const color = pixelColor(raster, x, y);
+            const key = quantize(color);
+            const bin = bins.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+            bin.count++;
+            bin.r += color.r;
+            bin.g += color.g;
+            bin.b += color.b;
+            bins.set(key, bin);
+        }
+    }
+    let best = { count: 0, r: 255, g: 255, b: 255 };
+    for (const bin of bins.values()) if (bin.count > best.count) best = bin;
+    return best.count === 0 ? { r: 255, g: 255, b: 255 } : { r: best.r / best.count, g: best.g / best.count, b: best.b / best.count };
+};
+
+export const isForeground = (color: RGB, background: RGB): boolean => colorDistance(color, background) > FOREGROUND_DISTANCE;
+
+/** Index of the palette colour closest to `color`, or -1 when none is close. */
+export const nearestPaletteIndex = (palette: RGB[], color: RGB): number => {
+    let best = -1, bestDistance = PALETTE_MERGE_DISTANCE;
+    palette.forEach((entry, index) => {
+        const d = colorDistance(entry, color);
+        if (d < bestDistance) {
+            bestDistance = d;
+            best = index;
+        }
+    });
+    return best;
+};
+
+/**
+ * Groups the foreground pixels of `rect` into palette colours and labels each pixel with its
+ * palette index (-1 for background and for colours too rare to be a series).
+ * `labels` is indexed relative to `rect`.
+ */
+export const buildPalette = (raster: Raster, rect: Rect, background: RGB) => {
+    const width = rect.x1 - rect.x0;
+    const height = rect.y1 - rect.y0;
+    const bins = new Map<number, { count: number; r: number; g: number; b: number }>();
+    let foreground = 0;
+    for (let y = rect.y0; y < rect.y1; y++) {
+        for (let x = rect.x0; x < rect.x1; x++) {
+            const color = pixelColor(raster, x, y);
+            if (!isForeground(color, background)) continue;
+            foreground++;
+            const key = quantize(color);
+            const bin = bins.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+            bin.count++;
+            bin.r += color.r;
+            bin.g += color.g;
+            bin.b += color.b;
+            bins.set(key, bin);
+        }
+    }
+
+    // Greedy clustering: the most common colours become centres, nearby bins merge into them.
+    const centers: { color: RGB; count: number; r: number; g: number; b: number }[] = [];
+    for (const bin of [...bins.values()].sort((a, b) => b.count - a.count)) {
+        const color = { r: bin.r / bin.count, g: bin.g / bin.count, b: bin.b / bin.count };
+        const center = centers.find(c => colorDistance(c.color, color) < PALETTE_MERGE_DISTANCE);
+        if (center) {
+            center.count += bin.count;
+            center.r += bin.r;
+            center.g += bin.g;
+            center.b += bin.b;
+        } else {
+            centers.push({ color, count: bin.count, r: bin.r, g: bin.g, b: bin.b });
+        }
+    }
+    const palette = centers
+        .filter(c => c.count >= Math.max(20, foreground * MIN_PALETTE_SHARE))
+        .map(c => ({ r: c.r / c.count, g: c.g / c.count, b: c.b / c.count }));
+
+    const labels = new Int16Array(width * height).fill(-1);
+    for (let y = rect.y0; y < rect.y1; y++) {
+        for (let x = rect.x0; x < rect.x1; x++) {
+            const color = pixelColor(raster, x, y);
+            if (!isForeground(color, background)) continue;
+            labels[(y - rect.y0) * width + (x - rect.x0)] = nearestPaletteIndex(palette, color);
+        }
+    }
+    return { palette, labels, width, height };
+};
+
+/**
+ * Clears gridlines and axis lines: pixels at most `maxThickness` thick in one direction whose
+ * row (or column) of ink runs at least `minLength` in the other. The length counts any ink, so
+ * a gridline drawn behind bars still reads as one line. Bars touching a line of their own
+ * colour would otherwise merge with it into one shape. The lengths are per direction so a thin
+ * but tall bar is not mistaken for an axis.
+ */
+export const removeThinLines = (labels: Int16Array, width: number, height: number, minLength: { horizontal: number; vertical: number }, maxThickness = 3): Int16Array => {
+    // `anyInk`: runs of foreground of any label, otherwise runs of one label.
+    const runLength = (horizontal: boolean, anyInk: boolean) => {
+        const runs = new Int32Array(labels.length);
+        const outer = horizontal ? height : width;
+        const inner = horizontal ? width : height;
+        const index = (o: number, k: number) => horizontal ? o * width + k : k * width + o;
+        const same = (a: number, b: number) => anyInk ? (a >= 0) === (b >= 0) : a === b;
+        for (let o = 0; o < outer; o++) {
+            let start = 0;
+            for (let i = 1; i <= inner; i++) {
+                if (i < inner && same(labels[index(o, i)], labels[index(o, start)])) continue;
+                for (let k = start; k < i; k++) runs[index(o, k)] = i - start;
+                start = i;
+            }
+        }
+        return runs;
+    };
+    const horizontalLength = runLength(true, true);
+    const verticalLength = runLength(false, true);
+    const horizontalThickness = runLength(true, false);
+    const verticalThickness = runLength(false, false);
+    const cleaned = labels.slice();
+    for (let i = 0; i < labels.length; i++) {
+        if (labels[i] < 0) continue;
+        const isHorizontalLine = horizontalLength[i] >= minLength.horizontal && verticalThickness[i] <= maxThickness;
+        const isVerticalLine = verticalLength[i] >= minLength.vertical && horizontalThickness[i] <= maxThickness;
+        if (isHorizontalLine || isVerticalLine) cleaned[i] = -1;
+    }
+    return cleaned;
+};
+
+export interface Component {
+    label: number; // Palette index.
+    bbox: Rect; // In image coordinates.
+    pixels: number;
+    fill: number; // Share of the bounding box covered; about 1 for a bar.
+}
+
+/** 4-connected shapes of one label each, translated back to image coordinates by `origin`. */
+export const findComponents = (labels: Int16Array, width: number, height: number, origin: { x: number; y: number }, minPixels = 6): Component[] => {
+    const visited = new Uint8Array(labels.length);
+    const components: Component[] = [];
+    for (let start = 0; start < labels.length; start++) {
+        const label = labels[start];
+        if (label < 0 || visited[start]) continue;
+        let x0 = width, y0 = height, x1 = 0, y1 = 0, pixels = 0;
+        const stack = [start];
+        visited[start] = 1;
+        while (stack.length > 0) {
+            const index = stack.pop()!;
+            const x = index % width, y = (index - x) / width;
+            pixels++;
+            x0 = Math.min(x0, x); x1 = Math.max(x1, x + 1);
+            y0 = Math.min(y0, y); y1 = Math.max(y1, y + 1);
+            const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, y > 0 ? index - width : -1, y < height - 1 ? index + width : -1];
+            for (const n of neighbours) {
+                if (n >= 0 && !visited[n] && labels[n] === label) {
+                    visited[n] = 1;
+                    stack.push(n);
+                }
+            }
+        }
+        if (pixels < minPixels) continue;
+        components.push({
+            label,
+            bbox: { x0: x0 + origin.x, y0: y0 + origin.y, x1: x1 + origin.x, y1: y1 + origin.y },
+            pixels,
+            fill: pixels / ((x1 - x0) * (y1 - y0)),
+        });
+    }
+    return components;
+};
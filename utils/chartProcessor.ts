@@ -1,34 +1,77 @@
-import Tesseract from 'tesseract.js';
-import type { LogEntry, UsageChartData } from '../types';
+import type Tesseract from 'tesseract.js';
+import type { LogEntry, OcrEngineOptions, OcrWord, UsageByYear, UsageChartData } from '../types';
+import type { Raster } from './imagePreprocessing';
+import { isConsumptionUnit, matchUnit } from './units';
+import { isCancellation } from './abort';
+import { recognizeImage } from './tesseractWorker';
+import { type Component, type Rect, type RGB, buildPalette, clampRect, estimateBackground, findComponents, isForeground, nearestPaletteIndex, pixelColor, removeThinLines } from './chartPixels';
 
 type AddLogFn = (level: LogEntry['level'], message: string, payload?: any) => void;
 
-interface OcrWord {
-    text: string;
-    bbox: { x0: number; y0: number; x1: number; y1: number; };
-    confidence: number;
-}
+// 'vertical': months along the bottom, bars grow upwards. 'horizontal': months down the left
+// side, bars grow to the right.
+export type ChartOrientation = 'vertical' | 'horizontal';
 
-interface ChartCandidate {
+export interface ChartCandidate {
     id: number;
-    months: OcrWord[];
-    yAxis: OcrWord[];
+    orientation: ChartOrientation;
+    months: OcrWord[]; // In axis order: left to right, or top to bottom.
+    valueAxis: OcrWord[]; // Numeric tick labels of the value axis.
     legend: OcrWord[];
     title: OcrWord[];
     unit?: OcrWord;
-    bounds: { x0: number, y0: number, x1: number, y1: number };
+    bounds: Rect;
 }
 
+// Bars must cover this much of their bounding box; text and line fragments cover far less.
+const MIN_BAR_FILL = 0.6;
+// How far a bar's base may sit from the common baseline, in pixels.
+const BASELINE_TOLERANCE = 3;
+// Confidence of values whose year comes from bar order rather than the legend colours.
+const ORDER_GUESS_CONFIDENCE = 0.6;
+const MISSING_VALUE_CONFIDENCE = 0.2;
+const INTERPOLATED_CONFIDENCE = 0.5;
+
+// --- OCR Result Helpers ---
+
+/**
+ * Flattens a Tesseract page into its words, in reading order.
+ */
+export const extractOcrWords = (data: Tesseract.Page): OcrWord[] => {
+    // FIX: Property 'lines' does not exist on type 'Page'. This was causing a type error.
+    // Traversing the full block -> paragraph -> line hierarchy is more robust across Tesseract.js versions
+    // and handles cases where top-level properties might be missing from the type definitions.
+    const words = (data.blocks || []).flatMap(b => (b.paragraphs || []).flatMap(p => (p.lines || []).flatMap(l => l.words || [])));
+    return words.map(w => ({
+        text: w.text,
+        bbox: w.bbox,
+        confidence: w.confidence
+    }));
+};
+
 // --- Text Classification and Filtering ---
 
-const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
 const isMonth = (word: OcrWord) => {
     const cleanText = word.text.toLowerCase().replace(/[^a-z]/g, '');
-    return MONTHS.some(m => m.startsWith(cleanText));
+    return cleanText.length >= 3 && MONTH_NAMES.some(m => m.startsWith(cleanText));
 };
-const isNumber = (word: OcrWord) => !isNaN(parseFloat(word.text.replace(/,/g, '')));
+
+/** Value of a tick label such as "1,200", "$50", "2.5k" or "40%"; NaN for anything else. */
+const parseAxisValue = (text: string): number => {
+    const match = text.replace(/[,$\s]/g, '').match(/^(-?\d+(?:\.\d+)?)([kK])?%?$/);
+    return match ? parseFloat(match[1]) * (match[2] ? 1000 : 1) : NaN;
+};
+const isNumber = (word: OcrWord) => !isNaN(parseAxisValue(word.text));
 const isYear = (word: OcrWord) => /^\d{4}$/.test(word.text);
-const isUnit = (word: OcrWord) => ['kwh', 'm³', 'therms'].includes(word.text.toLowerCase());
+const isWordLike = (word: OcrWord) => /[a-z]{3,}/i.test(word.text);
+
+/** Strips the brackets and punctuation OCR keeps around a unit, as in "(kWh)" or "kWh:". */
+const stripPunctuation = (text: string) => text.replace(/^[([{"'*]+|[)\]}"'*,.:;]+$/g, '');
+const matchUnitPhrase = (words: OcrWord[]) => {
+    const spaced = stripPunctuation(words.map(w => w.text).join(' '));
+    return matchUnit(spaced) ?? matchUnit(spaced.replace(/\s+/g, ''));
+};
 
 
 // --- Geometric Analysis Utilities ---
@@ -44,222 +87,597 @@ const isHorizontallyAligned = (word1: OcrWord, word2: OcrWord, tolerance = 10) =
     return Math.abs(y1 - y2) < tolerance;
 };
 
-const isVerticallyAligned = (word1: OcrWord, word2: OcrWord, tolerance = 15) => {
-    const x1 = getCenter(word1.bbox).x;
-    const x2 = getCenter(word2.bbox).x;
-    return Math.abs(x1 - x2) < tolerance;
+/** Next to each other on one line, close enough to be one phrase. */
+const isAdjacent = (left: OcrWord, right: OcrWord) => {
+    const gap = right.bbox.x0 - left.bbox.x1;
+    return isHorizontallyAligned(left, right) && gap >= -2 && gap <= (left.bbox.y1 - left.bbox.y0) * 1.5;
 };
 
-const distance = (p1: { x: number, y: number }, p2: { x: number, y: number }) => {
-    return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
+/** Left- or right-aligned, as month labels down the side of a horizontal chart are. */
+const isColumnAligned = (word1: OcrWord, word2: OcrWord, tolerance = 10) =>
+    Math.abs(word1.bbox.x0 - word2.bbox.x0) < tolerance || Math.abs(word1.bbox.x1 - word2.bbox.x1) < tolerance;
+
+/** Distance from a point to a rectangle; zero inside it. */
+const distanceToRect = (point: { x: number, y: number }, rect: Rect) =>
+    Math.hypot(Math.max(rect.x0 - point.x, 0, point.x - rect.x1), Math.max(rect.y0 - point.y, 0, point.y - rect.y1));
+
+const overlapArea = (a: Rect, b: Rect) =>
+    Math.max(0, Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0)) * Math.max(0, Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0));
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const monthCenters = (chart: Pick<ChartCandidate, 'orientation' | 'months'>) =>
+    chart.months.map(m => chart.orientation === 'vertical' ? getCenter(m.bbox).x : getCenter(m.bbox).y);
+
+const monthSpacing = (centers: number[]) => median(centers.slice(1).map((c, i) => c - centers[i]));
+
+/** Splits words into runs whose `key` values lie within `tolerance` of their neighbour. */
+const clusterBy = (words: OcrWord[], key: (word: OcrWord) => number, tolerance: number): OcrWord[][] => {
+    const sorted = [...words].sort((a, b) => key(a) - key(b));
+    const clusters: OcrWord[][] = [];
+    for (const word of sorted) {
+        const last = clusters[clusters.length - 1];
+        if (last && key(word) - key(last[last.length - 1]) <= tolerance) last.push(word);
+        else clusters.push([word]);
+    }
+    return clusters;
+};
+
+/** True when the labels' values change in one direction along the axis, as tick labels do. */
+const isMonotonic = (labels: OcrWord[], position: (word: OcrWord) => number, increasing: boolean) => {
+    const values = [...labels].sort((a, b) => position(a) - position(b)).map(w => parseAxisValue(w.text));
+    return values.slice(1).every((v, i) => increasing ? v > values[i] : v < values[i]);
+};
+
+/**
+ * Tick labels of a vertical chart: a right-aligned column of numbers left of the first month,
+ * above the month row. The column closest to the plot wins over stray numbers further out.
+ */
+const findVerticalValueAxis = (numbers: OcrWord[], months: OcrWord[]): OcrWord[] => {
+    const first = months[0].bbox;
+    const spacing = monthSpacing(monthCenters({ orientation: 'vertical', months }));
+    const monthTop = Math.min(...months.map(m => m.bbox.y0));
+    const nearby = numbers.filter(n =>
+        n.bbox.x1 <= first.x0 + spacing / 2 && n.bbox.x1 >= first.x0 - spacing * 4 - 40 && getCenter(n.bbox).y < monthTop
+    );
+    const columns = clusterBy(nearby, w => w.bbox.x1, 12)
+        .filter(c => c.length >= 2 && isMonotonic(c, w => getCenter(w.bbox).y, false))
+        .sort((a, b) => median(b.map(w => w.bbox.x1)) - median(a.map(w => w.bbox.x1)));
+    return columns[0] ?? [];
+};
+
+/** Tick labels of a horizontal chart: the nearest row of numbers below the last month. */
+const findHorizontalValueAxis = (numbers: OcrWord[], months: OcrWord[]): OcrWord[] => {
+    const last = months[months.length - 1].bbox;
+    const spacing = monthSpacing(monthCenters({ orientation: 'horizontal', months }));
+    const labelRight = Math.max(...months.map(m => m.bbox.x1));
+    const nearby = numbers.filter(n =>
+        getCenter(n.bbox).y > getCenter(last).y && n.bbox.y0 <= last.y1 + spacing * 4 + 40 && getCenter(n.bbox).x >= labelRight - spacing
+    );
+    const rows = clusterBy(nearby, w => getCenter(w.bbox).y, 8)
+        .filter(r => r.length >= 2 && isMonotonic(r, w => getCenter(w.bbox).x, true))
+        .sort((a, b) => median(a.map(w => w.bbox.y0)) - median(b.map(w => w.bbox.y0)));
+    return rows[0] ?? [];
+};
+
+const mergeWords = (words: OcrWord[], text: string): OcrWord => ({
+    text,
+    bbox: {
+        x0: Math.min(...words.map(w => w.bbox.x0)),
+        y0: Math.min(...words.map(w => w.bbox.y0)),
+        x1: Math.max(...words.map(w => w.bbox.x1)),
+        y1: Math.max(...words.map(w => w.bbox.y1)),
+    },
+    confidence: Math.min(...words.map(w => w.confidence)),
+});
+
+/**
+ * Units on the page, including ones OCR split across words ("kW h", "m 3", "° F", "cubic
+ * feet"). Each is returned as one word whose text is the canonical unit, with the words it was
+ * read from.
+ */
+const findUnits = (words: OcrWord[]): { unit: OcrWord; parts: OcrWord[] }[] => {
+    const units: { unit: OcrWord; parts: OcrWord[] }[] = [];
+    const used = new Set<OcrWord>();
+    // Longest phrases first, so "kW demand" is not read as "kW" and a stray word.
+    for (let length = 3; length >= 1; length--) {
+        for (let i = 0; i + length <= words.length; i++) {
+            const phrase = words.slice(i, i + length);
+            if (phrase.some(w => used.has(w)) || !phrase.every((w, k) => k === 0 || isAdjacent(phrase[k - 1], w))) continue;
+            const unit = matchUnitPhrase(phrase);
+            if (!unit) continue;
+            phrase.forEach(w => used.add(w));
+            units.push({ unit: mergeWords(phrase, unit), parts: phrase });
+        }
+    }
+    return units;
+};
+
+/** `seed` plus the words chained to it on the same line, so a centred title wider than the plot stays whole. */
+const extendLine = (seed: OcrWord[], words: OcrWord[]): OcrWord[] => {
+    const line = [...seed].sort((a, b) => a.bbox.x0 - b.bbox.x0);
+    for (let grew = true; grew;) {
+        grew = false;
+        for (const word of words) {
+            if (line.includes(word)) continue;
+            if (isAdjacent(line[line.length - 1], word)) line.push(word);
+            else if (isAdjacent(word, line[0])) line.unshift(word);
+            else continue;
+            grew = true;
+        }
+    }
+    return line;
+};
+
+/**
+ * The chart title: the nearest line of text above the chart that reads like words. Lines of
+ * only numbers, years (a legend) or units (an axis label) are skipped.
+ */
+const findTitle = (words: OcrWord[], bounds: Rect, labelHeight: number, exclude: OcrWord[], unitWords: Set<OcrWord>): OcrWord[] => {
+    const above = words.filter(w => {
+        const center = getCenter(w.bbox);
+        return !exclude.includes(w) && w.bbox.y1 <= bounds.y0 + 2 && w.bbox.y1 >= bounds.y0 - labelHeight * 6 - 20
+            && center.x >= bounds.x0 - 20 && center.x <= bounds.x1 + 20;
+    });
+    const nearestFirst = clusterBy(above, w => getCenter(w.bbox).y, 8).reverse();
+    const line = nearestFirst.find(l => l.some(w => isWordLike(w) && !unitWords.has(w)));
+    return line ? extendLine(line, words.filter(w => !exclude.includes(w))) : [];
 };
 
 /**
  * Dynamically finds and clusters chart-related text elements using geometric analysis.
  */
-const findChartCandidates = (words: OcrWord[], addLog: AddLogFn): ChartCandidate[] => {
+export const findChartCandidates = (words: OcrWord[], addLog: AddLogFn): ChartCandidate[] => {
     addLog('DEBUG', 'Starting dynamic chart candidate discovery...');
     const potentialMonths = words.filter(isMonth).sort((a, b) => a.bbox.x0 - b.bbox.x0);
-    const potentialYAxis = words.filter(isNumber).sort((a, b) => b.bbox.y0 - a.bbox.y0);
+    const potentialValues = words.filter(w => isNumber(w) && !isMonth(w));
     const potentialLegends = words.filter(isYear);
-    const potentialUnits = words.filter(isUnit);
+    const unitPhrases = findUnits(words);
+    const potentialUnits = unitPhrases.map(u => u.unit);
+    const unitWords = new Set(unitPhrases.flatMap(u => u.parts));
 
     const candidates: ChartCandidate[] = [];
-    let chartId = 0;
+    const addCandidate = (orientation: ChartOrientation, months: OcrWord[], valueAxis: OcrWord[]) => {
+        const all = [...months, ...valueAxis].map(w => w.bbox);
+        const bounds = {
+            x0: Math.min(...all.map(b => b.x0)),
+            y0: Math.min(...all.map(b => b.y0)),
+            x1: Math.max(...all.map(b => b.x1)),
+            y1: Math.max(...all.map(b => b.y1)),
+        };
+        // Find legend and unit within a reasonable distance of the chart area
+        const associatedLegend = potentialLegends.filter(l => !valueAxis.includes(l) && distanceToRect(getCenter(l.bbox), bounds) < 150);
+        const labelHeight = median(months.map(m => m.bbox.y1 - m.bbox.y0));
+        const title = findTitle(words, bounds, labelHeight, [...months, ...valueAxis, ...associatedLegend], unitWords);
+        // A consumption unit in the title ("Electricity Use (kWh)") wins; otherwise the nearest
+        // unit, with days and temperatures (often a second axis or a side note) counting as further away.
+        const titleRect = title.length > 0 ? mergeWords(title, '').bbox : null;
+        const associatedUnit = potentialUnits.find(u => titleRect && overlapArea(u.bbox, titleRect) > 0 && isConsumptionUnit(u.text))
+            ?? potentialUnits
+                .map(u => ({ unit: u, distance: distanceToRect(getCenter(u.bbox), bounds) + (isConsumptionUnit(u.text) ? 0 : 60) }))
+                .filter(u => u.distance < 150)
+                .sort((a, b) => a.distance - b.distance)[0]?.unit;
+        candidates.push({
+            id: candidates.length,
+            orientation,
+            months,
+            valueAxis,
+            legend: associatedLegend.sort((a, b) => a.bbox.x0 - b.bbox.x0 || a.bbox.y0 - b.bbox.y0),
+            title,
+            unit: associatedUnit,
+            bounds,
+        });
+    };
+    const isUsed = (word: OcrWord) => candidates.some(c => c.months.includes(word));
 
-    // Find groups of horizontally aligned months, which are strong indicators of a chart's x-axis.
+    // Horizontally aligned months are the x-axis of a vertical chart.
     for (let i = 0; i < potentialMonths.length; i++) {
-        const monthGroup = [potentialMonths[i]];
-        for (let j = i + 1; j < potentialMonths.length; j++) {
-            if (isHorizontallyAligned(potentialMonths[i], potentialMonths[j])) {
-                monthGroup.push(potentialMonths[j]);
-            }
-        }
+        if (isUsed(potentialMonths[i])) continue;
+        const monthGroup = potentialMonths.filter((m, j) => j >= i && isHorizontallyAligned(potentialMonths[i], m));
+        if (monthGroup.length <= 3) continue;
+        const sortedMonths = monthGroup.sort((a, b) => a.bbox.x0 - b.bbox.x0);
+        const valueAxis = findVerticalValueAxis(potentialValues, sortedMonths);
+        if (valueAxis.length > 1) addCandidate('vertical', sortedMonths, valueAxis);
+    }
 
-        if (monthGroup.length > 3 && !candidates.some(c => c.months.includes(monthGroup[0]))) {
-            const sortedMonths = monthGroup.sort((a, b) => a.bbox.x0 - b.bbox.x0);
-            const avgY = sortedMonths.reduce((sum, m) => sum + getCenter(m.bbox).y, 0) / sortedMonths.length;
-            const minX = sortedMonths[0].bbox.x0;
-            const maxX = sortedMonths[sortedMonths.length - 1].bbox.x1;
-
-            // Find associated Y-axis labels (vertically aligned, to the left of the months)
-            const associatedYAxis = potentialYAxis.filter(y =>
-                isVerticallyAligned(y, sortedMonths[0], 30) && y.bbox.x1 < minX
-            );
-
-            if (associatedYAxis.length > 1) {
-                const bounds = {
-                    x0: associatedYAxis[0].bbox.x0,
-                    y0: associatedYAxis[associatedYAxis.length-1].bbox.y0,
-                    x1: maxX,
-                    y1: avgY,
-                };
-                
-                // Find legend and unit within a reasonable distance of the chart area
-                const chartCenter = { x: (bounds.x0 + bounds.x1) / 2, y: (bounds.y0 + bounds.y1) / 2 };
-                const associatedLegend = potentialLegends.filter(l => distance(getCenter(l.bbox), chartCenter) < 300);
-                const associatedUnit = potentialUnits.find(u => distance(getCenter(u.bbox), {x: bounds.x0, y: chartCenter.y}) < 100);
-
-                candidates.push({
-                    id: chartId++,
-                    months: sortedMonths,
-                    yAxis: associatedYAxis,
-                    legend: associatedLegend.sort((a,b) => a.bbox.x0 - b.bbox.x0),
-                    title: [], // Title detection can be added here
-                    unit: associatedUnit,
-                    bounds,
-                });
-            }
-        }
+    // A column of months is the category axis of a horizontal chart.
+    const remaining = potentialMonths.filter(m => !isUsed(m)).sort((a, b) => a.bbox.y0 - b.bbox.y0);
+    for (let i = 0; i < remaining.length; i++) {
+        if (isUsed(remaining[i])) continue;
+        const monthGroup = remaining.filter((m, j) => j >= i && isColumnAligned(remaining[i], m) && !isUsed(m));
+        if (monthGroup.length <= 3) continue;
+        const valueAxis = findHorizontalValueAxis(potentialValues, monthGroup);
+        if (valueAxis.length > 1) addCandidate('horizontal', monthGroup, valueAxis);
     }
-    
+
     addLog('INFO', `Found ${candidates.length} potential chart(s) on the page.`, candidates);
     return candidates;
 };
 
-// --- Pixel Analysis for Bar Detection ---
+// --- Pixel Analysis for Bar and Line Detection ---
+
+interface AxisScale {
+    valueAt: (position: number) => number;
+    unitsPerPixel: number;
+    confidence: number;
+}
 
-const isDarkPixel = (data: Uint8ClampedArray, index: number): boolean => {
-    const r = data[index];
-    const g = data[index + 1];
-    const b = data[index + 2];
-    return r < 240 && g < 240 && b < 240; // Simple threshold for non-white
+/**
+ * Least-squares fit of tick values against their position, so axes that start above zero or
+ * have an OCR-garbled tick still scale correctly. A poor fit lowers every value's confidence.
+ */
+const fitValueAxis = (chart: ChartCandidate): AxisScale => {
+    const ticks = chart.valueAxis.map(w => ({
+        value: parseAxisValue(w.text),
+        position: chart.orientation === 'vertical' ? getCenter(w.bbox).y : getCenter(w.bbox).x,
+    })).filter(t => !isNaN(t.value));
+    if (ticks.length < 2) throw new Error(`Chart ${chart.id} has insufficient value axis labels.`);
+
+    const meanPosition = ticks.reduce((sum, t) => sum + t.position, 0) / ticks.length;
+    const meanValue = ticks.reduce((sum, t) => sum + t.value, 0) / ticks.length;
+    let covariance = 0, positionVariance = 0, valueVariance = 0;
+    for (const t of ticks) {
+        covariance += (t.position - meanPosition) * (t.value - meanValue);
+        positionVariance += (t.position - meanPosition) ** 2;
+        valueVariance += (t.value - meanValue) ** 2;
+    }
+    if (positionVariance === 0 || valueVariance === 0) throw new Error(`Chart ${chart.id} has a degenerate value axis.`);
+    const slope = covariance / positionVariance;
+    const intercept = meanValue - slope * meanPosition;
+    const rSquared = covariance * covariance / (positionVariance * valueVariance);
+    // Two ticks always fit perfectly, so they earn slightly less trust than three that agree.
+    const confidence = ticks.length < 3 ? 0.9 : Math.max(0.3, 1 - (1 - rSquared) * 20);
+    return { valueAt: position => slope * position + intercept, unitsPerPixel: Math.abs(slope), confidence };
 };
 
-const detectBarsForChart = async (
-    imageB64: string,
-    chart: ChartCandidate,
-    addLog: AddLogFn
-): Promise<UsageChartData> => {
-    addLog('INFO', `Starting programmatic bar detection for Chart ${chart.id}.`);
-    
-    const img = new Image();
-    await new Promise(resolve => { img.onload = resolve; img.src = imageB64; });
+/** Rounds to the precision one pixel of the chart can resolve. */
+const roundValue = (value: number, unitsPerPixel: number) => {
+    const decimals = unitsPerPixel >= 1 ? 0 : Math.min(2, Math.ceil(-Math.log10(unitsPerPixel)));
+    return Number(value.toFixed(decimals));
+};
 
-    const canvas = document.createElement('canvas');
-    canvas.width = img.width;
-    canvas.height = img.height;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) throw new Error("Could not get canvas context.");
-    ctx.drawImage(img, 0, 0);
+/** The plot area between the axes, where bars and lines are drawn. */
+const findPlotArea = (chart: ChartCandidate, centers: number[], spacing: number): Rect => {
+    const tickCenters = chart.valueAxis.map(w => chart.orientation === 'vertical' ? getCenter(w.bbox).y : getCenter(w.bbox).x);
+    const labelSize = median(chart.valueAxis.map(w => w.bbox.y1 - w.bbox.y0));
+    // Bars may end a little beyond the last tick.
+    const overshoot = Math.max(2 * labelSize, 0.1 * (Math.max(...tickCenters) - Math.min(...tickCenters)));
+    const first = centers[0] - spacing * 0.6;
+    const last = centers[centers.length - 1] + spacing * 0.6;
+    if (chart.orientation === 'vertical') {
+        return { x0: first, x1: last, y0: Math.min(...tickCenters) - overshoot, y1: Math.min(...chart.months.map(m => m.bbox.y0)) };
+    }
+    return { x0: Math.max(...chart.months.map(m => m.bbox.x1)) + 1, x1: Math.max(...tickCenters) + overshoot, y0: first, y1: last };
+};
 
-    // Calculate Y-Axis scale
-    const yValues = chart.yAxis.map(v => ({
-        value: parseInt(v.text.replace(/,/g, ''), 10),
-        y: getCenter(v.bbox).y
-    })).filter(v => !isNaN(v.value)).sort((a, b) => a.value - b.value);
-    
-    if (yValues.length < 2) throw new Error(`Chart ${chart.id} has insufficient Y-axis labels.`);
-    
-    const yMin = yValues[0];
-    const yMax = yValues[yValues.length - 1];
-    const pixelRange = Math.abs(yMin.y - yMax.y);
-    const valueRange = yMax.value - yMin.value;
-    const valuePerPixel = valueRange / pixelRange;
-    const zeroLineY = yMin.value === 0 ? yMin.y : yMax.y + ((yMax.value / valueRange) * pixelRange);
-    
-    addLog('DEBUG', `Chart ${chart.id} Y-axis scale calculated`, { yMin, yMax, valuePerPixel, zeroLineY });
-    
-    const chartArea = {
-        x0: chart.months[0].bbox.x0,
-        y0: yMax.y,
-        x1: chart.months[chart.months.length - 1].bbox.x1,
-        y1: zeroLineY
-    };
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+/** Shapes that lie mostly inside an OCR word are glyphs (value labels, tick labels), not data. */
+const isText = (component: Component, words: OcrWord[]) => {
+    const area = (component.bbox.x1 - component.bbox.x0) * (component.bbox.y1 - component.bbox.y0);
+    return words.some(w => overlapArea(component.bbox, { x0: w.bbox.x0 - 2, y0: w.bbox.y0 - 2, x1: w.bbox.x1 + 2, y1: w.bbox.y1 + 2 }) >= area * 0.6);
+};
+
+/**
+ * Rejoins pieces of one bar that a value label printed across it split apart: same colour,
+ * same column and only a small gap between them.
+ */
+const mergeSplitBars = (components: Component[], vertical: boolean, maxGap: number): Component[] => {
+    const merged = [...components];
+    for (let i = 0; i < merged.length; i++) {
+        for (let j = i + 1; j < merged.length; j++) {
+            const a = merged[i].bbox, b = merged[j].bbox;
+            if (merged[i].label !== merged[j].label) continue;
+            const [a0, a1, b0, b1] = vertical ? [a.x0, a.x1, b.x0, b.x1] : [a.y0, a.y1, b.y0, b.y1];
+            const overlap = Math.min(a1, b1) - Math.max(a0, b0);
+            const gap = vertical ? Math.max(a.y0, b.y0) - Math.min(a.y1, b.y1) : Math.max(a.x0, b.x0) - Math.min(a.x1, b.x1);
+            if (overlap < 0.8 * Math.min(a1 - a0, b1 - b0) || gap > maxGap) continue;
+            const bbox = { x0: Math.min(a.x0, b.x0), y0: Math.min(a.y0, b.y0), x1: Math.max(a.x1, b.x1), y1: Math.max(a.y1, b.y1) };
+            const pixels = merged[i].pixels + merged[j].pixels;
+            merged[i] = { label: merged[i].label, bbox, pixels, fill: pixels / ((bbox.x1 - bbox.x0) * (bbox.y1 - bbox.y0)) };
+            merged.splice(j, 1);
+            j = i;
+        }
+    }
+    return merged;
+};
 
-    const years = chart.legend.map(l => l.text);
-    const numYears = Math.max(1, years.length);
+/**
+ * Palette index of the colour swatch beside a legend entry (left of it, else right of it),
+ * limited to `candidates`; -1 if none is found.
+ */
+const findLegendSwatch = (raster: Raster, word: OcrWord, palette: RGB[], background: RGB, candidates: number[]): number => {
+    const size = word.bbox.y1 - word.bbox.y0;
+    const sides: Rect[] = [
+        { x0: word.bbox.x0 - size * 3, x1: word.bbox.x0 - 1, y0: word.bbox.y0, y1: word.bbox.y1 },
+        { x0: word.bbox.x1 + 1, x1: word.bbox.x1 + size * 3, y0: word.bbox.y0, y1: word.bbox.y1 },
+    ];
+    for (const side of sides) {
+        const area = clampRect(side, raster);
+        const counts = new Map<number, number>();
+        for (let y = area.y0; y < area.y1; y++) {
+            for (let x = area.x0; x < area.x1; x++) {
+                const color = pixelColor(raster, x, y);
+                if (!isForeground(color, background)) continue;
+                const index = nearestPaletteIndex(palette, color);
+                if (candidates.includes(index)) counts.set(index, (counts.get(index) ?? 0) + 1);
+            }
+        }
+        const best = [...counts].sort((a, b) => b[1] - a[1])[0];
+        if (best && best[1] >= 4) return best[0];
+    }
+    return -1;
+};
 
-    const usageData: UsageChartData['data'] = [];
+interface SeriesValue {
+    value: number;
+    confidence: number;
+}
 
-    for (const month of chart.months) {
-        const monthCenter = getCenter(month.bbox);
-        const barWidthGuess = (month.bbox.x1 - month.bbox.x0) / numYears;
-        const monthUsage: { year: string, value: number }[] = [];
+interface Series {
+    label: number;
+    year: string;
+    legendConfidence: number;
+    values: (SeriesValue | null)[]; // One per month.
+    order: number; // Mean position within the month group, for ordering unmatched series.
+}
 
-        for (let i = 0; i < numYears; i++) {
-            const scanX = Math.round(month.bbox.x0 + (i * barWidthGuess) + (barWidthGuess / 2));
-            let barTopY = -1;
+/**
+ * Names series by year: colours matched to legend swatches first, then the remaining series in
+ * left-to-right (or top-to-bottom) order against the remaining years, earliest first.
+ */
+const assignYears = (series: Series[], years: OcrWord[], raster: Raster, palette: RGB[], background: RGB) => {
+    const unmatchedYears = [...years];
+    const unmatched = [...series];
+    for (const word of years) {
+        const label = findLegendSwatch(raster, word, palette, background, unmatched.map(s => s.label));
+        const match = unmatched.find(s => s.label === label);
+        if (!match) continue;
+        match.year = word.text;
+        match.legendConfidence = 1;
+        unmatched.splice(unmatched.indexOf(match), 1);
+        unmatchedYears.splice(unmatchedYears.indexOf(word), 1);
+    }
+    unmatchedYears.sort((a, b) => a.text.localeCompare(b.text));
+    unmatched.sort((a, b) => a.order - b.order).forEach((s, i) => {
+        s.year = unmatchedYears[i]?.text ?? `Year ${series.indexOf(s) + 1}`;
+        s.legendConfidence = series.length > 1 ? ORDER_GUESS_CONFIDENCE : 1;
+    });
+};
 
-            for (let y = Math.floor(zeroLineY); y > chartArea.y0; y--) {
-                const pixelIndex = (y * canvas.width + scanX) * 4;
-                if (isDarkPixel(imageData.data, pixelIndex)) {
-                    barTopY = y;
-                    break;
-                }
+/**
+ * Line series: colours whose pixels form a single thin run in most columns of the plot and
+ * rise and fall across it, which rules out gridlines (several runs) and axes (flat).
+ */
+const findLineLabels = (labels: Int16Array, width: number, height: number, paletteSize: number): number[] => {
+    const lines: number[] = [];
+    for (let label = 0; label < paletteSize; label++) {
+        let covered = 0, singleRun = 0, thickness = 0;
+        const centers: number[] = [];
+        for (let x = 0; x < width; x++) {
+            let runs = 0, pixels = 0, sum = 0, previous = false;
+            for (let y = 0; y < height; y++) {
+                const hit = labels[y * width + x] === label;
+                if (hit) { pixels++; sum += y; if (!previous) runs++; }
+                previous = hit;
             }
+            if (pixels === 0) continue;
+            covered++;
+            thickness += pixels;
+            if (runs === 1) singleRun++;
+            centers.push(sum / pixels);
+        }
+        if (covered < width * 0.5 || singleRun < covered * 0.8 || thickness / covered > 8) continue;
+        const mean = centers.reduce((s, c) => s + c, 0) / centers.length;
+        const spread = Math.sqrt(centers.reduce((s, c) => s + (c - mean) ** 2, 0) / centers.length);
+        if (spread >= 1) lines.push(label);
+    }
+    return lines;
+};
 
-            const year = years[i] || `Year ${i+1}`;
-            if (barTopY !== -1) {
-                const pixelHeight = zeroLineY - barTopY;
-                const value = Math.round(pixelHeight * valuePerPixel);
-                monthUsage.push({ year, value });
-                addLog('DEBUG', `Detected bar for ${month.text} ${year}`, { scanX, barTopY, value });
-            } else {
-                monthUsage.push({ year, value: 0 });
+/**
+ * Reads one chart's values from the image pixels. `words` are the page's OCR words, used to
+ * tell text inside the plot apart from bars.
+ */
+export const extractChartData = (raster: Raster, chart: ChartCandidate, words: OcrWord[], addLog: AddLogFn): UsageChartData => {
+    const vertical = chart.orientation === 'vertical';
+    const scale = fitValueAxis(chart);
+    const centers = monthCenters(chart);
+    const spacing = monthSpacing(centers);
+    const plot = clampRect(findPlotArea(chart, centers, spacing), raster);
+    if (plot.x1 - plot.x0 < 10 || plot.y1 - plot.y0 < 10) throw new Error(`Chart ${chart.id} has no usable plot area.`);
+    addLog('DEBUG', `Chart ${chart.id} axis and plot area`, { orientation: chart.orientation, plot, spacing, unitsPerPixel: scale.unitsPerPixel, axisConfidence: scale.confidence });
+
+    const background = estimateBackground(raster, plot);
+    const { palette, labels, width, height } = buildPalette(raster, plot, background);
+    const cleaned = removeThinLines(labels, width, height, vertical
+        ? { horizontal: spacing * 1.5, vertical: height * 0.9 }
+        : { horizontal: width * 0.9, vertical: spacing * 1.5 });
+    const plotWords = words.filter(w => overlapArea(w.bbox, plot) > 0);
+    const shapes = findComponents(cleaned, width, height, { x: plot.x0, y: plot.y0 }).filter(c => !isText(c, plotWords));
+
+    // --- Bars ---
+    const thicknessOf = (c: Component) => vertical ? c.bbox.x1 - c.bbox.x0 : c.bbox.y1 - c.bbox.y0;
+    const lengthOf = (c: Component) => vertical ? c.bbox.y1 - c.bbox.y0 : c.bbox.x1 - c.bbox.x0;
+    const baseOf = (c: Component) => vertical ? c.bbox.y1 : c.bbox.x0;
+    const barShapes = mergeSplitBars(shapes, vertical, Math.max(6, spacing / 2))
+        .filter(c => c.fill >= MIN_BAR_FILL && lengthOf(c) >= 3 && thicknessOf(c) >= 3 && thicknessOf(c) <= spacing * 1.1);
+    // The baseline the most ink stands on; fragments of a broken gridline are many but small.
+    const baseline = barShapes
+        .map(c => ({ base: baseOf(c), mass: barShapes.filter(o => Math.abs(baseOf(o) - baseOf(c)) <= BASELINE_TOLERANCE).reduce((sum, o) => sum + o.pixels, 0) }))
+        .sort((a, b) => b.mass - a.mass)[0]?.base ?? 0;
+    const bars = barShapes
+        .filter(c => Math.abs(baseOf(c) - baseline) <= BASELINE_TOLERANCE)
+        .map(c => {
+            const position = vertical ? (c.bbox.x0 + c.bbox.x1) / 2 : (c.bbox.y0 + c.bbox.y1) / 2;
+            const month = centers.reduce((best, center, i) => Math.abs(center - position) < Math.abs(centers[best] - position) ? i : best, 0);
+            return { component: c, month, offset: (position - centers[month]) / spacing, value: scale.valueAt(vertical ? c.bbox.y0 : c.bbox.x1) };
+        })
+        .filter(b => Math.abs(b.offset) <= 0.5);
+
+    const minBars = Math.max(2, Math.ceil(chart.months.length * 0.25));
+    const barsByLabel = new Map<number, typeof bars>();
+    for (const bar of bars) barsByLabel.set(bar.component.label, [...(barsByLabel.get(bar.component.label) ?? []), bar]);
+    const barLabels = [...barsByLabel].filter(([, b]) => b.length >= minBars).map(([label]) => label);
+
+    const years = chart.legend.filter((w, i, all) => all.findIndex(o => o.text === w.text) === i);
+    const series: Series[] = [];
+    const emptyValues = () => chart.months.map((): SeriesValue | null => null);
+    const shapeConfidence = (c: Component) => Math.min(1, 0.4 + c.fill * 0.6);
+
+    if (barLabels.length === 1 && years.length >= 2) {
+        // One colour for several years: the bars of each month are the years in order.
+        const sortedYears = [...years].sort((a, b) => a.text.localeCompare(b.text));
+        sortedYears.forEach((year, i) => series.push({ label: barLabels[0], year: year.text, legendConfidence: 1, values: emptyValues(), order: i }));
+        chart.months.forEach((_, month) => {
+            const inMonth = barsByLabel.get(barLabels[0])!.filter(b => b.month === month).sort((a, b) => a.offset - b.offset);
+            const complete = inMonth.length === sortedYears.length;
+            inMonth.slice(0, sortedYears.length).forEach((bar, i) => {
+                // With a bar missing, its neighbour's side of the month centre tells which year it is.
+                const index = complete ? i : Math.min(sortedYears.length - 1, Math.max(0, Math.floor((bar.offset + 0.5) * sortedYears.length)));
+                if (series[index].values[month]) return;
+                series[index].values[month] = { value: bar.value, confidence: (complete ? 0.8 : 0.5) * shapeConfidence(bar.component) };
+            });
+        });
+    } else if (barLabels.length > 0) {
+        for (const label of barLabels) {
+            const labelBars = barsByLabel.get(label)!;
+            const meanOffset = labelBars.reduce((sum, b) => sum + b.offset, 0) / labelBars.length;
+            const values = emptyValues();
+            for (const bar of labelBars) {
+                // Keep the bar nearest the series' usual place when a month has two of one colour.
+                const placement = 1 - Math.min(0.5, Math.abs(bar.offset - meanOffset));
+                const confidence = placement * shapeConfidence(bar.component);
+                if ((values[bar.month]?.confidence ?? 0) < confidence) values[bar.month] = { value: bar.value, confidence };
             }
+            series.push({ label, year: '', legendConfidence: 1, values, order: meanOffset });
         }
-        usageData.push({ month: month.text, usage: monthUsage });
+        assignYears(series, years, raster, palette, background);
+    } else if (vertical) {
+        // --- Lines ---
+        const lineLabels = findLineLabels(labels, width, height, palette.length);
+        lineLabels.forEach((label, order) => {
+            const values = centers.map((center): SeriesValue | null => {
+                const ys: number[] = [];
+                for (let x = Math.round(center - plot.x0) - 2; x <= Math.round(center - plot.x0) + 2; x++) {
+                    if (x < 0 || x >= width) continue;
+                    for (let y = 0; y < height; y++) if (labels[y * width + x] === label) ys.push(y);
+                }
+                return ys.length > 0 ? { value: scale.valueAt(median(ys) + plot.y0 + 0.5), confidence: 0.9 } : null;
+            });
+            // Markers or labels can hide a point; interpolate it from its neighbours.
+            values.forEach((v, i) => {
+                if (v) return;
+                const before = values.slice(0, i).reverse().find(Boolean);
+                const after = values.slice(i + 1).find(Boolean);
+                if (before && after) values[i] = { value: (before.value + after.value) / 2, confidence: INTERPOLATED_CONFIDENCE };
+            });
+            series.push({ label, year: '', legendConfidence: 1, values, order });
+        });
+        assignYears(series, years, raster, palette, background);
     }
 
+    if (series.length === 0) throw new Error(`No bars or lines found in chart ${chart.id}.`);
+    series.sort((a, b) => a.year.localeCompare(b.year));
+    addLog('DEBUG', `Chart ${chart.id} series`, series.map(s => ({ year: s.year, color: palette[s.label], legendConfidence: s.legendConfidence })));
+
+    const data = chart.months.map((month, i) => ({
+        month: month.text,
+        usage: series.map((s): UsageByYear => {
+            const reading = s.values[i];
+            if (!reading) return { year: s.year, value: 0, confidence: MISSING_VALUE_CONFIDENCE };
+            const confidence = reading.confidence * s.legendConfidence * scale.confidence;
+            return { year: s.year, value: roundValue(reading.value, scale.unitsPerPixel), confidence: Math.round(confidence * 100) / 100 };
+        }),
+    }));
+
     return {
         title: chart.title.map(t => t.text).join(' ') || `Usage Chart ${chart.id}`,
         unit: chart.unit?.text || 'Units',
-        data: usageData,
+        data,
     };
 };
 
+const loadRaster = async (imageB64: string): Promise<Raster> => {
+    const img = new Image();
+    await new Promise((resolve, reject) => {
+        img.onload = resolve;
+        img.onerror = () => reject(new Error('Could not load the image for chart analysis.'));
+        img.src = imageB64;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not get canvas context.");
+    ctx.drawImage(img, 0, 0);
+    const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    return { data, width, height };
+};
+
+export const detectBarsForChart = async (
+    imageB64: string,
+    chart: ChartCandidate,
+    addLog: AddLogFn,
+    words: OcrWord[] = []
+): Promise<UsageChartData> => {
+    addLog('INFO', `Starting programmatic bar detection for Chart ${chart.id}.`);
+    return extractChartData(await loadRaster(imageB64), chart, words, addLog);
+};
+
 // --- Main Exported Function ---
 
-export const processChart = async (imageB64: string, addLog: AddLogFn): Promise<UsageChartData[]> => {
-    addLog('INFO', 'Starting advanced programmatic chart processing v2.1...');
-    
-    const worker = await Tesseract.createWorker('eng', 1, {
-        logger: m => addLog('DEBUG', `Chart OCR Progress: ${m.status} (${(m.progress * 100).toFixed(0)}%)`),
-    });
-    
+// Share of a page's chart progress given to OCR; bar detection is quick by comparison.
+const OCR_SHARE = 0.9;
+
+/**
+ * Finds and reads the usage charts on one page. `onFraction` receives 0-1 as the page's OCR and
+ * bar detection advance; OCR takes most of the time.
+ */
+export const processChart = async (imageB64: string, addLog: AddLogFn, ocrOptions: OcrEngineOptions = {}, signal?: AbortSignal, onFraction?: (fraction: number) => void): Promise<UsageChartData[]> => {
+    addLog('INFO', 'Starting advanced programmatic chart processing v3...');
+
     try {
         // Pass 1: Full-page OCR to get all text geometry
-        const { data } = await worker.recognize(imageB64);
-        // FIX: Property 'lines' does not exist on type 'Page'. This was causing a type error.
-        // Traversing the full block -> paragraph -> line hierarchy is more robust across Tesseract.js versions
-        // and handles cases where top-level properties might be missing from the type definitions.
-        const words = (data.blocks || []).flatMap(b => (b.paragraphs || []).flatMap(p => (p.lines || []).flatMap(l => l.words || [])));
-        const allWords: OcrWord[] = words.map(w => ({
-            text: w.text,
-            bbox: w.bbox,
-            confidence: w.confidence
-        }));
+        const logger = (m: Tesseract.LoggerMessage) => {
+            addLog('DEBUG', `Chart OCR Progress: ${m.status} (${(m.progress * 100).toFixed(0)}%)`);
+            if (m.status === 'recognizing text') onFraction?.(m.progress * OCR_SHARE);
+        };
+        const data = await recognizeImage(imageB64, ocrOptions, { blocks: true }, logger, signal);
+        const allWords = extractOcrWords(data);
         addLog('DEBUG', `Chart processor OCR complete. Found ${allWords.length} words.`);
 
         // Pass 2: Find chart candidates
         const candidates = findChartCandidates(allWords, addLog);
         if (candidates.length === 0) {
             addLog('INFO', 'No chart candidates found on the page.');
+            onFraction?.(1);
             return [];
         }
 
         // Pass 3: Process each candidate
+        const raster = await loadRaster(imageB64);
         const processedCharts: UsageChartData[] = [];
-        for (const candidate of candidates) {
+        for (const [index, candidate] of candidates.entries()) {
+            signal?.throwIfAborted();
             try {
-                const chartData = await detectBarsForChart(imageB64, candidate, addLog);
-                processedCharts.push(chartData);
+                addLog('INFO', `Starting programmatic bar detection for Chart ${candidate.id}.`);
+                processedCharts.push(extractChartData(raster, candidate, allWords, addLog));
             } catch (e) {
                 addLog('ERROR', `Failed to process chart candidate ${candidate.id}`, e);
             }
+            onFraction?.(OCR_SHARE + (1 - OCR_SHARE) * (index + 1) / candidates.length);
         }
-        
+
         addLog('INFO', `Programmatic chart analysis successful. Extracted ${processedCharts.length} chart(s).`, processedCharts);
         return processedCharts;
 
     } catch(error) {
+        if (isCancellation(error)) throw error;
         addLog('ERROR', 'The chart processing engine failed.', error);
         // Return empty array on failure so the rest of the app doesn't crash.
         return [];
     }
-    finally {
-        await worker.terminate();
-    }
-};
\ No newline at end of file
+};
@@ -0,0 +1,42 @@
+// Bill dates are free-form strings as printed on the bill ("October 5, 2017", "10/05/2017",
+// "2017-10-05", "Oct. 5 2017"). These helpers turn them into comparable values.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The date for a one-based month, or null when it does not exist. Date would roll "13/05/2017"
+ * (a day-first date) over into the next year, and "02/30" into March.
+ */
+const buildDate = (year: number, month: number, day: number): Date | null => {
+    if (month < 1 || month > 12) return null;
+    const date = new Date(year, month - 1, day);
+    return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+export const parseBillDate = (value?: string): Date | null => {
+    if (!value) return null;
+    const cleaned = value.trim().replace(/(\d)(st|nd|rd|th)\b/gi, '$1').replace(/\./g, ' ').replace(/\s{2,}/g, ' ');
+
+    // ISO dates are parsed as UTC by Date; build them locally so they compare with the other formats.
+    const iso = cleaned.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (iso) return buildDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+    // Month first; two-digit years ("10/05/17") are read as 20xx.
+    const numeric = cleaned.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/);
+    if (numeric) {
+        const year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+        return buildDate(year, Number(numeric[1]), Number(numeric[2]));
+    }
+
+    const parsed = new Date(cleaned);
+    return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+export const daysBetween = (from: Date, to: Date): number => Math.round((to.getTime() - from.getTime()) / DAY_MS);
+
+const MONTH_PREFIXES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Zero-based month index for a chart label such as "Jan", "Sept" or "December", or -1. */
+export const monthIndex = (name: string): number => MONTH_PREFIXES.indexOf(name.trim().toLowerCase().slice(0, 3));
+
+export const formatMonthKey = (year: number, month: number): string => `${year}-${String(month + 1).padStart(2, '0')}`;
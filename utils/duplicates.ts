@@ -0,0 +1,57 @@
+import type { BillData } from '../types';
+import { parseBillDate } from './dates';
+import { areSimilarHashes } from './imageHash';
+
+// Detecting the same statement saved twice. A bill is a duplicate of another when both belong
+// to the same account and have the same statement date, or when their first pages have
+// near-identical image hashes and the same total. The total is required for the image match
+// because consecutive bills from one utility share a layout and hash alike at low resolution.
+
+export type DuplicateCandidate = Pick<BillData, 'id' | 'accountId' | 'statementDate' | 'totalCurrentCharges' | 'imageHash'>;
+
+/** Statement dates compare by calendar day, so "10/05/2017" matches "October 5, 2017". */
+export const statementDateKey = (statementDate?: string): string | null => {
+    if (!statementDate || statementDate === 'N/A') return null;
+    const date = parseBillDate(statementDate);
+    return date ? date.toDateString() : statementDate.trim().toLowerCase();
+};
+
+export const isDuplicateBill = (a: DuplicateCandidate, b: DuplicateCandidate): boolean => {
+    if (a.id === b.id) return false;
+    const dateKey = statementDateKey(a.statementDate);
+    if (a.accountId && a.accountId === b.accountId && dateKey && dateKey === statementDateKey(b.statementDate)) {
+        return true;
+    }
+    return !!a.imageHash && !!b.imageHash && a.totalCurrentCharges === b.totalCurrentCharges && areSimilarHashes(a.imageHash, b.imageHash);
+};
+
+/** Ids of every bill that has at least one duplicate among `bills`. */
+export const findDuplicateIds = (bills: DuplicateCandidate[]): Set<string> => {
+    const duplicates = new Set<string>();
+    const addGroups = (keyOf: (bill: DuplicateCandidate) => string | null) => {
+        const groups = new Map<string, DuplicateCandidate[]>();
+        for (const bill of bills) {
+            const key = keyOf(bill);
+            if (key === null) continue;
+            if (!groups.has(key)) groups.set(key, []);
+            groups.get(key)!.push(bill);
+        }
+        for (const group of groups.values()) {
+            for (let i = 0; i < group.length; i++) {
+                for (let j = i + 1; j < group.length; j++) {
+                    if (isDuplicateBill(group[i], group[j])) {
+                        duplicates.add(group[i].id);
+                        duplicates.add(group[j].id);
+                    }
+                }
+            }
+        }
+    };
+    // Grouping first keeps the pairwise comparison to bills that could possibly match.
+    addGroups(bill => {
+        const dateKey = statementDateKey(bill.statementDate);
+        return bill.accountId && dateKey ? `${bill.accountId}|${dateKey}` : null;
+    });
+    addGroups(bill => bill.imageHash ? String(bill.totalCurrentCharges) : null);
+    return duplicates;
+};
@@ -0,0 +1,227 @@
+import type { AgreementLevel, BillData, EnsembleSummary, FieldAgreement, LineItem, PromptVersionRef, UsageChartData, VerificationQuestion } from '../types';
+import { normalizeAccountNumber } from './accounts';
+import { parseBillDate, monthIndex } from './dates';
+import { normalizeUnit } from './units';
+
+// Merging the results of several extraction runs (an "ensemble") by voting per field. Values
+// are compared loosely where formatting differs between models (dates, account numbers, text
+// case); amounts must match to the cent and chart readings within a small tolerance. Every
+// field where the members gave different values becomes a verification question.
+
+type ExtractedBill = Omit<BillData, 'id' | 'analyzedAt'>;
+
+export interface EnsembleMemberResult {
+    label: string; // Unique per run; shown in agreement details and questions.
+    data: ExtractedBill;
+}
+
+interface Vote<T> {
+    member: string;
+    value: T;
+    weight: number; // The member's own confidence; breaks ties between equally large groups.
+}
+
+// Chart values read off pixels by different engines never match exactly.
+const CHART_RELATIVE_TOLERANCE = 0.02;
+const CHART_ABSOLUTE_TOLERANCE = 0.5;
+
+const normalizeText = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const sameDate = (a: string, b: string) => {
+    const dateA = parseBillDate(a);
+    const dateB = parseBillDate(b);
+    return dateA && dateB ? dateA.toDateString() === dateB.toDateString() : normalizeText(a) === normalizeText(b);
+};
+
+const sameAmount = (a: number, b: number) => Math.round(a * 100) === Math.round(b * 100);
+
+const sameChartValue = (a: number, b: number) =>
+    Math.abs(a - b) <= Math.max(CHART_ABSOLUTE_TOLERANCE, CHART_RELATIVE_TOLERANCE * Math.max(Math.abs(a), Math.abs(b)));
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+const levelOf = (agreeing: number, total: number): AgreementLevel => {
+    if (total <= 1) return 'single';
+    if (agreeing === total) return 'unanimous';
+    return agreeing * 2 > total ? 'majority' : 'split';
+};
+
+/**
+ * Groups equal values and picks the largest group; ties go to the group with more member
+ * confidence, then to the earliest vote. Returns null when nobody voted.
+ */
+const vote = <T>(votes: Vote<T>[], same: (a: T, b: T) => boolean, display: (value: T) => string): { value: T; agreement: FieldAgreement } | null => {
+    if (votes.length === 0) return null;
+    const groups: Vote<T>[][] = [];
+    for (const v of votes) {
+        const group = groups.find(g => same(g[0].value, v.value));
+        if (group) group.push(v);
+        else groups.push([v]);
+    }
+    const weightOf = (group: Vote<T>[]) => group.reduce((sum, v) => sum + v.weight, 0);
+    const winner = groups.reduce((best, group) =>
+        group.length > best.length || (group.length === best.length && weightOf(group) > weightOf(best)) ? group : best);
+
+    const agreement: FieldAgreement = { level: levelOf(winner.length, votes.length), agreeing: winner.length, total: votes.length };
+    if (groups.length > 1) {
+        agreement.alternatives = groups.map(group => ({ value: display(group[0].value), members: group.map(v => v.member) }));
+    }
+    return { value: winner[0].value, agreement };
+};
+
+const describeDisagreement = (label: string, agreement: FieldAgreement): string =>
+    `The extraction runs disagree on ${label}: ${agreement.alternatives!.map(a => `"${a.value}" (${a.members.join(', ')})`).join(' vs ')}. Which is correct?`;
+
+type ScalarKey = 'accountName' | 'accountNumber' | 'serviceAddress' | 'statementDate' | 'servicePeriodStart' | 'servicePeriodEnd' | 'dueDate';
+
+const TEXT_FIELDS: { key: ScalarKey; label: string; same: (a: string, b: string) => boolean }[] = [
+    { key: 'accountName', label: 'the account name', same: (a, b) => normalizeText(a) === normalizeText(b) },
+    { key: 'accountNumber', label: 'the account number', same: (a, b) => normalizeAccountNumber(a) === normalizeAccountNumber(b) },
+    { key: 'serviceAddress', label: 'the service address', same: (a, b) => normalizeText(a) === normalizeText(b) },
+    { key: 'statementDate', label: 'the statement date', same: sameDate },
+    { key: 'servicePeriodStart', label: 'the start of the service period', same: sameDate },
+    { key: 'servicePeriodEnd', label: 'the end of the service period', same: sameDate },
+    { key: 'dueDate', label: 'the due date', same: sameDate },
+];
+
+const isPresent = (value?: string): value is string => !!value && value.trim() !== '' && value.trim().toUpperCase() !== 'N/A';
+
+/** Keys line items by description, numbering repeats (e.g. two "Sales Tax" lines) apart. */
+const keyLineItems = (items: LineItem[]): Map<string, LineItem> => {
+    const keyed = new Map<string, LineItem>();
+    for (const item of items) {
+        const base = normalizeText(item.description);
+        let key = base;
+        for (let n = 2; keyed.has(key); n++) key = `${base}#${n}`;
+        keyed.set(key, item);
+    }
+    return keyed;
+};
+
+/** Finds the chart in `candidates` that shows the same series as `chart`: same unit first, then same position. */
+const matchChart = (chart: UsageChartData, index: number, candidates: UsageChartData[], used: Set<number>): UsageChartData | undefined => {
+    const byUnit = candidates.findIndex((c, i) => !used.has(i) && normalizeUnit(c.unit) === normalizeUnit(chart.unit));
+    const matched = byUnit >= 0 ? byUnit : (index < candidates.length && !used.has(index) ? index : -1);
+    if (matched < 0) return undefined;
+    used.add(matched);
+    return candidates[matched];
+};
+
+const findUsageValue = (chart: UsageChartData, month: string, year: string): number | undefined => {
+    const point = chart.data.find(p => monthIndex(p.month) === monthIndex(month) && monthIndex(month) >= 0);
+    return point?.usage.find(u => u.year === year)?.value;
+};
+
+/**
+ * Merges several extraction results of the same bill. Members are given in priority order;
+ * the first wins a tie between equally supported values with equal confidence.
+ */
+export const mergeEnsembleResults = (results: EnsembleMemberResult[]): ExtractedBill & { ensemble: EnsembleSummary } => {
+    if (results.length === 0) throw new Error('No results to merge.');
+    const agreement: Record<string, FieldAgreement> = {};
+    const questions: VerificationQuestion[] = [];
+    const record = (path: string, label: string, fieldAgreement: FieldAgreement) => {
+        agreement[path] = fieldAgreement;
+        if (fieldAgreement.alternatives) questions.push({ field: path, question: describeDisagreement(label, fieldAgreement) });
+    };
+    const weightOf = (result: EnsembleMemberResult) => result.data.confidenceScore ?? 0;
+    const byConfidence = [...results].sort((a, b) => weightOf(b) - weightOf(a));
+
+    const merged: Partial<ExtractedBill> = {};
+
+    // --- Text and date fields ---
+    for (const field of TEXT_FIELDS) {
+        const votes = results
+            .filter(r => isPresent(r.data[field.key]))
+            .map(r => ({ member: r.label, value: r.data[field.key]!.trim(), weight: weightOf(r) }));
+        const result = vote(votes, field.same, value => value);
+        if (!result) continue;
+        merged[field.key] = result.value;
+        record(field.key, field.label, result.agreement);
+    }
+    merged.accountNumber = merged.accountNumber ?? 'N/A';
+
+    const totalVotes = results
+        .filter(r => Number.isFinite(r.data.totalCurrentCharges))
+        .map(r => ({ member: r.label, value: r.data.totalCurrentCharges, weight: weightOf(r) }));
+    const total = vote(totalVotes, sameAmount, formatAmount);
+    merged.totalCurrentCharges = total?.value ?? 0;
+    if (total) record('totalCurrentCharges', 'the total current charges', total.agreement);
+
+    // --- Line items: an item is kept when at least half of the members that listed items have it ---
+    const itemMembers = results.filter(r => r.data.lineItems.length > 0).map(r => ({ result: r, items: keyLineItems(r.data.lineItems) }));
+    const itemOrder: string[] = [];
+    for (const { items } of [...itemMembers].sort((a, b) => weightOf(b.result) - weightOf(a.result))) {
+        for (const key of items.keys()) if (!itemOrder.includes(key)) itemOrder.push(key);
+    }
+    merged.lineItems = [];
+    for (const key of itemOrder) {
+        const listing = itemMembers.filter(m => m.items.has(key));
+        const description = listing[0].items.get(key)!.description;
+        if (listing.length * 2 < itemMembers.length) {
+            const amounts = listing.map(m => `${formatAmount(m.items.get(key)!.amount)} from ${m.result.label}`).join(', ');
+            questions.push({ field: 'lineItems', question: `Only some extraction runs found the charge "${description}" (${amounts}). Is it on the bill?` });
+            continue;
+        }
+        const index = merged.lineItems.length;
+        const amount = vote(listing.map(m => ({ member: m.result.label, value: m.items.get(key)!.amount, weight: weightOf(m.result) })), sameAmount, formatAmount)!;
+        merged.lineItems.push({ description, amount: amount.value });
+        agreement[`lineItems.${index}.description`] = { level: levelOf(listing.length, itemMembers.length), agreeing: listing.length, total: itemMembers.length };
+        record(`lineItems.${index}.amount`, `the amount of "${description}"`, amount.agreement);
+    }
+
+    // --- Usage charts: the member with the most charts sets the layout, the others vote on each value ---
+    const chartMembers = byConfidence.filter(r => r.data.usageCharts.length > 0);
+    const base = chartMembers.reduce<EnsembleMemberResult | undefined>((best, r) => !best || r.data.usageCharts.length > best.data.usageCharts.length ? r : best, undefined);
+    merged.usageCharts = [];
+    if (base) {
+        const others = chartMembers.filter(r => r !== base).map(r => ({ result: r, used: new Set<number>() }));
+        base.data.usageCharts.forEach((chart, chartIndex) => {
+            const matches = others.map(o => ({ result: o.result, chart: matchChart(chart, chartIndex, o.result.data.usageCharts, o.used) }));
+            const data = chart.data.map((point, monthIdx) => ({
+                ...point,
+                usage: point.usage.map((usage, usageIdx) => {
+                    const votes: Vote<number>[] = [{ member: base.label, value: usage.value, weight: weightOf(base) }];
+                    for (const match of matches) {
+                        const value = match.chart && findUsageValue(match.chart, point.month, usage.year);
+                        if (value !== undefined && Number.isFinite(value)) votes.push({ member: match.result.label, value, weight: weightOf(match.result) });
+                    }
+                    const result = vote(votes, sameChartValue, value => String(value))!;
+                    record(`usageCharts.${chartIndex}.data.${monthIdx}.usage.${usageIdx}.value`, `${chart.title} for ${point.month} ${usage.year}`, result.agreement);
+                    return { ...usage, value: result.value };
+                }),
+            }));
+            merged.usageCharts!.push({ ...chart, data });
+        });
+    }
+
+    // --- Confidence and questions ---
+    const compared = Object.values(agreement).filter(a => a.total >= 2);
+    const unanimous = compared.filter(a => a.level === 'unanimous').length;
+    const conflicting = compared.filter(a => a.alternatives).length;
+    const meanConfidence = results.reduce((sum, r) => sum + weightOf(r), 0) / results.length;
+    const agreementShare = compared.length > 0 ? unanimous / compared.length : 1;
+    merged.confidenceScore = Math.round(meanConfidence * (0.5 + 0.5 * agreementShare) * 100) / 100;
+    merged.confidenceReasoning = [
+        `Merged from ${results.length} extraction runs (${results.map(r => r.label).join(', ')}) by voting per field.`,
+        `${unanimous} of ${compared.length} compared values were unanimous.`,
+        conflicting > 0 ? `${conflicting} had conflicting values and are listed for review.` : '',
+    ].filter(Boolean).join(' ');
+
+    // The members' own questions refer to their own line item and chart positions, so only
+    // questions about top-level fields carry over.
+    for (const { data } of byConfidence) {
+        for (const question of data.verificationQuestions ?? []) {
+            if (!question.field.includes('.') && !questions.some(q => q.field === question.field)) questions.push(question);
+        }
+    }
+    merged.verificationQuestions = questions;
+
+    // --- Prompts: each run's is kept; the result only names one when every run used it ---
+    const promptVersions: Record<string, PromptVersionRef> = {};
+    for (const { label, data } of results) if (data.promptVersion) promptVersions[label] = data.promptVersion;
+    const [first, ...rest] = results.map(r => r.data.promptVersion);
+    if (first && rest.every(p => p?.id === first.id && p.version === first.version)) merged.promptVersion = first;
+
+    return { ...(merged as ExtractedBill), ensemble: { members: results.map(r => r.label), promptVersions, agreement } };
+};
@@ -0,0 +1,110 @@
+import type { BillData, BoundingBox, FieldSource, OcrWord } from '../types';
+
+// Maps extracted values back to the OCR words they came from, so the UI can highlight them on
+// the source image. Works for every provider because it only looks at the final values.
+
+type LocatableBill = Pick<BillData, 'accountName' | 'accountNumber' | 'serviceAddress' | 'statementDate' | 'servicePeriodStart' | 'servicePeriodEnd' | 'dueDate' | 'totalCurrentCharges' | 'lineItems'>;
+
+interface WordMatch {
+    page: number;
+    start: number; // Index of the first matched word on the page.
+    end: number;   // Index of the last matched word (inclusive).
+    bbox: BoundingBox;
+}
+
+const TEXT_FIELDS = ['accountNumber', 'accountName', 'serviceAddress', 'statementDate', 'servicePeriodStart', 'servicePeriodEnd', 'dueDate'] as const;
+const TOTAL_CONTEXT = /total|due|amount|balance|new\s*charges/i;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const unionBoxes = (boxes: BoundingBox[]): BoundingBox => ({
+    x0: Math.min(...boxes.map(b => b.x0)),
+    y0: Math.min(...boxes.map(b => b.y0)),
+    x1: Math.max(...boxes.map(b => b.x1)),
+    y1: Math.max(...boxes.map(b => b.y1)),
+});
+
+const verticalOverlap = (a: BoundingBox, b: BoundingBox) =>
+    Math.max(0, Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0)) / Math.max(1, Math.min(a.y1 - a.y0, b.y1 - b.y0));
+
+/**
+ * Finds runs of consecutive words whose normalized text, joined together, equals the value.
+ * Joining sidesteps differences in how OCR and the model split tokens ("1234-5678" vs "1234 - 5678").
+ */
+const findTextMatches = (value: string, wordsPerPage: OcrWord[][]): WordMatch[] => {
+    const target = normalize(value);
+    if (target.length < 2) return [];
+    const matches: WordMatch[] = [];
+
+    wordsPerPage.forEach((words, page) => {
+        for (let start = 0; start < words.length; start++) {
+            const first = normalize(words[start].text);
+            if (!first || !target.startsWith(first)) continue;
+            let joined = '';
+            for (let end = start; end < words.length && joined.length < target.length; end++) {
+                joined += normalize(words[end].text);
+                if (joined === target) {
+                    matches.push({ page, start, end, bbox: unionBoxes(words.slice(start, end + 1).map(w => w.bbox)) });
+                    break;
+                }
+                if (!target.startsWith(joined)) break;
+            }
+        }
+    });
+    return matches;
+};
+
+const parseWordAmount = (text: string): number | undefined => {
+    if (!/\d\.\d{2}\b/.test(text)) return undefined;
+    const value = parseFloat(text.replace(/[^0-9.]/g, ''));
+    return isNaN(value) ? undefined : value;
+};
+
+const findAmountMatches = (amount: number, wordsPerPage: OcrWord[][]): WordMatch[] => {
+    const target = Math.abs(amount);
+    const matches: WordMatch[] = [];
+    wordsPerPage.forEach((words, page) => {
+        words.forEach((word, index) => {
+            const value = parseWordAmount(word.text);
+            if (value !== undefined && Math.abs(value - target) < 0.005) {
+                matches.push({ page, start: index, end: index, bbox: word.bbox });
+            }
+        });
+    });
+    return matches;
+};
+
+/** Text of the words sharing a line with the match, used to pick the most plausible occurrence. */
+const lineText = (match: WordMatch, wordsPerPage: OcrWord[][]) =>
+    wordsPerPage[match.page].filter(w => verticalOverlap(w.bbox, match.bbox) > 0.5).map(w => w.text).join(' ');
+
+const toSource = (match: WordMatch): FieldSource => ({ page: match.page, bbox: match.bbox });
+
+export const locateFieldSources = (bill: LocatableBill, wordsPerPage: OcrWord[][]): Record<string, FieldSource> => {
+    const sources: Record<string, FieldSource> = {};
+
+    for (const field of TEXT_FIELDS) {
+        const value = bill[field];
+        if (!value || value === 'N/A') continue;
+        const [match] = findTextMatches(value, wordsPerPage);
+        if (match) sources[field] = toSource(match);
+    }
+
+    if (bill.totalCurrentCharges) {
+        const matches = findAmountMatches(bill.totalCurrentCharges, wordsPerPage);
+        const best = matches.find(m => TOTAL_CONTEXT.test(lineText(m, wordsPerPage))) ?? matches[0];
+        if (best) sources.totalCurrentCharges = toSource(best);
+    }
+
+    bill.lineItems.forEach((item, index) => {
+        const [description] = findTextMatches(item.description, wordsPerPage);
+        if (description) sources[`lineItems.${index}.description`] = toSource(description);
+
+        const amounts = findAmountMatches(item.amount, wordsPerPage);
+        // Prefer the amount printed on the same line as the description.
+        const amount = (description && amounts.find(m => m.page === description.page && verticalOverlap(m.bbox, description.bbox) > 0.5)) || amounts[0];
+        if (amount) sources[`lineItems.${index}.amount`] = toSource(amount);
+    });
+
+    return sources;
+};
@@ -0,0 +1,31 @@
+import type { LogEntry } from '../types';
+import { isPdfFile, pdfToImages } from './pdf';
+
+type AddLogFn = (level: LogEntry['level'], message: string, payload?: any) => void;
+
+const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export const isSupportedBillFile = (file: File): boolean =>
+    SUPPORTED_IMAGE_TYPES.includes(file.type) || isPdfFile(file);
+
+export const fileToDataUrl = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+        reader.readAsDataURL(file);
+    });
+};
+
+/**
+ * Reads an uploaded bill into an ordered list of page images. Images become a single page,
+ * PDFs are rendered page by page.
+ */
+export const readBillFile = async (file: File, addLog: AddLogFn): Promise<string[]> => {
+    if (isPdfFile(file)) {
+        const pages = await pdfToImages(file, addLog);
+        if (pages.length === 0) throw new Error("The PDF has no pages.");
+        return pages;
+    }
+    return [await fileToDataUrl(file)];
+};
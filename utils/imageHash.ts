@@ -0,0 +1,60 @@
+// Perceptual "difference hash" of a bill image. Re-uploads or re-scans of the same page give
+// hashes a few bits apart, while exact byte comparison would fail after any re-encode or resize.
+
+const HASH_WIDTH = 16;
+const HASH_HEIGHT = 16;
+
+/** Hashes that differ in at most this many of their 256 bits are treated as the same image. */
+export const SIMILAR_HASH_MAX_DISTANCE = 12;
+
+/**
+ * Computes a 256-bit dHash of an image as 64 hex characters: the image is shrunk to 17x16
+ * grayscale pixels and each bit records whether a pixel is brighter than its right neighbour.
+ */
+export const computeImageHash = async (imageB64: string): Promise<string> => {
+    const img = new Image();
+    await new Promise((resolve, reject) => {
+        img.onload = resolve;
+        img.onerror = () => reject(new Error('Could not load the image to hash.'));
+        img.src = imageB64;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH + 1;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not get canvas context.");
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    const brightness = (x: number, y: number) => {
+        const i = (y * canvas.width + x) * 4;
+        return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    };
+
+    let hex = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+        for (let x = 0; x < HASH_WIDTH; x += 4) {
+            let nibble = 0;
+            for (let bit = 0; bit < 4; bit++) {
+                nibble = (nibble << 1) | (brightness(x + bit, y) > brightness(x + bit + 1, y) ? 1 : 0);
+            }
+            hex += nibble.toString(16);
+        }
+    }
+    return hex;
+};
+
+const popCount = (nibble: number): number => (nibble & 1) + ((nibble >> 1) & 1) + ((nibble >> 2) & 1) + ((nibble >> 3) & 1);
+
+/** Number of differing bits between two hashes of the same length. */
+export const hashDistance = (a: string, b: string): number => {
+    if (a.length !== b.length) return Infinity;
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+        distance += popCount(parseInt(a[i], 16) ^ parseInt(b[i], 16));
+    }
+    return distance;
+};
+
+export const areSimilarHashes = (a: string, b: string): boolean => hashDistance(a, b) <= SIMILAR_HASH_MAX_DISTANCE;
@@ -0,0 +1,412 @@
+// Canvas-based clean-up of bill photos before OCR, chart scanning and the AI see them: find the
+// page in the photo and undo the perspective, straighten the text lines, then even out shadows.
+// The pixel steps work on plain RGBA buffers; only loading and encoding touch the DOM.
+
+export interface PreprocessOptions {
+    perspective: boolean; // Detect the page edges and flatten it to a rectangle.
+    deskew: boolean; // Rotate so text lines are horizontal.
+    denoise: boolean; // 3x3 median filter against sensor noise and JPEG speckle.
+    contrast: boolean; // Stretch the darkest and brightest 1% to black and white, keeping colour.
+    threshold: boolean; // Adaptive black/white threshold; removes shadows but also colour.
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+    perspective: true,
+    deskew: true,
+    denoise: false,
+    contrast: true,
+    threshold: false,
+};
+
+export interface Raster {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray; // RGBA, row-major.
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface PreprocessResult {
+    image: string; // Data URL of the processed page.
+    applied: string[]; // Human-readable list of the steps that changed the image.
+    corners: Point[] | null; // Page corners found in the original (TL, TR, BR, BL).
+    skewAngle: number | null; // Degrees the text was tilted clockwise before straightening.
+}
+
+// Processing a 12 MP photo at full size is slow and gains nothing for OCR at this size.
+const MAX_DIMENSION = 2400;
+const DETECTION_SIZE = 400;
+const DESKEW_SIZE = 800;
+const MAX_SKEW_DEGREES = 5;
+const SKEW_STEP_DEGREES = 0.2;
+// A "page" covering almost the whole frame is an already-cropped scan; one covering little of it
+// is more likely a bright object on the desk than the bill.
+const MIN_PAGE_AREA = 0.2;
+const MAX_PAGE_AREA = 0.95;
+const THRESHOLD_SENSITIVITY = 0.15;
+
+// --- Pixel Helpers ---
+
+const createRaster = (width: number, height: number): Raster => ({
+    width,
+    height,
+    data: new Uint8ClampedArray(width * height * 4).fill(255),
+});
+
+export const luminance = (image: Raster): Uint8ClampedArray => {
+    const lum = new Uint8ClampedArray(image.width * image.height);
+    for (let i = 0; i < lum.length; i++) {
+        lum[i] = 0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2];
+    }
+    return lum;
+};
+
+const fromLuminance = (lum: Uint8ClampedArray, width: number, height: number): Raster => {
+    const image = createRaster(width, height);
+    for (let i = 0; i < lum.length; i++) {
+        image.data[i * 4] = image.data[i * 4 + 1] = image.data[i * 4 + 2] = lum[i];
+    }
+    return image;
+};
+
+/** Samples a pixel with bilinear interpolation; outside the image is white paper. */
+const sample = (image: Raster, x: number, y: number, out: Uint8ClampedArray, offset: number) => {
+    if (x < 0 || y < 0 || x > image.width - 1 || y > image.height - 1) {
+        out[offset] = out[offset + 1] = out[offset + 2] = out[offset + 3] = 255;
+        return;
+    }
+    const x0 = Math.floor(x), y0 = Math.floor(y);
+    const x1 = Math.min(x0 + 1, image.width - 1), y1 = Math.min(y0 + 1, image.height - 1);
+    const fx = x - x0, fy = y - y0;
+    for (let c = 0; c < 4; c++) {
+        const top = image.data[(y0 * image.width + x0) * 4 + c] * (1 - fx) + image.data[(y0 * image.width + x1) * 4 + c] * fx;
+        const bottom = image.data[(y1 * image.width + x0) * 4 + c] * (1 - fx) + image.data[(y1 * image.width + x1) * 4 + c] * fx;
+        out[offset + c] = top * (1 - fy) + bottom * fy;
+    }
+};
+
+/** Nearest-neighbour downscale of the luminance, used where only rough shapes matter. */
+const downscaleLuminance = (image: Raster, maxSize: number) => {
+    const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+    const width = Math.max(1, Math.round(image.width * scale));
+    const height = Math.max(1, Math.round(image.height * scale));
+    const lum = luminance(image);
+    const small = new Uint8ClampedArray(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            small[y * width + x] = lum[Math.min(image.height - 1, Math.floor(y / scale)) * image.width + Math.min(image.width - 1, Math.floor(x / scale))];
+        }
+    }
+    return { lum: small, width, height, scale };
+};
+
+/** Otsu's method: the threshold that best separates the histogram into two classes. */
+export const otsuThreshold = (lum: Uint8ClampedArray): number => {
+    const histogram = new Array(256).fill(0);
+    for (const value of lum) histogram[value]++;
+    const total = lum.length;
+    const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+    let sumBackground = 0, weightBackground = 0, best = 0, threshold = 127;
+    for (let t = 0; t < 256; t++) {
+        weightBackground += histogram[t];
+        if (weightBackground === 0) continue;
+        const weightForeground = total - weightBackground;
+        if (weightForeground === 0) break;
+        sumBackground += t * histogram[t];
+        const meanBackground = sumBackground / weightBackground;
+        const meanForeground = (sumAll - sumBackground) / weightForeground;
+        const between = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+        if (between > best) {
+            best = between;
+            threshold = t;
+        }
+    }
+    return threshold;
+};
+
+// --- Page Detection & Perspective ---
+
+/**
+ * Finds the four corners of the page as the extreme points of the largest bright region,
+ * which works for a light bill on a darker background. Returns null when no page stands out.
+ */
+export const findDocumentCorners = (image: Raster): Point[] | null => {
+    const { lum, width, height, scale } = downscaleLuminance(image, DETECTION_SIZE);
+    const threshold = otsuThreshold(lum);
+    const visited = new Uint8Array(width * height);
+    let largest: number[] = [];
+
+    for (let start = 0; start < lum.length; start++) {
+        if (visited[start] || lum[start] <= threshold) continue;
+        const region: number[] = [];
+        const stack = [start];
+        visited[start] = 1;
+        while (stack.length > 0) {
+            const index = stack.pop()!;
+            region.push(index);
+            const x = index % width, y = (index - x) / width;
+            const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, y > 0 ? index - width : -1, y < height - 1 ? index + width : -1];
+            for (const n of neighbours) {
+                if (n >= 0 && !visited[n] && lum[n] > threshold) {
+                    visited[n] = 1;
+                    stack.push(n);
+                }
+            }
+        }
+        if (region.length > largest.length) largest = region;
+    }
+
+    const areaRatio = largest.length / (width * height);
+    if (areaRatio < MIN_PAGE_AREA || areaRatio > MAX_PAGE_AREA) return null;
+
+    // The corners are where x + y and x - y reach their extremes.
+    const points = largest.map(index => ({ x: index % width, y: Math.floor(index / width) }));
+    let tl = points[0], tr = points[0], br = points[0], bl = points[0];
+    for (const p of points) {
+        if (p.x + p.y < tl.x + tl.y) tl = p;
+        if (p.x + p.y > br.x + br.y) br = p;
+        if (p.x - p.y > tr.x - tr.y) tr = p;
+        if (p.x - p.y < bl.x - bl.y) bl = p;
+    }
+    return [tl, tr, br, bl].map(({ x, y }) => ({ x: (x + 0.5) / scale, y: (y + 0.5) / scale }));
+};
+
+/** Solves the 8x8 system for the homography mapping `from[i]` to `to[i]`. */
+const solveHomography = (from: Point[], to: Point[]): number[] => {
+    const rows: number[][] = [];
+    for (let i = 0; i < 4; i++) {
+        const { x, y } = from[i];
+        const { x: u, y: v } = to[i];
+        rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+        rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+    }
+    // Gaussian elimination with partial pivoting.
+    for (let col = 0; col < 8; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < 8; r++) if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+        [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+        if (Math.abs(rows[col][col]) < 1e-12) throw new Error('The page corners do not form a quadrilateral.');
+        for (let r = 0; r < 8; r++) {
+            if (r === col) continue;
+            const factor = rows[r][col] / rows[col][col];
+            for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+        }
+    }
+    return [...rows.map((row, i) => row[8] / row[i]), 1];
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Flattens the quadrilateral `corners` (TL, TR, BR, BL) into an upright rectangle. */
+export const warpPerspective = (image: Raster, corners: Point[]): Raster => {
+    const [tl, tr, br, bl] = corners;
+    const width = Math.round(Math.max(distance(tl, tr), distance(bl, br)));
+    const height = Math.round(Math.max(distance(tl, bl), distance(tr, br)));
+    // Map output pixels back into the source so every output pixel gets a value.
+    const h = solveHomography([{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }], corners);
+    const out = createRaster(width, height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const w = h[6] * x + h[7] * y + h[8];
+            sample(image, (h[0] * x + h[1] * y + h[2]) / w, (h[3] * x + h[4] * y + h[5]) / w, out.data, (y * width + x) * 4);
+        }
+    }
+    return out;
+};
+
+// --- Deskew ---
+
+/**
+ * Estimates the clockwise tilt of the text in degrees with a projection profile: when the page is rotated so that text
+ * lines are horizontal, the row sums of dark pixels are at their most uneven.
+ */
+export const estimateSkewAngle = (image: Raster): number => {
+    const { lum, width, height } = downscaleLuminance(image, DESKEW_SIZE);
+    const threshold = otsuThreshold(lum);
+    const dark: number[] = [];
+    for (let i = 0; i < lum.length; i++) if (lum[i] <= threshold) dark.push(i);
+    if (dark.length === 0) return 0;
+
+    const diagonal = Math.ceil(Math.hypot(width, height));
+    let bestAngle = 0, bestScore = -1;
+    for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES + 1e-9; angle += SKEW_STEP_DEGREES) {
+        const radians = angle * Math.PI / 180;
+        const sin = Math.sin(radians), cos = Math.cos(radians);
+        const bins = new Int32Array(diagonal * 2);
+        for (const index of dark) {
+            const x = index % width, y = (index - x) / width;
+            bins[Math.round(y * cos - x * sin) + diagonal]++;
+        }
+        let score = 0;
+        for (const count of bins) score += count * count;
+        if (score > bestScore) {
+            bestScore = score;
+            bestAngle = angle;
+        }
+    }
+    return Math.round(bestAngle * 10) / 10;
+};
+
+/** Rotates the image by `degrees` (clockwise) about its centre, filling the corners with white. */
+export const rotate = (image: Raster, degrees: number): Raster => {
+    const radians = degrees * Math.PI / 180;
+    const sin = Math.sin(radians), cos = Math.cos(radians);
+    const cx = image.width / 2, cy = image.height / 2;
+    const out = createRaster(image.width, image.height);
+    for (let y = 0; y < image.height; y++) {
+        for (let x = 0; x < image.width; x++) {
+            const dx = x - cx, dy = y - cy;
+            sample(image, cx + dx * cos + dy * sin, cy - dx * sin + dy * cos, out.data, (y * image.width + x) * 4);
+        }
+    }
+    return out;
+};
+
+// --- Tone ---
+
+export const medianFilter = (image: Raster): Raster => {
+    const { width, height } = image;
+    const lum = luminance(image);
+    const out = new Uint8ClampedArray(lum.length);
+    const window: number[] = [];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            window.length = 0;
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const sx = Math.min(width - 1, Math.max(0, x + dx)), sy = Math.min(height - 1, Math.max(0, y + dy));
+                    window.push(lum[sy * width + sx]);
+                }
+            }
+            window.sort((a, b) => a - b);
+            out[y * width + x] = window[4];
+        }
+    }
+    return fromLuminance(out, width, height);
+};
+
+export const stretchContrast = (image: Raster): Raster => {
+    const lum = luminance(image);
+    const histogram = new Array(256).fill(0);
+    for (const value of lum) histogram[value]++;
+    const clip = lum.length * 0.01;
+    let low = 0, high = 255, count = 0;
+    while (low < 255 && (count += histogram[low]) < clip) low++;
+    count = 0;
+    while (high > 0 && (count += histogram[high]) < clip) high--;
+    if (high <= low) return image;
+    // The same levels apply to every channel, so colours keep their hue and chart series stay apart.
+    const out = createRaster(image.width, image.height);
+    for (let i = 0; i < image.data.length; i += 4) {
+        for (let c = 0; c < 3; c++) out.data[i + c] = (image.data[i + c] - low) * 255 / (high - low);
+    }
+    return out;
+};
+
+/**
+ * Bradley's adaptive threshold: a pixel is ink when it is clearly darker than the average of
+ * its neighbourhood, so a shadow across the page does not turn everything under it black.
+ * The window is large so that solid chart bars stay filled rather than turning into outlines.
+ */
+export const adaptiveThreshold = (image: Raster): Raster => {
+    const { width, height } = image;
+    const lum = luminance(image);
+    const integral = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        for (let x = 0; x < width; x++) {
+            rowSum += lum[y * width + x];
+            integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+        }
+    }
+    const half = Math.max(8, Math.round(Math.max(width, height) / 16));
+    const out = new Uint8ClampedArray(lum.length);
+    for (let y = 0; y < height; y++) {
+        const y0 = Math.max(0, y - half), y1 = Math.min(height, y + half + 1);
+        for (let x = 0; x < width; x++) {
+            const x0 = Math.max(0, x - half), x1 = Math.min(width, x + half + 1);
+            const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1] - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+            const area = (x1 - x0) * (y1 - y0);
+            out[y * width + x] = lum[y * width + x] * area <= sum * (1 - THRESHOLD_SENSITIVITY) ? 0 : 255;
+        }
+    }
+    return fromLuminance(out, width, height);
+};
+
+// --- Pipeline ---
+
+/** Runs the enabled steps in order. Geometry comes first so the tone steps see a flat page. */
+export const preprocessRaster = (input: Raster, options: PreprocessOptions): Omit<PreprocessResult, 'image'> & { raster: Raster } => {
+    let raster = input;
+    const applied: string[] = [];
+    let corners: Point[] | null = null;
+    let skewAngle: number | null = null;
+
+    if (options.perspective) {
+        corners = findDocumentCorners(raster);
+        if (corners) {
+            raster = warpPerspective(raster, corners);
+            applied.push('cropped to the page and corrected perspective');
+        }
+    }
+    if (options.deskew) {
+        const angle = estimateSkewAngle(raster);
+        if (Math.abs(angle) >= SKEW_STEP_DEGREES) {
+            raster = rotate(raster, -angle);
+            skewAngle = angle;
+            applied.push(`straightened by ${angle.toFixed(1)}°`);
+        }
+    }
+    if (options.denoise) {
+        raster = medianFilter(raster);
+        applied.push('removed noise');
+    }
+    if (options.contrast) {
+        raster = stretchContrast(raster);
+        applied.push('stretched contrast');
+    }
+    if (options.threshold) {
+        raster = adaptiveThreshold(raster);
+        applied.push('converted to black and white');
+    }
+    return { raster, applied, corners, skewAngle };
+};
+
+// --- Canvas I/O ---
+
+const loadRaster = async (imageB64: string): Promise<Raster> => {
+    const img = new Image();
+    await new Promise((resolve, reject) => {
+        img.onload = resolve;
+        img.onerror = () => reject(new Error('Could not load the image for preprocessing.'));
+        img.src = imageB64;
+    });
+    const scale = Math.min(1, MAX_DIMENSION / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not get canvas context.");
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    return { data, width, height };
+};
+
+const rasterToDataUrl = (raster: Raster, lossless: boolean): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = raster.width;
+    canvas.height = raster.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context.");
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(raster.data), raster.width, raster.height), 0, 0);
+    // JPEG artefacts around black-and-white glyphs hurt OCR, so thresholded pages stay PNG.
+    return lossless ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', 0.92);
+};
+
+export const preprocessImage = async (imageB64: string, options: PreprocessOptions): Promise<PreprocessResult> => {
+    const { raster, ...result } = preprocessRaster(await loadRaster(imageB64), options);
+    return { ...result, image: rasterToDataUrl(raster, options.threshold) };
+};
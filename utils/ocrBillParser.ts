@@ -0,0 +1,171 @@
+import type { LineItem } from '../types';
+
+// Rule-based extraction of bill fields from raw OCR text. Used by the OCR-only provider,
+// so nothing here may depend on a network service.
+
+export interface ParsedBillText {
+    accountNumber?: string;
+    accountName?: string;
+    serviceAddress?: string;
+    statementDate?: string;
+    dueDate?: string;
+    servicePeriodStart?: string;
+    servicePeriodEnd?: string;
+    totalCurrentCharges?: number;
+    lineItems: LineItem[];
+}
+
+const MONTH_NAMES = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DATE_PATTERN = [
+    `${MONTH_NAMES}\\.?\\s+\\d{1,2},?\\s+\\d{4}`, // October 5, 2017
+    `\\d{1,2}\\s+${MONTH_NAMES}\\.?,?\\s+\\d{4}`, // 5 October 2017
+    `\\d{4}-\\d{1,2}-\\d{1,2}`,                   // 2017-10-05
+    `\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}`,         // 10/05/2017
+].join('|');
+const dateRegex = () => new RegExp(`(?:${DATE_PATTERN})`, 'gi');
+
+// An amount with exactly two decimals, optionally signed, with a currency symbol, or marked as a credit.
+const AMOUNT_PATTERN = '\\(?-?\\s?[$€£]?\\s?-?\\d{1,3}(?:[,\\s]\\d{3})*\\.\\d{2}\\)?(?:\\s?(?:CR|-))?';
+
+const STATEMENT_DATE_LABELS = /(statement|bill(ing)?|invoice|issue)\s*date|date\s*(of\s*)?(bill|statement|issue)|date issued/i;
+const DUE_DATE_LABELS = /due\s*date|payment\s*due|due\s*(by|on)|pay\s*by|please\s*pay/i;
+const SERVICE_PERIOD_LABELS = /(service|billing|meter\s*reading)\s*(period|from|dates?)|period\s*(covered|of\s*service)|service\s*days/i;
+const ACCOUNT_NUMBER_LABELS = /(account|acct|customer)\s*(number|no\.?|num|#)?\s*[:#.]?\s*([A-Z0-9][A-Z0-9 -]{3,}[A-Z0-9])/i;
+
+// Ordered from most to least specific; the first label that yields an amount wins.
+const TOTAL_LABELS = [
+    /total\s*current\s*charges/i,
+    /total\s*new\s*charges/i,
+    /new\s*charges/i,
+    /total\s*amount\s*due/i,
+    /amount\s*due/i,
+    /balance\s*due/i,
+    /total\s*due/i,
+    /total\s*charges/i,
+];
+
+// Lines that carry a summary amount rather than an individual charge.
+const NON_LINE_ITEM_LABELS = /total|amount\s*due|balance|due\s*date|pay\s*by|previous\s*bill|last\s*bill|account|statement|invoice|page\s*\d/i;
+const CREDIT_LABELS = /payment|credit|refund|rebate|adjustment/i;
+
+export const parseAmount = (raw: string): number | undefined => {
+    const text = raw.trim();
+    const isCredit = /^\(.*\)$/.test(text) || /(CR|-)$/i.test(text) || /^-|[$€£]\s?-/.test(text);
+    const digits = text.replace(/[^0-9.]/g, '');
+    const value = parseFloat(digits);
+    if (isNaN(value)) return undefined;
+    return isCredit ? -value : value;
+};
+
+const findDates = (line: string): string[] => line.match(dateRegex()) ?? [];
+
+const cleanLine = (line: string): string => line.replace(/[|_]+/g, ' ').replace(/\s{2,}/g, ' ').trim();
+
+/** Finds the first date on a line matching `label`, falling back to the following line. */
+const findLabelledDate = (lines: string[], label: RegExp): string | undefined => {
+    for (let i = 0; i < lines.length; i++) {
+        if (!label.test(lines[i])) continue;
+        const afterLabel = lines[i].slice(lines[i].search(label));
+        const dates = findDates(afterLabel);
+        if (dates.length > 0) return dates[0];
+        const nextDates = lines[i + 1] ? findDates(lines[i + 1]) : [];
+        if (nextDates.length > 0) return nextDates[0];
+    }
+    return undefined;
+};
+
+const findServicePeriod = (lines: string[]): { start?: string; end?: string } => {
+    const rangeRegex = new RegExp(`(${DATE_PATTERN})\\s*(?:to|through|thru|-|–|—)\\s*(${DATE_PATTERN})`, 'i');
+    const labelled = lines.filter(line => SERVICE_PERIOD_LABELS.test(line));
+    for (const line of [...labelled, ...lines]) {
+        const match = line.match(rangeRegex);
+        if (match) return { start: match[1], end: match[2] };
+    }
+    for (const line of labelled) {
+        const dates = findDates(line);
+        if (dates.length >= 2) return { start: dates[0], end: dates[1] };
+    }
+    return {};
+};
+
+// The capture can run on into the next label on the same line ("1234-5678-90 Statement Date 10"),
+// so it ends before the first word of three or more letters. Short letter groups ("AB 1234") stay.
+const trimAccountNumber = (raw: string): string => {
+    const words = raw.trim().split(/\s+/);
+    const end = words.findIndex(word => /^[A-Z]{3,}$/i.test(word));
+    return (end < 0 ? words : words.slice(0, end)).join(' ').replace(/[\s-]+$/, '');
+};
+
+const findAccountNumber = (lines: string[]): string | undefined => {
+    for (const line of lines) {
+        const match = line.match(ACCOUNT_NUMBER_LABELS);
+        if (!match) continue;
+        const accountNumber = trimAccountNumber(match[3]);
+        // Require at least a few digits so that "Account Summary" style headings are not picked up.
+        if ((accountNumber.match(/\d/g) ?? []).length >= 4) return accountNumber;
+    }
+    return undefined;
+};
+
+const findLabelledText = (lines: string[], label: RegExp): string | undefined => {
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].match(label);
+        if (!match) continue;
+        const rest = lines[i].slice((match.index ?? 0) + match[0].length).replace(/^[\s:#-]+/, '').trim();
+        if (rest.length > 2) return rest;
+        if (lines[i + 1] && lines[i + 1].length > 2) return lines[i + 1];
+    }
+    return undefined;
+};
+
+const findTotal = (lines: string[]): number | undefined => {
+    const amountRegex = new RegExp(AMOUNT_PATTERN, 'g');
+    for (const label of TOTAL_LABELS) {
+        for (let i = 0; i < lines.length; i++) {
+            if (!label.test(lines[i])) continue;
+            const afterLabel = lines[i].slice(lines[i].search(label));
+            const amounts = afterLabel.match(amountRegex) ?? (lines[i + 1]?.match(amountRegex) ?? []);
+            if (amounts.length > 0) {
+                const value = parseAmount(amounts[amounts.length - 1]);
+                if (value !== undefined) return value;
+            }
+        }
+    }
+    return undefined;
+};
+
+const findLineItems = (lines: string[]): LineItem[] => {
+    const lineItemRegex = new RegExp(`^(.*[A-Za-z].*?)\\s+(${AMOUNT_PATTERN})\\s*$`);
+    const items: LineItem[] = [];
+    for (const line of lines) {
+        const match = line.match(lineItemRegex);
+        if (!match) continue;
+        const description = match[1].replace(/[\s.:$]+$/, '').trim();
+        if (description.length < 3 || NON_LINE_ITEM_LABELS.test(description) || findDates(description).length > 0) continue;
+        let amount = parseAmount(match[2]);
+        if (amount === undefined) continue;
+        // Payments and credits reduce the balance even when OCR drops the minus sign.
+        if (amount > 0 && CREDIT_LABELS.test(description) && !/charge|fee/i.test(description)) {
+            amount = -amount;
+        }
+        items.push({ description, amount });
+    }
+    return items;
+};
+
+export const parseBillText = (ocrText: string): ParsedBillText => {
+    const lines = ocrText.split(/\r?\n/).map(cleanLine).filter(line => line.length > 0);
+    const servicePeriod = findServicePeriod(lines);
+
+    return {
+        accountNumber: findAccountNumber(lines),
+        accountName: findLabelledText(lines, /(account|customer)\s*name\s*:?/i),
+        serviceAddress: findLabelledText(lines, /service\s*(address|location)\s*:?/i),
+        statementDate: findLabelledDate(lines, STATEMENT_DATE_LABELS),
+        dueDate: findLabelledDate(lines, DUE_DATE_LABELS),
+        servicePeriodStart: servicePeriod.start,
+        servicePeriodEnd: servicePeriod.end,
+        totalCurrentCharges: findTotal(lines),
+        lineItems: findLineItems(lines),
+    };
+};
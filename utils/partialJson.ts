@@ -0,0 +1,46 @@
+/**
+ * Reads the members of a JSON object that is still being streamed. Only top-level members whose
+ * value has been written in full are returned, so a half-written line item list never shows up.
+ * Members that do not parse are skipped; the final response is parsed properly once complete.
+ */
+export const parseCompletedFields = (text: string): Record<string, unknown> => {
+    const fields: Record<string, unknown> = {};
+    const start = text.indexOf('{');
+    if (start < 0) return fields;
+
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let memberStart = start + 1;
+
+    const takeMember = (end: number) => {
+        const member = text.slice(memberStart, end).trim();
+        memberStart = end + 1;
+        if (!member) return;
+        try {
+            Object.assign(fields, JSON.parse(`{${member}}`));
+        } catch {
+            // Not valid JSON on its own; leave it for the final parse.
+        }
+    };
+
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '{' || char === '[') depth++;
+        else if (char === '}' || char === ']') {
+            depth--;
+            if (depth === 0) {
+                takeMember(i);
+                break;
+            }
+        } else if (char === ',' && depth === 1) takeMember(i);
+    }
+    return fields;
+};
@@ -0,0 +1,62 @@
+import type { LogEntry } from '../types';
+
+type AddLogFn = (level: LogEntry['level'], message: string, payload?: any) => void;
+
+// Render scale used when rasterising PDF pages. 2x keeps small print legible for Tesseract
+// without producing images that are too large to send to the AI providers.
+const PDF_RENDER_SCALE = 2;
+
+const PDF_WORKER_FILE = 'pdf.worker.min.mjs';
+
+export const isPdfFile = (file: File): boolean =>
+    file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+/**
+ * Renders every page of a PDF to a JPEG data URL, in page order.
+ * pdf.js is loaded on demand so that image-only users never pay for it.
+ */
+export const pdfToImages = async (file: File, addLog: AddLogFn): Promise<string[]> => {
+    addLog('INFO', `Rendering PDF "${file.name}" to images...`);
+    try {
+        const pdfjs = await import('pdfjs-dist');
+        if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+            // Copied next to index.js by the build (see esbuild.config.js).
+            pdfjs.GlobalWorkerOptions.workerSrc = new URL(PDF_WORKER_FILE, document.baseURI).href;
+        }
+
+        const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+        try {
+            addLog('DEBUG', `PDF loaded with ${pdf.numPages} page(s).`);
+
+            const pages: string[] = [];
+            for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+                const page = await pdf.getPage(pageNumber);
+                const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+
+                const canvas = document.createElement('canvas');
+                canvas.width = Math.floor(viewport.width);
+                canvas.height = Math.floor(viewport.height);
+                const ctx = canvas.getContext('2d');
+                if (!ctx) throw new Error("Could not get canvas context.");
+
+                // PDFs frequently have a transparent background; paint it white so JPEG encoding
+                // and the chart pixel scanner both see a normal paper page.
+                ctx.fillStyle = '#ffffff';
+                ctx.fillRect(0, 0, canvas.width, canvas.height);
+                await page.render({ canvasContext: ctx, viewport }).promise;
+
+                pages.push(canvas.toDataURL('image/jpeg', 0.92));
+                page.cleanup();
+                addLog('DEBUG', `Rendered PDF page ${pageNumber}/${pdf.numPages}.`);
+            }
+
+            addLog('INFO', `PDF rendered into ${pages.length} page image(s).`);
+            return pages;
+        } finally {
+            await pdf.destroy();
+        }
+    } catch (error) {
+        addLog('ERROR', 'Failed to render PDF.', error);
+        throw new Error(`Could not read the PDF file. It may be encrypted or corrupted. Details: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
@@ -0,0 +1,32 @@
+import Tesseract from 'tesseract.js';
+import type { OcrEngineOptions } from '../types';
+import { abortable } from './abort';
+
+/**
+ * Recognizes one image on a fresh Tesseract worker. The worker is always shut down, including
+ * when `signal` aborts part-way, which rejects straight away with the signal's reason.
+ */
+export const recognizeImage = async (
+    imageB64: string,
+    ocrOptions: OcrEngineOptions,
+    output: Partial<Tesseract.OutputFormats>,
+    logger: (message: Tesseract.LoggerMessage) => void,
+    signal?: AbortSignal,
+): Promise<Tesseract.Page> => {
+    signal?.throwIfAborted();
+    // Without a handler Tesseract rethrows worker errors outside any promise (fatal in Node), and
+    // when the language data fails to download createWorker never settles, so fail it here.
+    let reportWorkerError: (error: unknown) => void = () => {};
+    const workerError = new Promise<never>((_, reject) => { reportWorkerError = reject; });
+    const creating = Tesseract.createWorker('eng', 1, { ...ocrOptions, logger, errorHandler: error => reportWorkerError(error) });
+    // A worker that finishes loading after a cancellation is shut down as soon as it exists.
+    creating.then(worker => { if (signal?.aborted) void worker.terminate(); }, () => {});
+
+    const worker = await abortable(Promise.race([creating, workerError]), signal);
+    try {
+        const { data } = await abortable(Promise.race([worker.recognize(imageB64, {}, output), workerError]), signal, () => void worker.terminate());
+        return data;
+    } finally {
+        await worker.terminate();
+    }
+};
@@ -0,0 +1,159 @@
+import type { Account, BillData } from '../types';
+import { parseBillDate, monthIndex, formatMonthKey } from './dates';
+import { normalizeUnit } from './units';
+import { normalizeAccountNumber, getAccountLabel } from './accounts';
+
+// Aggregates the bill history into per-account time series for the trend dashboard.
+
+export interface ChargePoint {
+    key: string; // "YYYY-MM" of the statement.
+    date: string; // ISO date used for ordering.
+    billId: string;
+    total: number;
+    momChange: number | null; // Fractional change from the previous statement.
+    yoyChange: number | null; // Fractional change from the statement twelve months earlier.
+}
+
+export interface UsagePoint {
+    key: string; // "YYYY-MM".
+    value: number;
+    yoyChange: number | null;
+}
+
+export interface UnitSeries {
+    unit: string;
+    points: UsagePoint[];
+}
+
+export interface CostPerUnitPoint {
+    key: string;
+    unit: string;
+    costPerUnit: number;
+}
+
+export interface AccountTrend {
+    accountKey: string;
+    accountLabel: string;
+    billCount: number;
+    charges: ChargePoint[];
+    usage: UnitSeries[];
+    costPerUnit: CostPerUnitPoint[];
+}
+
+export const relativeChange = (current: number, previous: number | undefined): number | null =>
+    previous === undefined || previous === 0 ? null : (current - previous) / Math.abs(previous);
+
+export const previousYearKey = (key: string) => `${Number(key.slice(0, 4)) - 1}${key.slice(4)}`;
+
+export const statementDate = (bill: BillData): Date => parseBillDate(bill.statementDate) ?? new Date(bill.analyzedAt);
+
+/** The month a bill's charges are for: the end of its service period, else its statement month. */
+export const billingMonthKey = (bill: BillData): string => {
+    const date = parseBillDate(bill.servicePeriodEnd) ?? statementDate(bill);
+    return formatMonthKey(date.getFullYear(), date.getMonth());
+};
+
+const buildCharges = (bills: BillData[]): ChargePoint[] => {
+    // One point per statement month; a re-analyzed bill replaces the older analysis.
+    const byMonth = new Map<string, { bill: BillData; date: Date }>();
+    for (const bill of bills) {
+        const date = statementDate(bill);
+        const key = formatMonthKey(date.getFullYear(), date.getMonth());
+        const existing = byMonth.get(key);
+        if (!existing || existing.bill.analyzedAt < bill.analyzedAt) byMonth.set(key, { bill, date });
+    }
+    const sorted = [...byMonth.entries()].sort(([a], [b]) => a.localeCompare(b));
+    const totals = new Map(sorted.map(([key, { bill }]) => [key, bill.totalCurrentCharges]));
+    return sorted.map(([key, { bill, date }], index) => ({
+        key,
+        date: date.toISOString(),
+        billId: bill.id,
+        total: bill.totalCurrentCharges,
+        momChange: index > 0 ? relativeChange(bill.totalCurrentCharges, sorted[index - 1][1].bill.totalCurrentCharges) : null,
+        yoyChange: relativeChange(bill.totalCurrentCharges, totals.get(previousYearKey(key))),
+    }));
+};
+
+/**
+ * Stitches the overlapping 12-13 month charts of consecutive bills into one series per unit.
+ * Where bills disagree about a month, the most recent statement wins, since later bills
+ * usually print corrected readings.
+ */
+export const buildUsage = (bills: BillData[]): UnitSeries[] => {
+    const byUnit = new Map<string, Map<string, number>>();
+    const oldestFirst = [...bills].sort((a, b) => statementDate(a).getTime() - statementDate(b).getTime());
+    for (const bill of oldestFirst) {
+        for (const chart of bill.usageCharts) {
+            const unit = normalizeUnit(chart.unit);
+            if (!byUnit.has(unit)) byUnit.set(unit, new Map());
+            const values = byUnit.get(unit)!;
+            for (const point of chart.data) {
+                const month = monthIndex(point.month);
+                if (month === -1) continue;
+                for (const usage of point.usage) {
+                    const year = parseInt(usage.year, 10);
+                    if (isNaN(year) || typeof usage.value !== 'number' || isNaN(usage.value)) continue;
+                    values.set(formatMonthKey(year, month), usage.value);
+                }
+            }
+        }
+    }
+    return [...byUnit.entries()]
+        .filter(([, values]) => values.size > 0)
+        .map(([unit, values]) => ({
+            unit,
+            points: [...values.entries()]
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([key, value]) => ({ key, value, yoyChange: relativeChange(value, values.get(previousYearKey(key))) })),
+        }));
+};
+
+/**
+ * Total charges divided by the usage of the billed month. Only bills with a single unit are
+ * used, since the charges of a combined electricity and gas bill cannot be split by unit.
+ */
+const buildCostPerUnit = (bills: BillData[], usage: UnitSeries[]): CostPerUnitPoint[] => {
+    // One point per unit and month; a re-analyzed bill replaces the older analysis.
+    const byMonth = new Map<string, { bill: BillData; point: CostPerUnitPoint }>();
+    for (const bill of bills) {
+        const units = new Set(bill.usageCharts.map(chart => normalizeUnit(chart.unit)));
+        if (units.size !== 1 || !bill.totalCurrentCharges) continue;
+        const [unit] = units;
+        const key = billingMonthKey(bill);
+        const value = usage.find(series => series.unit === unit)?.points.find(p => p.key === key)?.value;
+        if (!value) continue;
+        const existing = byMonth.get(`${unit}:${key}`);
+        if (!existing || existing.bill.analyzedAt < bill.analyzedAt) {
+            byMonth.set(`${unit}:${key}`, { bill, point: { key, unit, costPerUnit: bill.totalCurrentCharges / value } });
+        }
+    }
+    return [...byMonth.values()].map(({ point }) => point).sort((a, b) => a.key.localeCompare(b.key));
+};
+
+/**
+ * Groups bills by their account. Bills saved before accounts existed fall back to their
+ * normalized account number.
+ */
+export const buildAccountTrends = (bills: BillData[], accounts: Account[] = []): AccountTrend[] => {
+    const groups = new Map<string, BillData[]>();
+    for (const bill of bills) {
+        const key = bill.accountId ?? (normalizeAccountNumber(bill.accountNumber) || 'UNKNOWN');
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(bill);
+    }
+    return [...groups.entries()]
+        .map(([accountKey, accountBills]) => {
+            const usage = buildUsage(accountBills);
+            const account = accounts.find(a => a.id === accountKey);
+            const number = accountKey === 'UNKNOWN' ? 'Unknown account' : accountBills[0].accountNumber;
+            return {
+                accountKey,
+                accountLabel: account ? getAccountLabel(account) : number,
+                billCount: accountBills.length,
+                charges: buildCharges(accountBills),
+                usage,
+                costPerUnit: buildCostPerUnit(accountBills, usage),
+            };
+        })
+        .sort((a, b) => b.billCount - a.billCount);
+};
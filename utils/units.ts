@@ -0,0 +1,35 @@
+// Bills print the same unit in many ways ("KWH", "kW h", "m3", "Therms"). Normalizing lets
+// charts from different bills be compared and combined.
+
+const UNIT_ALIASES: [RegExp, string][] = [
+    [/^kw\s*-?\s*h(rs?)?$/i, 'kWh'],
+    [/^kilowatt\s*-?\s*hours?$/i, 'kWh'],
+    [/^mw\s*-?\s*h$/i, 'MWh'],
+    [/^(kw(\s*demand)?|kilowatts?(\s*demand)?|demand\s*kw)$/i, 'kW'],
+    [/^(m3|m³|cubic\s*met(er|re)s?)$/i, 'm³'],
+    [/^therms?$/i, 'therms'],
+    [/^(ccf|100\s*cu(bic)?\s*(ft|feet))$/i, 'CCF'],
+    [/^hcf$/i, 'HCF'],
+    [/^(cf|ft3|ft³|cu\.?\s*ft|cubic\s*f(ee|oo)t)$/i, 'ft³'],
+    [/^(kgal|1,?000\s*gal(lons?)?)$/i, 'kgal'],
+    [/^gal(lons?)?$/i, 'gallons'],
+    [/^(kl|kilolit(er|re)s?)$/i, 'kL'],
+    [/^gj$/i, 'GJ'],
+    [/^mj$/i, 'MJ'],
+    [/^days?$/i, 'days'],
+    [/^([°º]\s*f|deg(rees)?\s*f|fahrenheit)$/i, '°F'],
+    [/^([°º]\s*c|deg(rees)?\s*c|celsius)$/i, '°C'],
+];
+
+// Charts in these units describe the billing period or the weather, not consumption.
+const CONTEXT_UNITS = ['days', '°F', '°C'];
+
+/** The canonical form of a known unit, or null if `text` is not one. */
+export const matchUnit = (text: string): string | null => {
+    const trimmed = (text || '').trim();
+    return UNIT_ALIASES.find(([pattern]) => pattern.test(trimmed))?.[1] ?? null;
+};
+
+export const normalizeUnit = (unit: string): string => matchUnit(unit) ?? (unit || '').trim();
+
+export const isConsumptionUnit = (unit: string): boolean => !CONTEXT_UNITS.includes(normalizeUnit(unit));
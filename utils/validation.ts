@@ -0,0 +1,140 @@
+import type { BillData, LineItem, ValidationWarning } from '../types';
+import { parseBillDate, daysBetween } from './dates';
+
+// Consistency checks on extracted bill data. These catch values that are individually plausible
+// but contradict each other, which usually means a misread digit or date.
+
+type ValidatableBill = Pick<BillData, 'statementDate' | 'dueDate' | 'servicePeriodStart' | 'servicePeriodEnd' | 'totalCurrentCharges' | 'lineItems' | 'usageCharts' | 'confidenceScore' | 'confidenceReasoning'>;
+
+// How much each finding lowers the confidence score.
+const CONFIDENCE_PENALTY: Record<ValidationWarning['severity'], number> = {
+    error: 0.15,
+    warning: 0.05,
+};
+const SUM_TOLERANCE = 0.02;
+// A statement is normally issued within a few weeks of the end of the period it covers.
+const MAX_DAYS_PERIOD_TO_STATEMENT = 60;
+
+const sumAmounts = (items: LineItem[]) => Math.round(items.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+
+/**
+ * Line items may or may not include payments and credits, so either the full sum or the sum of
+ * the positive charges reconciling with the total is accepted.
+ */
+export const lineItemsReconcile = (lineItems: LineItem[], total: number): boolean => {
+    const all = sumAmounts(lineItems);
+    const charges = sumAmounts(lineItems.filter(item => item.amount > 0));
+    return [all, charges].some(sum => Math.abs(sum - total) < SUM_TOLERANCE);
+};
+
+const checkLineItemSum = (bill: ValidatableBill): ValidationWarning[] => {
+    if (bill.lineItems.length === 0 || !bill.totalCurrentCharges) return [];
+    if (lineItemsReconcile(bill.lineItems, bill.totalCurrentCharges)) return [];
+    return [{
+        code: 'SUM_MISMATCH',
+        severity: 'error',
+        field: 'totalCurrentCharges',
+        message: `Line items add up to ${sumAmounts(bill.lineItems).toFixed(2)}, but the total current charges are ${bill.totalCurrentCharges.toFixed(2)}.`,
+    }];
+};
+
+const checkDates = (bill: ValidatableBill): ValidationWarning[] => {
+    const warnings: ValidationWarning[] = [];
+    const statement = parseBillDate(bill.statementDate);
+    const due = parseBillDate(bill.dueDate);
+    const start = parseBillDate(bill.servicePeriodStart);
+    const end = parseBillDate(bill.servicePeriodEnd);
+
+    if (statement && due && due < statement) {
+        warnings.push({
+            code: 'DUE_BEFORE_STATEMENT',
+            severity: 'error',
+            field: 'dueDate',
+            message: `The due date (${bill.dueDate}) is before the statement date (${bill.statementDate}).`,
+        });
+    }
+    if (start && end && end < start) {
+        warnings.push({
+            code: 'SERVICE_PERIOD_REVERSED',
+            severity: 'error',
+            field: 'servicePeriodEnd',
+            message: `The service period ends (${bill.servicePeriodEnd}) before it starts (${bill.servicePeriodStart}).`,
+        });
+    }
+    if (statement && end) {
+        const gap = daysBetween(end, statement);
+        if (gap < -1) {
+            warnings.push({
+                code: 'SERVICE_PERIOD_AFTER_STATEMENT',
+                severity: 'warning',
+                field: 'servicePeriodEnd',
+                message: `The service period ends (${bill.servicePeriodEnd}) after the statement date (${bill.statementDate}).`,
+            });
+        } else if (gap > MAX_DAYS_PERIOD_TO_STATEMENT) {
+            warnings.push({
+                code: 'SERVICE_PERIOD_STALE',
+                severity: 'warning',
+                field: 'servicePeriodEnd',
+                message: `The service period ended ${gap} days before the statement date, which is unusually long.`,
+            });
+        }
+    }
+    return warnings;
+};
+
+const checkUsageCharts = (bill: ValidatableBill): ValidationWarning[] => {
+    const warnings: ValidationWarning[] = [];
+    bill.usageCharts.forEach((chart, chartIndex) => {
+        const seen = new Set<string>();
+        chart.data.forEach((point, monthIndex) => {
+            point.usage.forEach((usage, usageIndex) => {
+                const field = `usageCharts.${chartIndex}.data.${monthIndex}.usage.${usageIndex}.value`;
+                if (usage.value < 0) {
+                    warnings.push({
+                        code: 'NEGATIVE_USAGE',
+                        severity: 'error',
+                        field,
+                        message: `"${chart.title}" has a negative usage value for ${point.month} ${usage.year} (${usage.value} ${chart.unit}).`,
+                    });
+                }
+                const key = `${point.month.trim().toLowerCase().slice(0, 3)}|${usage.year}`;
+                if (seen.has(key)) {
+                    warnings.push({
+                        code: 'DUPLICATE_MONTH',
+                        severity: 'warning',
+                        field,
+                        message: `"${chart.title}" lists ${point.month} ${usage.year} more than once.`,
+                    });
+                }
+                seen.add(key);
+            });
+        });
+    });
+    return warnings;
+};
+
+export const validateBill = (bill: ValidatableBill): ValidationWarning[] => [
+    ...checkLineItemSum(bill),
+    ...checkDates(bill),
+    ...checkUsageCharts(bill),
+];
+
+/**
+ * Validates freshly extracted data, attaches the warnings and lowers the confidence score
+ * accordingly. Run once per analysis; user edits should call `validateBill` directly so the
+ * penalty is not applied twice.
+ */
+export const applyValidation = <T extends ValidatableBill>(bill: T): T & { validationWarnings: ValidationWarning[] } => {
+    const warnings = validateBill(bill);
+    if (warnings.length === 0) {
+        return { ...bill, validationWarnings: warnings };
+    }
+    const penalty = warnings.reduce((sum, w) => sum + CONFIDENCE_PENALTY[w.severity], 0);
+    const errorCount = warnings.filter(w => w.severity === 'error').length;
+    return {
+        ...bill,
+        validationWarnings: warnings,
+        confidenceScore: Math.max(0, Math.round((bill.confidenceScore - penalty) * 100) / 100),
+        confidenceReasoning: `${bill.confidenceReasoning} Validation found ${errorCount} error(s) and ${warnings.length - errorCount} warning(s), lowering confidence.`,
+    };
+};